@@ -0,0 +1,45 @@
+// A provider store in a cache directory, so `--network` runs only download what changed.
+// Each provider is kept as `<hash>.json` (metadata) next to `<hash>.body` (the file as downloaded).
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { CachedProvider, ProviderStore } from '../src/core/providerStore';
+
+export const defaultCacheDir = () =>
+  join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'clash-rule-tester', 'providers');
+
+export const createFileProviderStore = (dir: string): ProviderStore => {
+  const fileFor = (url: string, extension: string) =>
+    join(dir, `${createHash('sha256').update(url).digest('hex').slice(0, 32)}.${extension}`);
+
+  const read = async (metadataFile: string): Promise<CachedProvider | undefined> => {
+    try {
+      const metadata = JSON.parse(await readFile(metadataFile, 'utf8')) as Omit<CachedProvider, 'bytes'>;
+      const bytes = new Uint8Array(await readFile(metadataFile.replace(/\.json$/, '.body')));
+      return { ...metadata, bytes };
+    } catch {
+      return undefined; // Missing or half-written entries count as not cached
+    }
+  };
+
+  return {
+    get: url => read(fileFor(url, 'json')),
+    put: async ({ bytes, ...metadata }) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(metadata.url, 'body'), bytes);
+      await writeFile(fileFor(metadata.url, 'json'), JSON.stringify(metadata));
+    },
+    list: async () => {
+      const files = await readdir(dir).catch(() => [] as string[]);
+      const entries = await Promise.all(files.filter(file => file.endsWith('.json')).map(file => read(join(dir, file))));
+      return entries.filter(entry => entry !== undefined);
+    },
+    delete: async url => {
+      await rm(fileFor(url, 'json'), { force: true });
+      await rm(fileFor(url, 'body'), { force: true });
+    },
+    clear: async () => { await rm(dir, { recursive: true, force: true }); },
+  };
+};
@@ -0,0 +1,104 @@
+// Runs a YAML expectation suite against a Clash config, for use in CI:
+//
+//   npm run test:rules -- rules.test.yaml [--config config.yaml] [--mmdb Country.mmdb] [--asn GeoLite2-ASN.mmdb] [--geosite geosite.dat] [--network [--cache-dir dir]]
+//
+// Providers are read from their `path` (relative to the config file), and domains only resolve through
+// the config's hosts and the suite's static-dns, so no network access is needed.
+// Pass --network to fetch http providers that have no local file and to look up other domains over DoH;
+// downloads are cached in --cache-dir (default ~/.cache/clash-rule-tester/providers) and refreshed after
+// the provider's interval.
+
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseConfig } from '../src/core/configParser';
+import type { RuleProvider } from '../src/core/configParser';
+import { configureNetwork, setProviderStore } from '../src/core/network';
+import { detectProviderFormat, parseProviderBytes } from '../src/core/providerFormats';
+import { createStaticResolver } from '../src/core/dns';
+import { openMmdb } from '../src/core/mmdb';
+import { openGeoSite } from '../src/core/geosite';
+import type { GeoDatabases } from '../src/core/geoData';
+import { formatReport, parseSuite, runSuite } from '../src/core/suiteRunner';
+import { CLI_NETWORK_SETTINGS } from '../src/core/settings';
+import { createFileProviderStore, defaultCacheDir } from './providerFileStore';
+
+const usage = [
+  'Usage: test-rules <suite.yaml> [--config <config.yaml>] [--mmdb <file>] [--asn <file>] [--geosite <file>] [--network [--cache-dir <dir>]]',
+  '',
+  'Without --network nothing is downloaded: http providers need a local file at their path, and domains',
+  'missing from hosts and static-dns resolve to no address. --network fetches those providers and looks',
+  'up those domains over DoH.',
+].join('\n');
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      mmdb: { type: 'string' },
+      asn: { type: 'string' },
+      geosite: { type: 'string' },
+      network: { type: 'boolean', default: false },
+      'cache-dir': { type: 'string' },
+    },
+  });
+
+  const [suitePath] = positionals;
+  if (!suitePath) {
+    console.error(usage);
+    return 2;
+  }
+
+  const suite = parseSuite(readFileSync(suitePath, 'utf8'));
+  const configPath = values.config ?? (suite.config && resolve(dirname(suitePath), suite.config));
+  if (!configPath) {
+    console.error('No config given: pass --config or set "config" in the suite.');
+    return 2;
+  }
+  const config = parseConfig(readFileSync(configPath, 'utf8'));
+  const configDir = dirname(resolve(configPath));
+
+  // Reading each file once also keeps the compiled provider index across test cases.
+  const localProviders = new Map<string, string[]>();
+  const loadProvider = async (name: string, provider: RuleProvider): Promise<string[] | null> => {
+    if (provider.type === 'inline') return null;
+    if (localProviders.has(name)) return localProviders.get(name)!;
+    const providerPath = provider.path && resolve(configDir, provider.path);
+    if (providerPath && existsSync(providerPath)) {
+      const format = provider.format ?? detectProviderFormat(basename(providerPath));
+      const rules = parseProviderBytes(readFileSync(providerPath), format, provider.behavior);
+      localProviders.set(name, rules);
+      return rules;
+    }
+    const where = providerPath ? ` at ${providerPath}` : '';
+    if (provider.type === 'file') throw new Error(`no file for provider "${name}"${where}.`);
+    if (values.network) return null;
+    throw new Error(`no local file for provider "${name}"${where}; pass --network to fetch it.`);
+  };
+
+  configureNetwork(CLI_NETWORK_SETTINGS);
+  if (values.network) {
+    setProviderStore(createFileProviderStore(values['cache-dir'] ?? defaultCacheDir()));
+  }
+
+  const geo: GeoDatabases = {
+    country: values.mmdb ? openMmdb(readFileSync(values.mmdb)) : undefined,
+    asn: values.asn ? openMmdb(readFileSync(values.asn)) : undefined,
+    geosite: values.geosite ? openGeoSite(readFileSync(values.geosite)) : undefined,
+  };
+
+  // Offline, domains without a mapping resolve to nothing, rather than to whatever DoH answers when it is reachable.
+  const resolver = values.network ? undefined : createStaticResolver(suite.staticDns ?? {});
+  const report = await runSuite(config, suite, { geo, loadProvider, resolver });
+  console.log(formatReport(report));
+  return report.failed > 0 ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  (e: unknown) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(2);
+  }
+);
@@ -1,31 +1,85 @@
+// A CORS proxy for downloading rule providers from the tester.
+// Only GET requests to allowlisted hosts are forwarded, so the worker is not an open proxy.
+// Set ALLOWED_HOSTS to a comma-separated list to override the defaults; `.example.com` also allows subdomains.
+
+const DEFAULT_ALLOWED_HOSTS = [
+  'raw.githubusercontent.com',
+  'gist.githubusercontent.com',
+  'github.com',
+  'objects.githubusercontent.com',
+  'cdn.jsdelivr.net',
+  'fastly.jsdelivr.net',
+  'testingcf.jsdelivr.net',
+];
+
+// Request headers passed on to the target, e.g. for revalidating cached providers.
+const FORWARDED_HEADERS = ['Accept', 'If-None-Match', 'If-Modified-Since'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': FORWARDED_HEADERS.join(', '),
+  // Lets the tester revalidate cached providers.
+  'Access-Control-Expose-Headers': 'ETag, Last-Modified',
+};
+
+const isAllowedHost = (hostname, allowedHosts) =>
+  allowedHosts.some(host => (host.startsWith('.') ? hostname.endsWith(host) || hostname === host.slice(1) : hostname === host));
+
+const reject = (status, message) => new Response(message, { status, headers: corsHeaders });
+
 export default {
-  async fetch(request, env, ctx) {
+  async fetch(request, env) {
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+    if (request.method !== 'GET') {
+      return reject(405, 'Method not allowed: only GET is proxied');
+    }
+
     // Extract the target URL from the query string
     const url = new URL(request.url).searchParams.get('url');
-
     if (!url) {
-      return new Response('Bad request: Missing "url" query parameter', {
-        status: 400
-      });
+      return reject(400, 'Bad request: Missing "url" query parameter');
+    }
+
+    let target;
+    try {
+      target = new URL(url);
+    } catch {
+      return reject(400, 'Bad request: Invalid "url" query parameter');
+    }
+    const allowedHosts = env?.ALLOWED_HOSTS
+      ? env.ALLOWED_HOSTS.split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+      : DEFAULT_ALLOWED_HOSTS;
+    if (!['http:', 'https:'].includes(target.protocol) || !isAllowedHost(target.hostname, allowedHosts)) {
+      return reject(403, `Forbidden: ${target.hostname} is not an allowed host`);
     }
 
-    // Create a new request to the target URL
-    const newRequest = new Request(url, {
-      headers: request.headers,
-      method: request.method,
-      body: request.body,
-      redirect: 'follow'
-    });
+    const headers = new Headers();
+    for (const name of FORWARDED_HEADERS) {
+      const value = request.headers.get(name);
+      if (value) headers.set(name, value);
+    }
 
-    // Fetch the target URL
-    const response = await fetch(newRequest);
+    // Follow redirects by hand, so they cannot lead off the allowlist.
+    let response;
+    for (let redirects = 0; ; redirects++) {
+      response = await fetch(target.toString(), { headers, redirect: 'manual' });
+      const location = response.headers.get('Location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      if (redirects >= 5) return reject(508, 'Too many redirects');
+      target = new URL(location, target);
+      if (!isAllowedHost(target.hostname, allowedHosts)) {
+        return reject(403, `Forbidden: redirect to ${target.hostname} is not an allowed host`);
+      }
+    }
 
     // Create a new response with CORS headers
     const newResponse = new Response(response.body, response);
-    newResponse.headers.set('Access-Control-Allow-Origin', '*');
-    newResponse.headers.set('Access-Control-Allow-Methods', 'GET, HEAD, POST, OPTIONS');
-       newResponse.headers.set('Access-Control-Allow-Headers', '*');
-
+    for (const [name, value] of Object.entries(corsHeaders)) {
+      newResponse.headers.set(name, value);
+    }
     return newResponse;
   },
-};
\ No newline at end of file
+};
@@ -1,13 +1,48 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { parseConfig } from './core/configParser';
-import type { ClashConfig } from './core/configParser';
-import { matchDomain } from './core/ruleMatcher';
-import type { MatchResult } from './core/ruleMatcher';
-import Editor from '@monaco-editor/react';
+import type { ClashConfig, RuleProvider } from './core/configParser';
+import type { ConnectionMetadata, LogicalMatch, MatchExplanation, MatchProgress, MatchResult, RuleTrace } from './core/ruleMatcher';
+import { resolvePolicyChain } from './core/policyResolver';
+import type { GroupSelections, PolicyChain } from './core/policyResolver';
+import type { GeoFiles } from './core/geoData';
+import GeoDataPanel from './components/GeoDataPanel';
+import DnsPanel from './components/DnsPanel';
+import ProviderFilesPanel from './components/ProviderFilesPanel';
+import ProviderCachePanel from './components/ProviderCachePanel';
+import NetworkSettingsPanel from './components/NetworkSettingsPanel';
+import { createResolverFromSettings, DEFAULT_RESOLVER_SETTINGS } from './core/dns';
+import type { ResolverSettings } from './core/dns';
+import BatchPanel from './components/BatchPanel';
+import ExplainTrace from './components/ExplainTrace';
+import LintPanel from './components/LintPanel';
+import DiffPanel from './components/DiffPanel';
+import ProviderInspectorPanel from './components/ProviderInspectorPanel';
+import SharePanel from './components/SharePanel';
+import ReplayPanel from './components/ReplayPanel';
+import type { SharedMode, SharedState } from './core/permalink';
+import type { NetworkSettings } from './core/settings';
+import ConfigEditor from './components/ConfigEditor';
+import { peekProviderRules } from './core/network';
+import { configureMatchWorker, isCancelled, runInMatchWorker } from './components/matchWorkerClient';
 import './App.css';
 
 const initialConfig = `
 # this is an example config
+proxies:
+  - name: example-node
+    type: ss
+    server: server.example.com
+    port: 8388
+    cipher: aes-128-gcm
+    password: password
+
+proxy-groups:
+  - name: PROXY
+    type: select
+    proxies:
+      - example-node
+      - DIRECT
+
 rule-providers:
   reject:
     type: http
@@ -55,37 +90,277 @@ rules:
   - MATCH,DIRECT
 `;
 
-function App() {
-  const [configYaml, setConfigYaml] = useState(initialConfig);
-  const [domain, setDomain] = useState('www.google.com');
+// Optional connection details, kept as raw input strings until a test runs.
+interface ConnectionFields {
+  dstPort: string;
+  network: '' | 'tcp' | 'udp';
+  srcIp: string;
+  srcPort: string;
+  processName: string;
+  processPath: string;
+  inPort: string;
+  inType: string;
+  inUser: string;
+  inName: string;
+}
+
+const emptyConnectionFields: ConnectionFields = {
+  dstPort: '',
+  network: '',
+  srcIp: '',
+  srcPort: '',
+  processName: '',
+  processPath: '',
+  inPort: '',
+  inType: '',
+  inUser: '',
+  inName: '',
+};
+
+const textFields: { key: Exclude<keyof ConnectionFields, 'network'>; label: string; placeholder: string }[] = [
+  { key: 'dstPort', label: 'Destination Port', placeholder: 'e.g., 443' },
+  { key: 'srcIp', label: 'Source IP', placeholder: 'e.g., 192.168.1.10' },
+  { key: 'srcPort', label: 'Source Port', placeholder: 'e.g., 52000' },
+  { key: 'processName', label: 'Process Name', placeholder: 'e.g., Telegram.exe' },
+  { key: 'processPath', label: 'Process Path', placeholder: 'e.g., /usr/bin/curl' },
+  { key: 'inPort', label: 'Inbound Port', placeholder: 'e.g., 7890' },
+  { key: 'inType', label: 'Inbound Type', placeholder: 'e.g., SOCKS5' },
+  { key: 'inUser', label: 'Inbound User', placeholder: 'e.g., alice' },
+  { key: 'inName', label: 'Inbound Name', placeholder: 'e.g., mixed-in' },
+];
+
+// Connection fields from a share link; unknown keys are ignored.
+const toConnectionFields = (shared: Record<string, string> = {}): ConnectionFields => {
+  const fields = { ...emptyConnectionFields };
+  for (const { key } of textFields) fields[key] = shared[key] ?? '';
+  if (shared.network === 'tcp' || shared.network === 'udp') fields.network = shared.network;
+  return fields;
+};
+
+const parsePort = (value: string): number | undefined => {
+  const port = parseInt(value.trim(), 10);
+  return Number.isNaN(port) ? undefined : port;
+};
+
+const buildMetadata = (host: string, fields: ConnectionFields): ConnectionMetadata => ({
+  host: host.trim(),
+  dstPort: parsePort(fields.dstPort),
+  network: fields.network || undefined,
+  srcIp: fields.srcIp.trim() || undefined,
+  srcPort: parsePort(fields.srcPort),
+  processName: fields.processName.trim() || undefined,
+  processPath: fields.processPath.trim() || undefined,
+  inPort: parsePort(fields.inPort),
+  inType: fields.inType.trim() || undefined,
+  inUser: fields.inUser.trim() || undefined,
+  inName: fields.inName.trim() || undefined,
+});
+
+const describeProgress = (progress: MatchProgress | null): string => {
+  switch (progress?.kind) {
+    case 'provider': return `Loaded provider ${progress.name} (${progress.entryCount} entries)...`;
+    case 'rule': return `Matching rule ${progress.index + 1} of ${progress.total}...`;
+    default: return 'Fetching providers, resolving DNS, and matching...';
+  }
+};
+
+function LogicalMatchTree({ node }: { node: LogicalMatch }) {
+  return (
+    <li className={node.matched ? 'condition-matched' : 'condition-unmatched'}>
+      <span>{node.matched ? '✓' : '✗'}</span> <code>{node.rule}</code>
+      {node.subMatchingRule && <> via <code>{node.subMatchingRule}</code></>}
+      {node.geoMatch && <> via <code>{node.geoMatch.entry}</code></>}
+      {node.conditions && (
+        <ul>
+          {node.conditions.map((condition, index) => (
+            <LogicalMatchTree key={index} node={condition} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+function PolicyChainView({ chain, selections, onSelect }: {
+  chain: PolicyChain;
+  selections: GroupSelections;
+  onSelect: (group: string, member: string) => void;
+}) {
+  return (
+    <div className="policy-chain">
+      {chain.hops.map((hop, index) => (
+        <span key={index} className={`policy-hop policy-hop-${hop.kind}`}>
+          {index > 0 && <span className="policy-arrow">→</span>}
+          <code>{hop.name}</code>
+          {hop.groupType && <small> ({hop.groupType})</small>}
+          {hop.groupType === 'select' && hop.members && (
+            <select
+              value={selections[hop.name] ?? hop.selected}
+              onChange={(e) => onSelect(hop.name, e.target.value)}
+            >
+              {hop.members.map(member => <option key={member} value={member}>{member}</option>)}
+            </select>
+          )}
+          {hop.relayChains && (
+            <ol className="relay-chains">
+              {hop.relayChains.map((relayChain, relayIndex) => (
+                <li key={relayIndex}>
+                  <PolicyChainView chain={relayChain} selections={selections} onSelect={onSelect} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </span>
+      ))}
+      {chain.error && <div className="policy-error">{chain.error}</div>}
+    </div>
+  );
+}
+
+interface AppProps {
+  shared?: SharedState | null; // State restored from a share link
+  shareError?: string; // Why the share link in the URL could not be opened
+  networkSettings: NetworkSettings; // The settings in effect, as configured at startup
+}
+
+function App({ shared, shareError, networkSettings }: AppProps) {
+  const [configYaml, setConfigYaml] = useState(shared?.config ?? initialConfig);
+  const [mode, setMode] = useState<SharedMode>(shared?.mode ?? 'single');
+  const [domain, setDomain] = useState(shared?.domain ?? 'www.google.com');
+  const [domainList, setDomainList] = useState(shared?.domainList ?? 'www.google.com\nwww.baidu.com\ntelegram.org');
+  const [connectionFields, setConnectionFields] = useState<ConnectionFields>(() => toConnectionFields(shared?.connection));
   const [result, setResult] = useState<MatchResult | null>(null);
-  const [error, setError] = useState<string>('');
+  const [explain, setExplain] = useState(shared?.explain ?? false);
+  const [explanation, setExplanation] = useState<MatchExplanation | null>(null);
+  const [testedConfig, setTestedConfig] = useState<ClashConfig | null>(null);
+  const [selections, setSelections] = useState<GroupSelections>(shared?.selections ?? {});
+  const [geoFiles, setGeoFiles] = useState<GeoFiles>({});
+  const [dnsSettings, setDnsSettings] = useState<ResolverSettings>(shared?.dns ?? DEFAULT_RESOLVER_SETTINGS);
+  const [network, setNetwork] = useState(networkSettings);
+  const [providerFiles, setProviderFiles] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState<string>(shareError ? `Could not open the share link: ${shareError}` : '');
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<MatchProgress | null>(null);
+  const [providerCounts, setProviderCounts] = useState<Record<string, number>>({});
+  const testController = useRef<AbortController | null>(null);
+  const ruleTestController = useRef<AbortController | null>(null);
+  const [ruleTest, setRuleTest] = useState<{ rule: string; trace?: RuleTrace; error?: string } | null>(null);
+
+  // Invalid static mappings fall back to DoH until they are fixed.
+  const dnsError = useMemo(() => {
+    try {
+      createResolverFromSettings(dnsSettings);
+      return undefined;
+    } catch (e: unknown) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [dnsSettings]);
+
+  // Every test, batch, comparison, replay and provider lookup runs in the worker, which gets its own copy of these settings.
+  useEffect(() => {
+    configureMatchWorker({ network, dns: dnsSettings, geoFiles, providerFiles });
+  }, [network, dnsSettings, geoFiles, providerFiles]);
+
+  const sharedState: SharedState = {
+    config: configYaml,
+    mode,
+    domain,
+    domainList,
+    connection: Object.fromEntries(Object.entries(connectionFields).filter(([, value]) => value !== '')),
+    explain,
+    selections,
+    dns: dnsSettings,
+    mockResponses: network.mode === 'mock' ? network.mockResponses : undefined,
+  };
+
+  // Entry counts for provider hovers, from providers already loaded here or reported by the worker.
+  const countEntries = (name: string, provider: RuleProvider) =>
+    (provider.type === 'file'
+      ? providerFiles[name]?.length
+      : (provider.url ? peekProviderRules(provider.url)?.length : undefined) ?? providerCounts[name]);
+
+  // The editor's "test this rule" action: evaluates one rule against the current test case.
+  // Starting another test, or closing the result, cancels the one running.
+  const handleTestRule = async (ruleIndex: number) => {
+    ruleTestController.current?.abort();
+    const controller = new AbortController();
+    ruleTestController.current = controller;
+    let rule = '';
+    try {
+      rule = String(parseConfig(configYaml).rules?.[ruleIndex] ?? '');
+      setRuleTest({ rule });
+      const outcome = await runInMatchWorker(
+        { kind: 'rule', configYaml, ruleIndex, metadata: buildMetadata(domain, connectionFields), selections },
+        { signal: controller.signal },
+      );
+      if (outcome.kind === 'rule') setRuleTest({ rule, trace: outcome.trace });
+    } catch (e: unknown) {
+      if (!isCancelled(e)) setRuleTest({ rule, error: e instanceof Error ? e.message : String(e) });
+    } finally {
+      if (ruleTestController.current === controller) ruleTestController.current = null;
+    }
+  };
+
+  const closeRuleTest = () => {
+    ruleTestController.current?.abort();
+    setRuleTest(null);
+  };
+
+  const handleProgress = (event: MatchProgress) => {
+    if (event.kind === 'provider') setProviderCounts(counts => ({ ...counts, [event.name]: event.entryCount }));
+    setProgress(event);
+  };
 
   const handleTest = async () => {
     if (isLoading || !domain.trim()) return;
+    const controller = new AbortController();
+    testController.current = controller;
     try {
       setError('');
       setResult(null);
+      setExplanation(null);
+      setProgress(null);
       setIsLoading(true);
-      const config: ClashConfig = parseConfig(configYaml);
-      const match = await matchDomain(config, domain);
-      if (match) {
-        setResult(match);
+      const outcome = await runInMatchWorker(
+        { kind: 'match', configYaml, metadata: buildMetadata(domain, connectionFields), selections, explain },
+        { signal: controller.signal, onProgress: handleProgress },
+      );
+      if (outcome.kind !== 'match') return;
+      if (outcome.explanation) setExplanation(outcome.explanation);
+      if (outcome.result) {
+        setResult(outcome.result);
+        setTestedConfig(outcome.config);
       } else {
         setError(`No rule matched for domain: ${domain}`);
       }
     } catch (e: unknown) {
-      if (e instanceof Error) {
+      if (isCancelled(e)) {
+        setError('The test was cancelled.');
+      } else if (e instanceof Error) {
         setError(e.message || 'An unknown error occurred.');
       } else {
         setError('An unknown error occurred.');
       }
     } finally {
+      testController.current = null;
       setIsLoading(false);
     }
   };
 
+  // Re-resolved on selection changes so picking a group member doesn't require another test run.
+  const policyChain = useMemo(() => {
+    if (!result?.policyChain || !testedConfig) return null;
+    return resolvePolicyChain(testedConfig, result.finalPolicy, selections);
+  }, [result, testedConfig, selections]);
+
+  const selectGroupMember = (group: string, member: string) => {
+    setSelections(current => ({ ...current, [group]: member }));
+  };
+
+  const updateConnectionField = <K extends keyof ConnectionFields>(key: K, value: ConnectionFields[K]) => {
+    setConnectionFields(fields => ({ ...fields, [key]: value }));
+  };
+
   const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Enter') {
       handleTest();
@@ -103,52 +378,184 @@ function App() {
       <main className="container">
         <div className="config-editor">
           <h2>Configuration</h2>
-          <Editor
-            height="60vh"
-            language="yaml"
-            theme="light"
-            value={configYaml}
-            onChange={(value) => setConfigYaml(value || '')}
-            options={{
-              minimap: { enabled: false },
-              wordWrap: 'on',
-              fontSize: 14,
-            }}
-          />
+          <ConfigEditor value={configYaml} onChange={setConfigYaml} countEntries={countEntries} onTestRule={handleTestRule} />
+          {ruleTest && (
+            <div className={`rule-test ${ruleTest.trace?.matched ? 'rule-test-matched' : ''}`}>
+              <code>{ruleTest.rule}</code>{' '}
+              {ruleTest.error ?? (ruleTest.trace
+                ? `${ruleTest.trace.matched ? 'matches' : 'does not match'} ${domain}: ${ruleTest.trace.reason}`
+                : 'testing...')}
+              <button type="button" onClick={closeRuleTest}>Close</button>
+            </div>
+          )}
+          <LintPanel configYaml={configYaml} />
         </div>
         <div className="tester">
-          <h2>Test Case</h2>
-          <div className="input-group">
-            <label htmlFor="domain">Domain to Test</label>
-            <input
-              id="domain"
-              type="text"
-              value={domain}
-              onChange={(e) => setDomain(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="e.g., www.google.com"
-            />
-            <button onClick={handleTest} disabled={isLoading || !domain.trim()}>
-              {isLoading ? 'Testing...' : 'Test'}
+          <div className="mode-tabs">
+            <button type="button" className={mode === 'single' ? 'active' : ''} onClick={() => setMode('single')}>
+              Single
+            </button>
+            <button type="button" className={mode === 'batch' ? 'active' : ''} onClick={() => setMode('batch')}>
+              Batch
+            </button>
+            <button type="button" className={mode === 'compare' ? 'active' : ''} onClick={() => setMode('compare')}>
+              Compare
+            </button>
+            <button type="button" className={mode === 'inspect' ? 'active' : ''} onClick={() => setMode('inspect')}>
+              Providers
+            </button>
+            <button type="button" className={mode === 'replay' ? 'active' : ''} onClick={() => setMode('replay')}>
+              Replay
             </button>
           </div>
-          <div className="results">
-            <h2>Result</h2>
-            {isLoading && <div className="placeholder-box">Fetching providers, resolving DNS, and matching...</div>}
-            {error && <div className="error-box">{error}</div>}
-            {result && (
-              <div className="result-box">
-                <p><strong>Domain:</strong> {result.domain}</p>
-                {result.resolvedIp && <p><strong>Resolved IP:</strong> {result.resolvedIp}</p>}
-                <p><strong>Matching Rule:</strong> <code>{result.matchingRule}</code></p>
-                {result.subMatchingRule && (
-                  <p><strong>Provider Rule:</strong> <code>{result.subMatchingRule}</code></p>
+          <GeoDataPanel files={geoFiles} onChange={setGeoFiles} />
+          <DnsPanel settings={dnsSettings} onChange={setDnsSettings} error={dnsError} />
+          <ProviderFilesPanel configYaml={configYaml} files={providerFiles} onChange={setProviderFiles} />
+          <ProviderCachePanel />
+          <NetworkSettingsPanel settings={network} onChange={setNetwork} />
+          <SharePanel state={sharedState} />
+          {mode === 'single' && (
+            <>
+              <h2>Test Case</h2>
+              <div className="input-group">
+                <label htmlFor="domain">Domain or IP to Test</label>
+                <input
+                  id="domain"
+                  type="text"
+                  value={domain}
+                  onChange={(e) => setDomain(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="e.g., www.google.com or 8.8.8.8"
+                />
+                <details className="connection-fields">
+                  <summary>Connection details (optional)</summary>
+                  <div className="connection-grid">
+                    <div className="connection-field">
+                      <label htmlFor="network">Network</label>
+                      <select
+                        id="network"
+                        value={connectionFields.network}
+                        onChange={(e) => updateConnectionField('network', e.target.value as ConnectionFields['network'])}
+                      >
+                        <option value="">Any</option>
+                        <option value="tcp">TCP</option>
+                        <option value="udp">UDP</option>
+                      </select>
+                    </div>
+                    {textFields.map(({ key, label, placeholder }) => (
+                      <div key={key} className="connection-field">
+                        <label htmlFor={key}>{label}</label>
+                        <input
+                          id={key}
+                          type="text"
+                          value={connectionFields[key]}
+                          onChange={(e) => updateConnectionField(key, e.target.value)}
+                          onKeyDown={handleKeyDown}
+                          placeholder={placeholder}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </details>
+                <label className="checkbox-label">
+                  <input type="checkbox" checked={explain} onChange={(e) => setExplain(e.target.checked)} />
+                  Explain: trace every rule and show shadowed matches
+                </label>
+                <button onClick={handleTest} disabled={isLoading || !domain.trim()}>
+                  {isLoading ? 'Testing...' : 'Test'}
+                </button>
+                {isLoading && <button type="button" onClick={() => testController.current?.abort()}>Cancel</button>}
+              </div>
+              <div className="results">
+                <h2>Result</h2>
+                {isLoading && <div className="placeholder-box">{describeProgress(progress)}</div>}
+                {error && <div className="error-box">{error}</div>}
+                {result && (
+                  <div className="result-box">
+                    <p><strong>Domain:</strong> {result.domain}</p>
+                    {result.fakeIp && (
+                      <p><strong>Fake IP:</strong> {result.fakeIp} (fake-ip mode; rules see the domain)</p>
+                    )}
+                    {result.resolvedIps && <p><strong>Resolved IPs:</strong> {result.resolvedIps.join(', ')}</p>}
+                    {result.dnsResolution && (
+                      <p>
+                        <strong>DNS:</strong>{' '}
+                        {result.dnsResolution.source === 'hosts'
+                          ? <>hosts entry <code>{result.dnsResolution.hostsEntry}</code></>
+                          : <>
+                            nameserver <code>{result.dnsResolution.nameserver ?? 'default'}</code>
+                            {result.dnsResolution.nameserverPolicy && <> from nameserver-policy <code>{result.dnsResolution.nameserverPolicy}</code></>}
+                          </>}
+                      </p>
+                    )}
+                    <p><strong>Matching Rule:</strong> <code>{result.matchingRule}</code></p>
+                    {result.subRulePath?.map(({ list, rule }, index) => (
+                      <p key={index} className="sub-rule-step">
+                        <strong>→ sub-rules {list}:</strong> <code>{rule}</code>
+                      </p>
+                    ))}
+                    {result.subMatchingRule && (
+                      <p><strong>Provider Rule:</strong> <code>{result.subMatchingRule}</code></p>
+                    )}
+                    {result.geoMatch && (
+                      <p><strong>{result.geoMatch.database} Entry:</strong> <code>{result.geoMatch.entry}</code></p>
+                    )}
+                    {result.logicalMatch?.conditions && (
+                      <div className="logical-match">
+                        <strong>Conditions:</strong>
+                        <ul>
+                          {result.logicalMatch.conditions.map((condition, index) => (
+                            <LogicalMatchTree key={index} node={condition} />
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <p><strong>Final Policy:</strong> <span>{result.finalPolicy}</span></p>
+                    {policyChain && (
+                      <>
+                        <p><strong>Policy Chain:</strong></p>
+                        <PolicyChainView chain={policyChain} selections={selections} onSelect={selectGroupMember} />
+                        {policyChain.finalOutbound && (
+                          <p><strong>Final Outbound:</strong> <span>{policyChain.finalOutbound}</span></p>
+                        )}
+                      </>
+                    )}
+                  </div>
                 )}
-                <p><strong>Final Policy:</strong> <span>{result.finalPolicy}</span></p>
+                {!result && !error && !isLoading && <div className="placeholder-box">Run a test to see the result.</div>}
+                {explanation && <ExplainTrace explanation={explanation} />}
               </div>
-            )}
-            {!result && !error && !isLoading && <div className="placeholder-box">Run a test to see the result.</div>}
-          </div>
+            </>
+          )}
+          {mode === 'batch' && (
+            <>
+              <h2>Batch Test</h2>
+              <BatchPanel
+                configYaml={configYaml}
+                selections={selections}
+                domainList={domainList}
+                onDomainListChange={setDomainList}
+              />
+            </>
+          )}
+          {mode === 'compare' && (
+            <>
+              <h2>Compare Configs</h2>
+              <DiffPanel configYaml={configYaml} selections={selections} />
+            </>
+          )}
+          {mode === 'inspect' && (
+            <>
+              <h2>Inspect Providers</h2>
+              <ProviderInspectorPanel configYaml={configYaml} selections={selections} />
+            </>
+          )}
+          {mode === 'replay' && (
+            <>
+              <h2>Replay Traffic</h2>
+              <ReplayPanel configYaml={configYaml} selections={selections} />
+            </>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,144 @@
+import { useMemo, useRef, useState } from 'react';
+import type { GroupSelections } from '../core/policyResolver';
+import {
+  BATCH_COLUMNS,
+  parseDomainList,
+  summarizeByPolicy,
+  toBatchRecord,
+  toCsv,
+  toJson,
+} from '../core/batch';
+import type { BatchRecord } from '../core/batch';
+import { downloadText } from './download';
+import { isCancelled, runInMatchWorker } from './matchWorkerClient';
+
+interface BatchPanelProps {
+  configYaml: string;
+  selections: GroupSelections;
+  domainList: string; // Kept by the app, so share links include it
+  onDomainListChange: (domainList: string) => void;
+}
+
+function BatchPanel({ configYaml, selections, domainList, onDomainListChange: setDomainList }: BatchPanelProps) {
+  const [records, setRecords] = useState<BatchRecord[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<{ key: keyof BatchRecord; descending: boolean }>({ key: 'domain', descending: false });
+
+  const domains = useMemo(() => parseDomainList(domainList), [domainList]);
+  const isRunning = progress !== null;
+
+  const handleRun = async () => {
+    if (isRunning || domains.length === 0) return;
+    controller.current = new AbortController();
+    try {
+      setError('');
+      setRecords([]);
+      setProgress({ done: 0, total: domains.length });
+      const outcome = await runInMatchWorker({ kind: 'batch', configYaml, domains, selections }, {
+        signal: controller.current.signal,
+        onProgress: event => event.kind === 'domain' && setProgress({ done: event.done, total: event.total }),
+      });
+      if (outcome.kind === 'batch') setRecords(outcome.rows.map(toBatchRecord));
+    } catch (e: unknown) {
+      if (isCancelled(e)) {
+        setError('The batch was cancelled.');
+      } else {
+        setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+      }
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setDomainList(await file.text());
+  };
+
+  const toggleSort = (key: keyof BatchRecord) => {
+    setSort(current => ({ key, descending: current.key === key ? !current.descending : false }));
+  };
+
+  const visibleRecords = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const filtered = needle
+      ? records.filter(record => BATCH_COLUMNS.some(c => record[c.key].toLowerCase().includes(needle)))
+      : records;
+    const sorted = [...filtered].sort((a, b) => a[sort.key].localeCompare(b[sort.key]));
+    return sort.descending ? sorted.reverse() : sorted;
+  }, [records, filter, sort]);
+
+  const summary = useMemo(() => summarizeByPolicy(records), [records]);
+
+  return (
+    <div className="batch-panel">
+      <div className="input-group">
+        <label htmlFor="domain-list">Domains to Test (one per line)</label>
+        <textarea
+          id="domain-list"
+          rows={8}
+          value={domainList}
+          onChange={(e) => setDomainList(e.target.value)}
+          placeholder={'www.google.com\nwww.baidu.com'}
+        />
+        <input type="file" accept=".txt,.list,.csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+        <button onClick={handleRun} disabled={isRunning || domains.length === 0}>
+          {isRunning ? `Testing ${progress!.done} / ${progress!.total}...` : `Test ${domains.length} Domains`}
+        </button>
+        {isRunning && <button type="button" onClick={() => controller.current?.abort()}>Cancel</button>}
+      </div>
+      {error && <div className="error-box">{error}</div>}
+      {records.length > 0 && (
+        <div className="batch-results">
+          <div className="policy-summary">
+            {summary.map(({ policy, count }) => (
+              <button key={policy} type="button" className="policy-count" onClick={() => setFilter(policy)}>
+                {policy}: <strong>{count}</strong>
+              </button>
+            ))}
+          </div>
+          <div className="batch-toolbar">
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter results..."
+            />
+            <button type="button" onClick={() => downloadText('batch-results.csv', toCsv(visibleRecords), 'text/csv')}>
+              Export CSV
+            </button>
+            <button type="button" onClick={() => downloadText('batch-results.json', toJson(visibleRecords), 'application/json')}>
+              Export JSON
+            </button>
+          </div>
+          <div className="table-wrapper">
+            <table className="result-table">
+              <thead>
+                <tr>
+                  {BATCH_COLUMNS.map(({ key, label }) => (
+                    <th key={key} onClick={() => toggleSort(key)}>
+                      {label}{sort.key === key ? (sort.descending ? ' ▼' : ' ▲') : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRecords.map(record => (
+                  <tr key={record.domain}>
+                    {BATCH_COLUMNS.map(({ key }) => <td key={key}>{record[key]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="batch-count">Showing {visibleRecords.length} of {records.length} domains.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchPanel;
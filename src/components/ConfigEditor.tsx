@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import Editor from '@monaco-editor/react';
+import type { Monaco } from '@monaco-editor/react';
+import type { EntryCounter } from '../core/configLanguage';
+import { registerClashLanguage, ruleIndexAtLine, ruleTestDecorations, updateClashMarkers } from './clashLanguage';
+import type { CodeEditor } from './clashLanguage';
+
+interface ConfigEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  countEntries: EntryCounter; // Entry counts for provider hovers
+  onTestRule: (ruleIndex: number) => void; // Clicked the gutter action of a rule
+}
+
+// The YAML editor, with Clash markers, completion, hovers and a "test this rule" gutter action.
+function ConfigEditor({ value, onChange, countEntries, onTestRule }: ConfigEditorProps) {
+  const [instance, setInstance] = useState<{ editor: CodeEditor; monaco: Monaco } | null>(null);
+  // Monaco keeps the providers registered on mount; they read the latest props through these.
+  const countEntriesRef = useRef(countEntries);
+  const onTestRuleRef = useRef(onTestRule);
+  useEffect(() => {
+    countEntriesRef.current = countEntries;
+    onTestRuleRef.current = onTestRule;
+  });
+
+  useEffect(() => {
+    if (!instance) return;
+    const { editor, monaco } = instance;
+    const disposables = [
+      ...registerClashLanguage(monaco, (name, provider) => countEntriesRef.current(name, provider)),
+      editor.onMouseDown(e => {
+        if (e.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN || !e.target.position) return;
+        const ruleIndex = ruleIndexAtLine(editor.getValue(), e.target.position.lineNumber);
+        if (ruleIndex !== undefined) onTestRuleRef.current(ruleIndex);
+      }),
+    ];
+    return () => disposables.forEach(disposable => disposable.dispose());
+  }, [instance]);
+
+  // Markers and gutter actions follow the text, once typing pauses.
+  const decorations = useRef<ReturnType<CodeEditor['createDecorationsCollection']> | null>(null);
+  useEffect(() => {
+    if (!instance) return;
+    const timer = setTimeout(() => {
+      const model = instance.editor.getModel();
+      if (!model) return;
+      updateClashMarkers(instance.monaco, model);
+      decorations.current ??= instance.editor.createDecorationsCollection();
+      decorations.current.set(ruleTestDecorations(value));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [instance, value]);
+
+  return (
+    <Editor
+      height="60vh"
+      language="yaml"
+      theme="light"
+      value={value}
+      onChange={(next) => onChange(next || '')}
+      onMount={(editor, monaco) => setInstance({ editor, monaco })}
+      options={{
+        minimap: { enabled: false },
+        wordWrap: 'on',
+        fontSize: 14,
+        glyphMargin: true,
+      }}
+    />
+  );
+}
+
+export default ConfigEditor;
@@ -0,0 +1,113 @@
+import { useMemo, useRef, useState } from 'react';
+import type { GroupSelections } from '../core/policyResolver';
+import { parseDomainList } from '../core/batch';
+import { diffToCsv, diffToJson } from '../core/configDiff';
+import type { ConfigDiff } from '../core/configDiff';
+import { downloadText } from './download';
+import { isCancelled, runInMatchWorker } from './matchWorkerClient';
+
+interface DiffPanelProps {
+  configYaml: string; // The new config, from the editor
+  selections: GroupSelections;
+}
+
+function DiffPanel({ configYaml, selections }: DiffPanelProps) {
+  const [oldConfigYaml, setOldConfigYaml] = useState(configYaml);
+  const [domainList, setDomainList] = useState('www.google.com\nwww.baidu.com\ntelegram.org');
+  const [diff, setDiff] = useState<ConfigDiff | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+
+  const domains = useMemo(() => parseDomainList(domainList), [domainList]);
+  const isRunning = progress !== null;
+
+  const handleCompare = async () => {
+    if (isRunning || domains.length === 0) return;
+    controller.current = new AbortController();
+    try {
+      setError('');
+      setDiff(null);
+      setProgress({ done: 0, total: domains.length * 2 });
+      const outcome = await runInMatchWorker({ kind: 'diff', oldConfigYaml, configYaml, domains, selections }, {
+        signal: controller.current.signal,
+        onProgress: event => event.kind === 'domain' && setProgress({ done: event.done, total: event.total }),
+      });
+      if (outcome.kind === 'diff') setDiff(outcome.diff);
+    } catch (e: unknown) {
+      if (isCancelled(e)) {
+        setError('The comparison was cancelled.');
+      } else {
+        setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+      }
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleFile = async (file: File | undefined, setText: (text: string) => void) => {
+    if (file) setText(await file.text());
+  };
+
+  return (
+    <div className="diff-panel">
+      <div className="input-group">
+        <label htmlFor="old-config">Old Config (the editor holds the new one)</label>
+        <textarea id="old-config" rows={8} value={oldConfigYaml} onChange={(e) => setOldConfigYaml(e.target.value)} />
+        <input type="file" accept=".yaml,.yml" onChange={(e) => handleFile(e.target.files?.[0], setOldConfigYaml)} />
+        <label htmlFor="diff-domains">Domains to Compare (one per line)</label>
+        <textarea id="diff-domains" rows={6} value={domainList} onChange={(e) => setDomainList(e.target.value)} />
+        <input type="file" accept=".txt,.list,.csv" onChange={(e) => handleFile(e.target.files?.[0], setDomainList)} />
+        <button onClick={handleCompare} disabled={isRunning || domains.length === 0}>
+          {isRunning ? `Comparing ${progress!.done} / ${progress!.total}...` : `Compare ${domains.length} Domains`}
+        </button>
+        {isRunning && <button type="button" onClick={() => controller.current?.abort()}>Cancel</button>}
+      </div>
+      {error && <div className="error-box">{error}</div>}
+      {diff && (
+        <div className="diff-results">
+          <p>
+            <strong>{diff.changes.length}</strong> of {diff.total} domains change routing.
+          </p>
+          {diff.changes.length > 0 && (
+            <div className="batch-toolbar">
+              <button type="button" onClick={() => downloadText('config-diff.csv', diffToCsv(diff), 'text/csv')}>Export CSV</button>
+              <button type="button" onClick={() => downloadText('config-diff.json', diffToJson(diff), 'application/json')}>Export JSON</button>
+            </div>
+          )}
+          {diff.transitions.map(transition => (
+            <details key={`${transition.from}→${transition.to}`} className="diff-transition" open>
+              <summary>
+                <code>{transition.from}</code> → <code>{transition.to}</code> ({transition.changes.length})
+                {transition.from === transition.to && ' (same policy, different rule)'}
+              </summary>
+              <div className="table-wrapper">
+                <table className="result-table">
+                  <thead>
+                    <tr>
+                      <th>Domain</th>
+                      <th>Old Rule</th>
+                      <th>New Rule</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {transition.changes.map(change => (
+                      <tr key={change.domain}>
+                        <td>{change.domain}</td>
+                        <td><code>{change.oldRule}</code></td>
+                        <td><code>{change.newRule}</code></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DiffPanel;
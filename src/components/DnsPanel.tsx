@@ -0,0 +1,41 @@
+import type { ResolverSettings } from '../core/dns';
+
+interface DnsPanelProps {
+  settings: ResolverSettings;
+  onChange: (settings: ResolverSettings) => void;
+  error?: string; // Why the static mappings could not be used
+}
+
+function DnsPanel({ settings, onChange, error }: DnsPanelProps) {
+  const { mode, mappings } = settings;
+
+  return (
+    <details className="geo-data">
+      <summary>DNS resolver (optional)</summary>
+      <p className="dns-note">
+        The config's <code>hosts</code> and <code>dns</code> sections (nameserver-policy, fake-ip) are applied on top of the resolver.
+      </p>
+      <div className="dns-modes">
+        <label className="checkbox-label">
+          <input type="radio" name="dns-mode" checked={mode === 'doh'} onChange={() => onChange({ ...settings, mode: 'doh' })} />
+          DoH (server from the network settings)
+        </label>
+        <label className="checkbox-label">
+          <input type="radio" name="dns-mode" checked={mode === 'static'} onChange={() => onChange({ ...settings, mode: 'static' })} />
+          Static mappings (offline, deterministic)
+        </label>
+      </div>
+      {mode === 'static' && (
+        <textarea
+          aria-label="Static DNS mappings"
+          rows={5}
+          value={mappings}
+          onChange={(e) => onChange({ ...settings, mappings: e.target.value })}
+        />
+      )}
+      {error && <div className="error-box">{error}</div>}
+    </details>
+  );
+}
+
+export default DnsPanel;
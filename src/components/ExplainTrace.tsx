@@ -0,0 +1,54 @@
+import type { MatchExplanation } from '../core/ruleMatcher';
+
+interface ExplainTraceProps {
+  explanation: MatchExplanation;
+}
+
+function ExplainTrace({ explanation }: ExplainTraceProps) {
+  const { result, trace, shadowed } = explanation;
+  const firstMatch = result ? trace.find(t => t.matched) : undefined;
+
+  const statusOf = (index: number, matched: boolean, error?: string): string => {
+    if (error) return 'error';
+    if (!matched) return 'unmatched';
+    return index === firstMatch?.index ? 'first-match' : 'shadowed';
+  };
+
+  return (
+    <div className="explain-trace">
+      <h3>Evaluation Trace</h3>
+      {shadowed.length > 0 && (
+        <p className="shadow-summary">
+          <code>{firstMatch?.rule}</code> shadows {shadowed.length} later matching rule{shadowed.length > 1 ? 's' : ''}.
+        </p>
+      )}
+      <div className="table-wrapper">
+        <table className="result-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Rule</th>
+              <th>Result</th>
+              <th>Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trace.map(({ index, rule, matched, reason, error }) => {
+              const status = statusOf(index, matched, error);
+              return (
+                <tr key={index} className={`trace-${status}`}>
+                  <td>{index + 1}</td>
+                  <td><code>{rule}</code></td>
+                  <td>{status.replace('-', ' ')}</td>
+                  <td>{reason}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default ExplainTrace;
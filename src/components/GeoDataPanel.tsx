@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { openGeoDatabases } from '../core/geoData';
+import type { GeoDatabases, GeoFiles } from '../core/geoData';
+
+interface GeoDataPanelProps {
+  files: GeoFiles;
+  onChange: (files: GeoFiles) => void;
+}
+
+const geoFiles: { key: keyof GeoDatabases; label: string; accept: string }[] = [
+  { key: 'country', label: 'Country.mmdb (GEOIP)', accept: '.mmdb' },
+  { key: 'asn', label: 'GeoLite2-ASN.mmdb (IP-ASN)', accept: '.mmdb' },
+  { key: 'geosite', label: 'geosite.dat (GEOSITE)', accept: '.dat' },
+];
+
+function GeoDataPanel({ files, onChange }: GeoDataPanelProps) {
+  const [fileNames, setFileNames] = useState<Partial<Record<keyof GeoDatabases, string>>>({});
+  const [error, setError] = useState('');
+
+  const handleFile = async (key: keyof GeoDatabases, file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError('');
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      openGeoDatabases({ [key]: bytes }); // Rejects invalid files here rather than on every test
+      onChange({ ...files, [key]: bytes });
+      setFileNames(names => ({ ...names, [key]: file.name }));
+    } catch (e: unknown) {
+      setError(`${file.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const clearFile = (key: keyof GeoDatabases) => {
+    const next = { ...files };
+    delete next[key];
+    onChange(next);
+    setFileNames(names => ({ ...names, [key]: undefined }));
+  };
+
+  return (
+    <details className="geo-data">
+      <summary>GEO data (optional)</summary>
+      <div className="connection-grid">
+        {geoFiles.map(({ key, label, accept }) => (
+          <div key={key} className="connection-field">
+            <label htmlFor={`geo-${key}`}>{label}</label>
+            {files[key] ? (
+              <span className="geo-loaded">
+                {fileNames[key] ?? 'loaded'} <button type="button" onClick={() => clearFile(key)}>Remove</button>
+              </span>
+            ) : (
+              <input id={`geo-${key}`} type="file" accept={accept} onChange={(e) => handleFile(key, e.target.files?.[0])} />
+            )}
+          </div>
+        ))}
+      </div>
+      {error && <div className="error-box">{error}</div>}
+    </details>
+  );
+}
+
+export default GeoDataPanel;
@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { checkConfigText } from '../core/configLinter';
+
+interface LintPanelProps {
+  configYaml: string;
+}
+
+function LintPanel({ configYaml }: LintPanelProps) {
+  const lint = useMemo(() => checkConfigText(configYaml), [configYaml]);
+
+  const problems = [...lint.diagnostics, ...lint.findings];
+  const errorCount = problems.filter(f => f.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  return (
+    <details className="lint-panel" open={problems.length > 0}>
+      <summary>
+        Config Lint: {!lint.config ? 'not parsed' : `${errorCount} errors, ${warningCount} warnings`}
+      </summary>
+      {problems.length === 0 && <p className="lint-clean">No problems found.</p>}
+      <ul className="lint-findings">
+        {lint.diagnostics.map((diagnostic, index) => (
+          <li key={`d${index}`} className={`lint-${diagnostic.severity}`}>
+            <span className="lint-code">line {diagnostic.line}:{diagnostic.column}</span> {diagnostic.message}
+          </li>
+        ))}
+        {lint.findings.map((finding, index) => (
+          <li key={index} className={`lint-${finding.severity}`}>
+            <span className="lint-code">{finding.code}</span> {finding.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+export default LintPanel;
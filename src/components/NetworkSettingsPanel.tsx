@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { configureNetwork } from '../core/network';
+import { DEFAULT_NETWORK_SETTINGS, normalizeSettings, saveSettings } from '../core/settings';
+import type { DnsRecordType, NetworkSettings } from '../core/settings';
+
+const modes: { value: NetworkSettings['mode']; label: string }[] = [
+  { value: 'proxy', label: 'CORS proxy' },
+  { value: 'direct', label: 'Direct' },
+  { value: 'mock', label: 'Mock responses' },
+];
+
+interface NetworkSettingsPanelProps {
+  settings: NetworkSettings; // The settings in effect, e.g. with mock responses from a share link
+  onChange: (settings: NetworkSettings) => void;
+}
+
+// Edits how providers are downloaded and domains resolved; changes apply and persist immediately.
+function NetworkSettingsPanel({ settings, onChange }: NetworkSettingsPanelProps) {
+  const [mockText, setMockText] = useState(() => JSON.stringify(settings.mockResponses, null, 2));
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<NetworkSettings>) => {
+    const next = normalizeSettings({ ...settings, ...changes });
+    onChange(next);
+    saveSettings(localStorage, next);
+    configureNetwork(next);
+  };
+
+  const handleMockText = (text: string) => {
+    setMockText(text);
+    try {
+      const responses = JSON.parse(text) as unknown;
+      if (typeof responses !== 'object' || responses === null || Array.isArray(responses)
+        || Object.values(responses).some(body => typeof body !== 'string')) {
+        throw new Error('expected an object mapping URLs to response bodies');
+      }
+      setError('');
+      update({ mockResponses: responses as Record<string, string> });
+    } catch (e: unknown) {
+      setError(`Mock responses: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const toggleRecordType = (type: DnsRecordType, enabled: boolean) => {
+    const types = enabled ? [...settings.dohRecordTypes, type] : settings.dohRecordTypes.filter(t => t !== type);
+    if (types.length > 0) update({ dohRecordTypes: types });
+  };
+
+  return (
+    <details className="geo-data">
+      <summary>Network settings</summary>
+      <div className="dns-modes">
+        {modes.map(({ value, label }) => (
+          <label key={value} className="checkbox-label">
+            <input type="radio" name="network-mode" checked={settings.mode === value} onChange={() => update({ mode: value })} />
+            {label}
+          </label>
+        ))}
+      </div>
+      {settings.mode === 'proxy' && (
+        <div className="connection-field">
+          <label htmlFor="proxy-template">Proxy URL (<code>{'{url}'}</code> is replaced with the provider URL)</label>
+          <input
+            id="proxy-template"
+            type="text"
+            defaultValue={settings.proxyTemplate}
+            placeholder={DEFAULT_NETWORK_SETTINGS.proxyTemplate}
+            onBlur={(e) => update({ proxyTemplate: e.target.value })}
+          />
+        </div>
+      )}
+      {settings.mode === 'mock' && (
+        <textarea aria-label="Mock responses" rows={5} value={mockText} onChange={(e) => handleMockText(e.target.value)} />
+      )}
+      <div className="connection-grid">
+        <div className="connection-field">
+          <label htmlFor="doh-server">DoH server</label>
+          <input
+            id="doh-server"
+            type="text"
+            defaultValue={settings.dohServer}
+            placeholder={DEFAULT_NETWORK_SETTINGS.dohServer}
+            onBlur={(e) => update({ dohServer: e.target.value })}
+          />
+        </div>
+        <div className="connection-field">
+          <span>Record types</span>
+          <div className="dns-modes">
+            {(['A', 'AAAA'] as const).map(type => (
+              <label key={type} className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={settings.dohRecordTypes.includes(type)}
+                  onChange={(e) => toggleRecordType(type, e.target.checked)}
+                />
+                {type}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="connection-field">
+          <label htmlFor="network-timeout">Timeout (ms, 0 for none)</label>
+          <input
+            id="network-timeout"
+            type="number"
+            min={0}
+            value={settings.timeoutMs}
+            onChange={(e) => update({ timeoutMs: Number(e.target.value) })}
+          />
+        </div>
+        <div className="connection-field">
+          <label htmlFor="network-retries">Retries</label>
+          <input
+            id="network-retries"
+            type="number"
+            min={0}
+            max={5}
+            value={settings.retries}
+            onChange={(e) => update({ retries: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+      {error && <div className="error-box">{error}</div>}
+    </details>
+  );
+}
+
+export default NetworkSettingsPanel;
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { clearCachedProviders, listCachedProviders, refreshProvider } from '../core/network';
+import type { CachedProvider } from '../core/providerStore';
+
+const formatSize = (bytes: number): string =>
+  (bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+
+const formatAge = (fetchedAt: number): string => {
+  const minutes = Math.floor((Date.now() - fetchedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours} h ago` : `${Math.floor(hours / 24)} days ago`;
+};
+
+// Lists the downloaded providers kept for later sessions and offline use.
+function ProviderCachePanel() {
+  const [entries, setEntries] = useState<CachedProvider[]>([]);
+  const [busyUrl, setBusyUrl] = useState('');
+  const [error, setError] = useState('');
+
+  const reload = async () => {
+    setEntries((await listCachedProviders()).sort((a, b) => a.url.localeCompare(b.url)));
+  };
+
+  const run = async (url: string, action: () => Promise<unknown>) => {
+    try {
+      setError('');
+      setBusyUrl(url);
+      await action();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusyUrl('');
+      await reload();
+    }
+  };
+
+  return (
+    <details className="geo-data" onToggle={(e) => e.currentTarget.open && reload()}>
+      <summary>Provider cache ({entries.length})</summary>
+      {entries.length === 0 ? (
+        <p className="dns-note">No providers downloaded yet.</p>
+      ) : (
+        <table className="provider-cache">
+          <thead>
+            <tr><th>URL</th><th>Size</th><th>Fetched</th><th></th></tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.url}>
+                <td title={entry.lastError ? `Refresh failed: ${entry.lastError}` : entry.url}>
+                  {entry.url}{entry.lastError && <span className="provider-stale"> (stale)</span>}
+                </td>
+                <td>{formatSize(entry.bytes.length)}</td>
+                <td>{formatAge(entry.fetchedAt)}</td>
+                <td>
+                  <button type="button" disabled={busyUrl !== ''} onClick={() => run(entry.url, () => refreshProvider(entry.url))}>
+                    {busyUrl === entry.url ? 'Refreshing...' : 'Refresh'}
+                  </button>{' '}
+                  <button type="button" disabled={busyUrl !== ''} onClick={() => run(entry.url, () => clearCachedProviders(entry.url))}>
+                    Clear
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {entries.length > 0 && (
+        <button type="button" disabled={busyUrl !== ''} onClick={() => run('*', () => clearCachedProviders())}>Clear all</button>
+      )}
+      {error && <div className="error-box">{error}</div>}
+    </details>
+  );
+}
+
+export default ProviderCachePanel;
@@ -0,0 +1,71 @@
+import { useMemo, useState } from 'react';
+import { parseConfig } from '../core/configParser';
+import type { RuleProvider } from '../core/configParser';
+import { detectProviderFormat, parseProviderBytes } from '../core/providerFormats';
+
+interface ProviderFilesPanelProps {
+  configYaml: string;
+  // Parsed rules of the loaded files, by provider name.
+  files: Record<string, string[]>;
+  onChange: (files: Record<string, string[]>) => void;
+}
+
+// Lists the `type: file` providers of the config, which the browser can only read once they are picked.
+function ProviderFilesPanel({ configYaml, files, onChange }: ProviderFilesPanelProps) {
+  const [fileNames, setFileNames] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  const fileProviders = useMemo(() => {
+    try {
+      return Object.entries(parseConfig(configYaml)['rule-providers'] ?? {})
+        .filter(([, provider]) => provider?.type === 'file');
+    } catch {
+      return [];
+    }
+  }, [configYaml]);
+
+  if (fileProviders.length === 0) return null;
+
+  const handleFile = async (name: string, provider: RuleProvider, file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError('');
+      const format = provider.format ?? detectProviderFormat(file.name);
+      const rules = parseProviderBytes(new Uint8Array(await file.arrayBuffer()), format, provider.behavior);
+      onChange({ ...files, [name]: rules });
+      setFileNames(names => ({ ...names, [name]: file.name }));
+    } catch (e: unknown) {
+      setError(`${file.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const clearFile = (name: string) => {
+    const next = { ...files };
+    delete next[name];
+    onChange(next);
+  };
+
+  return (
+    <details className="geo-data" open>
+      <summary>Provider files</summary>
+      <div className="connection-grid">
+        {fileProviders.map(([name, provider]) => (
+          <div key={name} className="connection-field">
+            <label htmlFor={`provider-${name}`}>{name}{provider.path ? ` (${provider.path})` : ''}</label>
+            {files[name] ? (
+              <span className="geo-loaded">
+                {fileNames[name] ?? 'loaded'}: {files[name].length} entries{' '}
+                <button type="button" onClick={() => clearFile(name)}>Remove</button>
+              </span>
+            ) : (
+              <input id={`provider-${name}`} type="file" onChange={(e) => handleFile(name, provider, e.target.files?.[0])} />
+            )}
+          </div>
+        ))}
+      </div>
+      {error && <div className="error-box">{error}</div>}
+    </details>
+  );
+}
+
+export default ProviderFilesPanel;
@@ -0,0 +1,178 @@
+import { useMemo, useRef, useState } from 'react';
+import { parseConfig } from '../core/configParser';
+import type { MatchJob, MatchJobResult } from '../core/matchJobs';
+import type { GroupSelections } from '../core/policyResolver';
+import type { ProviderMatches } from '../core/ruleMatcher';
+import { inspectProvider, searchProvider } from '../core/providerInspector';
+import type { ProviderEntry, ProviderSearchMode } from '../core/providerInspector';
+import { isCancelled, runInMatchWorker } from './matchWorkerClient';
+
+interface ProviderInspectorPanelProps {
+  configYaml: string;
+  selections: GroupSelections;
+}
+
+// Long providers are cut off in the lists; the counts stay exact.
+const LIST_LIMIT = 200;
+
+function EntryList({ entries }: { entries: ProviderEntry[] }) {
+  return (
+    <>
+      <ol className="provider-entries">
+        {entries.slice(0, LIST_LIMIT).map(({ index, entry }) => (
+          <li key={index}><small>#{index + 1}</small> <code>{entry}</code></li>
+        ))}
+      </ol>
+      {entries.length > LIST_LIMIT && <p className="dns-note">... and {entries.length - LIST_LIMIT} more.</p>}
+    </>
+  );
+}
+
+// Loads one provider from rule-providers to browse its entries, search them and see every entry matching a domain.
+function ProviderInspectorPanel({ configYaml, selections }: ProviderInspectorPanelProps) {
+  const [name, setName] = useState('');
+  const [loaded, setLoaded] = useState<{ name: string; behavior: string; rules: string[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<ProviderSearchMode>('substring');
+  const [host, setHost] = useState('www.google.com');
+  const [matches, setMatches] = useState<ProviderMatches | null>(null);
+  const [error, setError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+
+  const providerNames = useMemo(() => {
+    try {
+      return Object.keys(parseConfig(configYaml)['rule-providers'] ?? {});
+    } catch {
+      return [];
+    }
+  }, [configYaml]);
+  const selected = providerNames.includes(name) ? name : providerNames[0] ?? '';
+
+  const stats = useMemo(() => (loaded ? inspectProvider(loaded.rules, loaded.behavior) : null), [loaded]);
+
+  const search = useMemo(() => {
+    if (!loaded) return { hits: [] };
+    try {
+      return { hits: searchProvider(loaded.rules, loaded.behavior, query, searchMode) };
+    } catch (e: unknown) {
+      return { hits: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [loaded, query, searchMode]);
+
+  // Loading and matching run in the worker, as large providers take a while to download and compile.
+  const run = async (job: MatchJob, onDone: (outcome: MatchJobResult) => void) => {
+    controller.current = new AbortController();
+    try {
+      setError('');
+      setIsLoading(true);
+      onDone(await runInMatchWorker(job, { signal: controller.current.signal }));
+    } catch (e: unknown) {
+      setError(isCancelled(e) ? 'Cancelled.' : e instanceof Error ? e.message : String(e));
+    } finally {
+      controller.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoad = () => {
+    setLoaded(null);
+    setMatches(null);
+    return run({ kind: 'providerEntries', configYaml, name: selected }, outcome => {
+      if (outcome.kind === 'providerEntries') setLoaded({ name: selected, behavior: outcome.behavior, rules: outcome.rules });
+    });
+  };
+
+  const handleMatch = () => {
+    setMatches(null);
+    return run({ kind: 'providerMatches', configYaml, name: selected, host: host.trim(), selections }, outcome => {
+      if (outcome.kind === 'providerMatches') setMatches(outcome.matches);
+    });
+  };
+
+  return (
+    <div className="provider-inspector">
+      <div className="input-group">
+        <label htmlFor="inspect-provider">Provider</label>
+        <select id="inspect-provider" value={selected} onChange={(e) => setName(e.target.value)}>
+          {providerNames.map(providerName => <option key={providerName} value={providerName}>{providerName}</option>)}
+        </select>
+        <button onClick={handleLoad} disabled={isLoading || !selected}>
+          {isLoading ? 'Loading...' : 'Load Provider'}
+        </button>
+        {isLoading && <button type="button" onClick={() => controller.current?.abort()}>Cancel</button>}
+      </div>
+      {providerNames.length === 0 && <div className="placeholder-box">The config has no rule-providers.</div>}
+      {error && <div className="error-box">{error}</div>}
+
+      {loaded && stats && (
+        <>
+          <h3>{loaded.name} <small>({loaded.behavior}, {stats.entryCount} entries)</small></h3>
+          <table className="provider-cache">
+            <thead>
+              <tr><th>Type</th><th>Entries</th></tr>
+            </thead>
+            <tbody>
+              {Object.entries(stats.countsByType).map(([type, count]) => (
+                <tr key={type}><td>{type}</td><td>{count}</td></tr>
+              ))}
+              {stats.invalid.length > 0 && <tr><td>Invalid or unsupported</td><td>{stats.invalid.length}</td></tr>}
+            </tbody>
+          </table>
+
+          <div className="input-group">
+            <label htmlFor="inspect-query">Search Entries</label>
+            <input
+              id="inspect-query"
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={searchMode === 'cidr' ? 'An IP address, e.g. 91.108.4.1' : 'e.g., google.com'}
+            />
+            <select value={searchMode} onChange={(e) => setSearchMode(e.target.value as ProviderSearchMode)}>
+              <option value="substring">Contains</option>
+              <option value="suffix">Ends with</option>
+              <option value="cidr">CIDR contains IP</option>
+            </select>
+          </div>
+          {search.error && <div className="error-box">{search.error}</div>}
+          {query.trim() && !search.error && (
+            <>
+              <p>{search.hits.length} of {stats.entryCount} entries found.</p>
+              <EntryList entries={search.hits} />
+            </>
+          )}
+
+          <div className="input-group">
+            <label htmlFor="inspect-host">Entries Matching a Domain or IP</label>
+            <input id="inspect-host" type="text" value={host} onChange={(e) => setHost(e.target.value)} />
+            <button onClick={handleMatch} disabled={isLoading || !host.trim()}>Find Matches</button>
+          </div>
+          {matches && (
+            <>
+              <p>
+                {matches.entries.length === 0 ? 'No entry matches' : `${matches.entries.length} entries match`} {host.trim()}
+                {matches.resolvedIps && <> (resolved to {matches.resolvedIps.join(', ')})</>}
+                {matches.entries.length > 0 && <>; a RULE-SET rule reports the first.</>}
+              </p>
+              <EntryList entries={matches.entries} />
+            </>
+          )}
+
+          {stats.invalid.length > 0 && (
+            <details>
+              <summary>Invalid or unsupported entries ({stats.invalid.length}), ignored when matching</summary>
+              <ol className="provider-entries">
+                {stats.invalid.slice(0, LIST_LIMIT).map(({ index, entry, reason }) => (
+                  <li key={index}><small>#{index + 1}</small> <code>{entry}</code> {reason}</li>
+                ))}
+              </ol>
+            </details>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ProviderInspectorPanel;
@@ -0,0 +1,151 @@
+import { useMemo, useRef, useState } from 'react';
+import type { GroupSelections } from '../core/policyResolver';
+import { FAILED, NO_MATCH } from '../core/batch';
+import { detectTrafficFormat, parseTraffic, replayToCsv, TRAFFIC_FORMATS } from '../core/trafficReplay';
+import type { ReplayRow, TrafficFormat, TrafficImport } from '../core/trafficReplay';
+import { downloadText } from './download';
+import { isCancelled, runInMatchWorker } from './matchWorkerClient';
+
+interface ReplayPanelProps {
+  configYaml: string;
+  selections: GroupSelections;
+}
+
+// Replays imported connections through the config and flags where it disagrees with what Clash recorded.
+function ReplayPanel({ configYaml, selections }: ReplayPanelProps) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<TrafficFormat | 'auto'>('auto');
+  const [rows, setRows] = useState<ReplayRow[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [onlyMismatches, setOnlyMismatches] = useState(false);
+  const [error, setError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+
+  const effectiveFormat = format === 'auto' ? detectTrafficFormat(text, fileName) : format;
+  const imported = useMemo((): TrafficImport & { error?: string } => {
+    if (!text.trim()) return { records: [], skipped: 0 };
+    try {
+      return parseTraffic(text, effectiveFormat);
+    } catch (e: unknown) {
+      return { records: [], skipped: 0, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [text, effectiveFormat]);
+  const isRunning = progress !== null;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  const handleReplay = async () => {
+    if (isRunning || imported.records.length === 0) return;
+    controller.current = new AbortController();
+    try {
+      setError('');
+      setRows([]);
+      setProgress({ done: 0, total: imported.records.length });
+      const outcome = await runInMatchWorker({ kind: 'replay', configYaml, records: imported.records, selections }, {
+        signal: controller.current.signal,
+        onProgress: event => event.kind === 'domain' && setProgress({ done: event.done, total: event.total }),
+      });
+      if (outcome.kind === 'replay') setRows(outcome.rows);
+    } catch (e: unknown) {
+      if (isCancelled(e)) {
+        setError('The replay was cancelled.');
+      } else {
+        setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+      }
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  };
+
+  const recordedCount = rows.filter(row => row.record.recordedPolicy !== undefined).length;
+  const mismatchCount = rows.filter(row => row.mismatch).length;
+  const visibleRows = onlyMismatches ? rows.filter(row => row.mismatch) : rows;
+
+  return (
+    <div className="batch-panel">
+      <div className="input-group">
+        <label htmlFor="replay-input">Connections (mihomo connections JSON or log, HAR, hosts file or domain list)</label>
+        <textarea
+          id="replay-input"
+          rows={8}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'[TCP] 127.0.0.1:52000(chrome) --> www.google.com:443 match RuleSet(gfw) using PROXY[HK-01]'}
+        />
+        <input type="file" accept=".json,.har,.log,.txt,.list,hosts" onChange={(e) => handleFile(e.target.files?.[0])} />
+        <select aria-label="Import format" value={format} onChange={(e) => setFormat(e.target.value as TrafficFormat | 'auto')}>
+          <option value="auto">Detect format ({TRAFFIC_FORMATS.find(f => f.value === effectiveFormat)?.label})</option>
+          {TRAFFIC_FORMATS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        {text.trim() && !imported.error && (
+          <p className="dns-note">
+            {imported.records.length} distinct connections found{imported.skipped > 0 && `, ${imported.skipped} entries skipped`}.
+          </p>
+        )}
+        <button onClick={handleReplay} disabled={isRunning || imported.records.length === 0}>
+          {isRunning ? `Replaying ${progress!.done} / ${progress!.total}...` : `Replay ${imported.records.length} Connections`}
+        </button>
+        {isRunning && <button type="button" onClick={() => controller.current?.abort()}>Cancel</button>}
+      </div>
+      {imported.error && <div className="error-box">{imported.error}</div>}
+      {error && <div className="error-box">{error}</div>}
+      {rows.length > 0 && (
+        <div className="batch-results">
+          <p>
+            {recordedCount > 0
+              ? <><strong>{mismatchCount}</strong> of {recordedCount} connections with a recorded decision disagree with the tester.</>
+              : 'The import records no decisions to compare; showing the tester\'s results.'}
+          </p>
+          <div className="batch-toolbar">
+            <label className="checkbox-label">
+              <input type="checkbox" checked={onlyMismatches} onChange={(e) => setOnlyMismatches(e.target.checked)} />
+              Only mismatches
+            </label>
+            <button type="button" onClick={() => downloadText('replay.csv', replayToCsv(visibleRows), 'text/csv')}>Export CSV</button>
+          </div>
+          <div className="table-wrapper">
+            <table className="result-table">
+              <thead>
+                <tr>
+                  <th>Destination</th>
+                  <th>Process</th>
+                  <th>Count</th>
+                  <th>Recorded</th>
+                  <th>Tester</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row, index) => {
+                  const { metadata } = row.record;
+                  return (
+                    <tr key={index} className={row.mismatch ? `replay-mismatch-${row.mismatch}` : undefined}>
+                      <td>{metadata.host}{metadata.dstPort !== undefined && `:${metadata.dstPort}`}</td>
+                      <td>{metadata.processName ?? ''}</td>
+                      <td>{row.record.count}</td>
+                      <td>
+                        {row.record.recordedPolicy ?? '—'}
+                        {row.record.recordedRule && <> <code>{row.record.recordedRule}</code></>}
+                      </td>
+                      <td>
+                        {row.error ? FAILED : row.result?.finalPolicy ?? NO_MATCH}
+                        {' '}<code>{row.error ?? row.result?.matchingRule ?? ''}</code>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReplayPanel;
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { encodeSharedState, SHARE_URL_WARNING_LENGTH, stripProxyCredentials } from '../core/permalink';
+import type { SharedState } from '../core/permalink';
+
+interface SharePanelProps {
+  state: SharedState; // What the link restores: the config and the current test case
+}
+
+// Builds a link that reopens the tester with the same config and test case.
+function SharePanel({ state }: SharePanelProps) {
+  const [stripCredentials, setStripCredentials] = useState(true);
+  const [link, setLink] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const handleShare = async () => {
+    try {
+      setError('');
+      setLink('');
+      setNote('');
+      const stripped = stripCredentials ? stripProxyCredentials(state.config) : { yaml: state.config, redacted: 0 };
+      const url = `${location.origin}${location.pathname}${location.search}${await encodeSharedState({ ...state, config: stripped.yaml })}`;
+      setLink(url);
+      const notes = [stripped.redacted > 0 ? `${stripped.redacted} proxy credentials were replaced with "redacted".` : ''];
+      try {
+        await navigator.clipboard.writeText(url);
+        notes.push('Copied to the clipboard.');
+      } catch {
+        notes.push('Copy the link below.');
+      }
+      setNote(notes.filter(Boolean).join(' '));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <details className="geo-data">
+      <summary>Share</summary>
+      <p className="dns-note">
+        The config and test case are compressed into the link after <code>#</code>, which browsers never send to a server.
+      </p>
+      <label className="checkbox-label">
+        <input type="checkbox" checked={stripCredentials} onChange={(e) => setStripCredentials(e.target.checked)} />
+        Strip proxy servers and credentials
+      </label>
+      <button type="button" onClick={handleShare}>Create Share Link</button>
+      {note && <p className="dns-note">{note}</p>}
+      {link && <input type="text" readOnly aria-label="Share link" value={link} onFocus={(e) => e.target.select()} />}
+      {link.length > SHARE_URL_WARNING_LENGTH && (
+        <div className="error-box">
+          The link is {link.length} characters long; some chat apps and browsers cut off links over {SHARE_URL_WARNING_LENGTH}.
+          Consider moving large inline providers out of the config.
+        </div>
+      )}
+      {error && <div className="error-box">{error}</div>}
+    </details>
+  );
+}
+
+export default SharePanel;
@@ -0,0 +1,75 @@
+import type { Monaco, OnMount } from '@monaco-editor/react';
+import { getCompletionContext, getCompletions, getConfigMarkers, getRuleSetHover, locateRules } from '../core/configLanguage';
+import type { CompletionKind, EntryCounter } from '../core/configLanguage';
+
+// Monaco types, through the React wrapper that loads Monaco.
+export type CodeEditor = Parameters<OnMount>[0];
+type TextModel = NonNullable<ReturnType<CodeEditor['getModel']>>;
+type Disposable = ReturnType<CodeEditor['onMouseDown']>;
+type Decoration = Parameters<CodeEditor['createDecorationsCollection']>[0] extends (infer D)[] | undefined ? D : never;
+
+/**
+ * Registers Clash completion and hover on Monaco's yaml language. The providers read the
+ * model text on every request, so they follow the editor without re-registering.
+ */
+export const registerClashLanguage = (monaco: Monaco, countEntries: EntryCounter): Disposable[] => {
+  const kinds: Record<CompletionKind, number> = {
+    'rule-type': monaco.languages.CompletionItemKind.Keyword,
+    'provider': monaco.languages.CompletionItemKind.Module,
+    'policy': monaco.languages.CompletionItemKind.Reference,
+    'option': monaco.languages.CompletionItemKind.Property,
+  };
+
+  return [
+    monaco.languages.registerCompletionItemProvider('yaml', {
+      triggerCharacters: [',', '(', ' '],
+      provideCompletionItems: (model, position) => {
+        const text = model.getValue();
+        const context = getCompletionContext(text, position.lineNumber, position.column);
+        if (!context) return { suggestions: [] };
+        const range = new monaco.Range(position.lineNumber, position.column - context.prefix.length, position.lineNumber, position.column);
+        return {
+          suggestions: getCompletions(text, position.lineNumber, position.column).map(item => ({
+            label: item.label,
+            kind: kinds[item.kind],
+            detail: item.detail,
+            insertText: item.label,
+            range,
+          })),
+        };
+      },
+    }),
+    monaco.languages.registerHoverProvider('yaml', {
+      provideHover: (model, position) => {
+        const contents = getRuleSetHover(model.getValue(), position.lineNumber, countEntries);
+        return contents && { contents: contents.map(value => ({ value })) };
+      },
+    }),
+  ];
+};
+
+// Inline markers for parser diagnostics and lint findings.
+export const updateClashMarkers = (monaco: Monaco, model: TextModel) => {
+  const markers = getConfigMarkers(model.getValue()).map(marker => ({
+    severity: marker.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+    message: marker.message,
+    code: marker.code,
+    source: 'clash',
+    startLineNumber: marker.line,
+    startColumn: marker.column,
+    endLineNumber: marker.endLine,
+    endColumn: marker.endColumn,
+  }));
+  monaco.editor.setModelMarkers(model, 'clash', markers);
+};
+
+// A "test this rule" glyph in the gutter of every rule.
+export const ruleTestDecorations = (configYaml: string): Decoration[] =>
+  locateRules(configYaml).map(location => ({
+    range: { startLineNumber: location.line, startColumn: 1, endLineNumber: location.line, endColumn: 1 },
+    options: { glyphMarginClassName: 'rule-test-glyph', glyphMarginHoverMessage: { value: `Test rule #${location.index + 1}` } },
+  }));
+
+// The rule whose gutter glyph is on a line.
+export const ruleIndexAtLine = (configYaml: string, line: number): number | undefined =>
+  locateRules(configYaml).find(location => location.line === line)?.index;
@@ -0,0 +1,11 @@
+/**
+ * Saves text as a file through a temporary object URL.
+ */
+export const downloadText = (fileName: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
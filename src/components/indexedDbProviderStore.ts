@@ -0,0 +1,34 @@
+import type { CachedProvider, ProviderStore } from '../core/providerStore';
+
+const STORE_NAME = 'providers';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * A store in the browser's IndexedDB, keyed by provider URL.
+ */
+export const createIndexedDbProviderStore = (databaseName: string = 'clash-rule-tester'): ProviderStore => {
+  let database: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'url' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    get: async url => promisify((await objectStore('readonly')).get(url) as IDBRequest<CachedProvider | undefined>),
+    put: async entry => { await promisify((await objectStore('readwrite')).put(entry)); },
+    list: async () => promisify((await objectStore('readonly')).getAll() as IDBRequest<CachedProvider[]>),
+    delete: async url => { await promisify((await objectStore('readwrite')).delete(url)); },
+    clear: async () => { await promisify((await objectStore('readwrite')).clear()); },
+  };
+};
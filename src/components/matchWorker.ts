@@ -0,0 +1,86 @@
+import { configureNetwork, setProviderStore } from '../core/network';
+import { DEFAULT_RESOLVER_SETTINGS } from '../core/dns';
+import { openGeoDatabases } from '../core/geoData';
+import { createEnvironmentOptions, runMatchJob } from '../core/matchJobs';
+import type { MatchEnvironment, MatchWorkerRequest, MatchWorkerResponse } from '../core/matchJobs';
+import { DEFAULT_NETWORK_SETTINGS } from '../core/settings';
+import type { MatchOptions, MatchProgress } from '../core/ruleMatcher';
+import { createIndexedDbProviderStore } from './indexedDbProviderStore';
+
+// Runs matching jobs off the main thread, so large providers and batches don't freeze the page.
+
+// The parts of the worker scope used here; the app is type-checked against the DOM library.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<MatchWorkerRequest>) => void) | null;
+  postMessage: (message: MatchWorkerResponse) => void;
+};
+
+// Progress is posted at most this often per run; the latest event wins.
+const PROGRESS_INTERVAL_MS = 100;
+
+if ('indexedDB' in self) {
+  setProviderStore(createIndexedDbProviderStore());
+}
+
+let environment: MatchEnvironment = { network: DEFAULT_NETWORK_SETTINGS, dns: DEFAULT_RESOLVER_SETTINGS, geoFiles: {}, providerFiles: {} };
+// Opened once per set of files, not on every settings change.
+let geo = openGeoDatabases(environment.geoFiles);
+let options: MatchOptions = {};
+const runs = new Map<number, AbortController>();
+
+// Provider events are always posted, as the app keeps their entry counts; rule and domain events are throttled.
+const createProgressReporter = (id: number) => {
+  let lastPostedAt = 0;
+  let pending: MatchProgress | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const post = (progress: MatchProgress) => {
+    lastPostedAt = Date.now();
+    scope.postMessage({ type: 'progress', id, progress });
+  };
+  const flush = () => {
+    timer = undefined;
+    if (pending && runs.has(id)) post(pending);
+    pending = undefined;
+  };
+  return {
+    report: (progress: MatchProgress) => {
+      if (progress.kind === 'provider') {
+        post(progress);
+      } else if (Date.now() - lastPostedAt >= PROGRESS_INTERVAL_MS) {
+        pending = undefined;
+        post(progress);
+      } else {
+        pending = progress;
+        timer ??= setTimeout(flush, PROGRESS_INTERVAL_MS);
+      }
+    },
+    stop: () => clearTimeout(timer),
+  };
+};
+
+scope.onmessage = async ({ data: request }) => {
+  if (request.type === 'configure') {
+    const changes = request.environment;
+    environment = { ...environment, ...changes };
+    if (changes.network) configureNetwork(changes.network);
+    if (changes.geoFiles) geo = openGeoDatabases(changes.geoFiles);
+    options = createEnvironmentOptions(environment, geo);
+  } else if (request.type === 'cancel') {
+    runs.get(request.id)?.abort();
+  } else {
+    const { id, job } = request;
+    const controller = new AbortController();
+    const progress = createProgressReporter(id);
+    runs.set(id, controller);
+    try {
+      const result = await runMatchJob(job, { ...options, signal: controller.signal, onProgress: progress.report });
+      scope.postMessage({ type: 'done', id, result });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      scope.postMessage({ type: 'error', id, message, cancelled: controller.signal.aborted });
+    } finally {
+      progress.stop();
+      runs.delete(id);
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import type { MatchEnvironment, MatchJob, MatchJobResult, MatchWorkerRequest, MatchWorkerResponse } from '../core/matchJobs';
+import type { MatchProgress } from '../core/ruleMatcher';
+
+interface PendingRun {
+  resolve: (result: MatchJobResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: MatchProgress) => void;
+}
+
+let worker: Worker | undefined;
+let environment: MatchEnvironment | undefined; // Sent again to a worker started after one failed
+let sentEnvironment: MatchEnvironment | undefined; // What the running worker has
+let nextId = 1;
+const pendingRuns = new Map<number, PendingRun>();
+
+// A worker that fails to load, or crashes, takes its runs with it; the next request starts a new one.
+const failWorker = (message: string) => {
+  worker?.terminate();
+  worker = undefined;
+  const runs = [...pendingRuns.values()];
+  pendingRuns.clear();
+  for (const run of runs) run.reject(new Error(message));
+};
+
+// The worker is started by the first request, and shared by every panel that matches through it.
+const getWorker = (): Worker => {
+  if (!worker) {
+    sentEnvironment = undefined;
+    worker = new Worker(new URL('./matchWorker.ts', import.meta.url), { type: 'module' });
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      failWorker(`The matching worker failed${event.message ? `: ${event.message}` : ' to load'}.`);
+    };
+    worker.onmessageerror = () => failWorker('The matching worker sent a message that could not be read.');
+    worker.onmessage = ({ data: response }: MessageEvent<MatchWorkerResponse>) => {
+      const run = pendingRuns.get(response.id);
+      if (!run) return;
+      if (response.type === 'progress') {
+        run.onProgress?.(response.progress);
+        return;
+      }
+      pendingRuns.delete(response.id);
+      if (response.type === 'done') {
+        run.resolve(response.result);
+      } else {
+        const error = new Error(response.message);
+        if (response.cancelled) error.name = 'AbortError';
+        run.reject(error);
+      }
+    };
+    sendEnvironment(worker);
+  }
+  return worker;
+};
+
+// GEO and provider files can be megabytes, so they are only posted when they change.
+const sendEnvironment = (target: Worker) => {
+  if (!environment) return;
+  const changes: Partial<MatchEnvironment> = { network: environment.network, dns: environment.dns };
+  if (environment.geoFiles !== sentEnvironment?.geoFiles) changes.geoFiles = environment.geoFiles;
+  if (environment.providerFiles !== sentEnvironment?.providerFiles) changes.providerFiles = environment.providerFiles;
+  target.postMessage({ type: 'configure', environment: changes } satisfies MatchWorkerRequest);
+  sentEnvironment = environment;
+};
+
+const post = (request: MatchWorkerRequest) => getWorker().postMessage(request);
+
+/**
+ * Sets the network, DNS, GEO and provider file settings used by later runs.
+ */
+export const configureMatchWorker = (settings: MatchEnvironment) => {
+  environment = settings;
+  if (worker) sendEnvironment(worker);
+};
+
+/**
+ * Runs a job in the worker.
+ * @throws An `AbortError` if the signal aborts it, or the job's error.
+ */
+export const runInMatchWorker = (
+  job: MatchJob,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: MatchProgress) => void } = {},
+): Promise<MatchJobResult> => new Promise((resolve, reject) => {
+  signal?.throwIfAborted();
+  const id = nextId++;
+  pendingRuns.set(id, { resolve, reject, onProgress });
+  signal?.addEventListener('abort', () => post({ type: 'cancel', id }), { once: true });
+  post({ type: 'run', id, job });
+});
+
+/**
+ * Tells whether an error is the cancellation of a run.
+ */
+export const isCancelled = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
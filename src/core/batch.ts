@@ -0,0 +1,161 @@
+import type { ClashConfig } from './configParser';
+import { matchDomain } from './ruleMatcher';
+import type { MatchOptions, MatchResult } from './ruleMatcher';
+
+export interface BatchRow {
+  domain: string;
+  result: MatchResult | null;
+  error?: string;
+}
+
+// The columns shown in the batch table and written to exports.
+export interface BatchRecord {
+  domain: string;
+  resolvedIp: string;
+  matchingRule: string;
+  providerRule: string;
+  policy: string;
+}
+
+export interface PolicyCount {
+  policy: string;
+  count: number;
+}
+
+export const BATCH_COLUMNS: { key: keyof BatchRecord; label: string }[] = [
+  { key: 'domain', label: 'Domain' },
+  { key: 'resolvedIp', label: 'Resolved IPs' },
+  { key: 'matchingRule', label: 'Matching Rule' },
+  { key: 'providerRule', label: 'Provider Rule' },
+  { key: 'policy', label: 'Policy' },
+];
+
+// Policy shown for domains no rule matched or that failed to evaluate.
+export const NO_MATCH = '(no match)';
+export const FAILED = '(error)';
+
+/**
+ * Parses a newline-separated domain list, ignoring blank lines, `#` comments and duplicates.
+ */
+export const parseDomainList = (text: string): string[] => {
+  const domains = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line);
+  return [...new Set(domains)];
+};
+
+/**
+ * Matches every domain in turn. Providers are fetched by the first domain that needs them
+ * and served from the provider cache afterwards. A failure only affects its own row;
+ * cancelling through `options.signal` stops the whole batch.
+ * @param onProgress Called after each domain with the number of domains done so far.
+ */
+export const matchDomains = async (
+  config: ClashConfig,
+  domains: string[],
+  options: MatchOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchRow[]> => {
+  const rows: BatchRow[] = [];
+  for (const domain of domains) {
+    options.signal?.throwIfAborted();
+    try {
+      rows.push({ domain, result: await matchDomain(config, domain, options) });
+    } catch (e: unknown) {
+      if (options.signal?.aborted) throw e;
+      rows.push({ domain, result: null, error: e instanceof Error ? e.message : String(e) });
+    }
+    onProgress?.(rows.length, domains.length);
+  }
+  return rows;
+};
+
+export const toBatchRecord = (row: BatchRow): BatchRecord => ({
+  domain: row.domain,
+  resolvedIp: row.result?.resolvedIps?.join(' ') ?? '',
+  matchingRule: row.result?.matchingRule ?? row.error ?? '',
+  providerRule: row.result?.subMatchingRule ?? '',
+  policy: row.error ? FAILED : row.result?.finalPolicy ?? NO_MATCH,
+});
+
+export const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (records: BatchRecord[]): string => {
+  const header = BATCH_COLUMNS.map(c => c.label).join(',');
+  const lines = records.map(record => BATCH_COLUMNS.map(c => escapeCsvField(record[c.key])).join(','));
+  return [header, ...lines].join('\n') + '\n';
+};
+
+export const toJson = (records: BatchRecord[]): string => JSON.stringify(records, null, 2);
+
+/**
+ * Counts domains per policy, most common first.
+ */
+export const summarizeByPolicy = (records: BatchRecord[]): PolicyCount[] => {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    counts.set(record.policy, (counts.get(record.policy) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([policy, count]) => ({ policy, count }))
+    .sort((a, b) => b.count - a.count || a.policy.localeCompare(b.policy));
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('parseDomainList', () => {
+    it('should ignore blank lines, comments and duplicates', () => {
+      expect(parseDomainList('www.google.com\r\n\n# comment\nexample.com # trailing\nwww.google.com\n'))
+        .toEqual(['www.google.com', 'example.com']);
+    });
+  });
+
+  describe('matchDomains', () => {
+    const config: ClashConfig = { rules: ['DOMAIN,www.google.com,PROXY', 'MATCH,DIRECT'] };
+
+    it('should match every domain and report progress', async () => {
+      const progress: number[] = [];
+      const rows = await matchDomains(config, ['www.google.com', 'example.com'], {}, done => progress.push(done));
+      expect(rows.map(r => r.result?.finalPolicy)).toEqual(['PROXY', 'DIRECT']);
+      expect(progress).toEqual([1, 2]);
+    });
+
+    it('should record errors without stopping the batch', async () => {
+      const broken: ClashConfig = {
+        rules: ['DOMAIN,www.google.com,PROXY', 'AND,((DOMAIN,a.com)(DOMAIN,b.com)),REJECT', 'MATCH,DIRECT'],
+      };
+      const rows = await matchDomains(broken, ['www.google.com', 'example.com', 'example.org']);
+      expect(rows.map(r => toBatchRecord(r).policy)).toEqual(['PROXY', FAILED, FAILED]);
+      expect(rows[1].error).toMatch(/Invalid logical rule/);
+    });
+
+    it('should stop when cancelled', async () => {
+      const controller = new AbortController();
+      const rows = matchDomains(config, ['www.google.com', 'example.com'], { signal: controller.signal }, () => controller.abort());
+      await expect(rows).rejects.toThrow(/abort/i);
+    });
+  });
+
+  describe('exports', () => {
+    const records: BatchRecord[] = [
+      { domain: 'a.com', resolvedIp: '', matchingRule: 'DOMAIN,a.com,PROXY', providerRule: '', policy: 'PROXY' },
+      { domain: 'b.com', resolvedIp: '1.2.3.4', matchingRule: 'RULE-SET,x,DIRECT', providerRule: 'say "hi"', policy: 'DIRECT' },
+      { domain: 'c.com', resolvedIp: '', matchingRule: 'DOMAIN,c.com,PROXY', providerRule: '', policy: 'PROXY' },
+    ];
+
+    it('should quote CSV fields that need it', () => {
+      expect(toCsv(records).split('\n')[2]).toBe('b.com,1.2.3.4,"RULE-SET,x,DIRECT","say ""hi""",DIRECT');
+    });
+
+    it('should export JSON records', () => {
+      expect(JSON.parse(toJson(records))).toEqual(records);
+    });
+
+    it('should count domains per policy', () => {
+      expect(summarizeByPolicy(records)).toEqual([{ policy: 'PROXY', count: 2 }, { policy: 'DIRECT', count: 1 }]);
+    });
+  });
+}
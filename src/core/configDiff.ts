@@ -0,0 +1,135 @@
+import type { ClashConfig } from './configParser';
+import type { MatchOptions } from './ruleMatcher';
+import { FAILED, NO_MATCH, escapeCsvField, matchDomains } from './batch';
+import { createCachingResolver, dohResolver } from './dns';
+import type { BatchRow } from './batch';
+
+export interface RoutingChange {
+  domain: string;
+  oldPolicy: string;
+  newPolicy: string;
+  oldRule: string;
+  newRule: string;
+}
+
+// All changes sharing the same old → new policy transition.
+export interface PolicyTransition {
+  from: string;
+  to: string;
+  changes: RoutingChange[];
+}
+
+export interface ConfigDiff {
+  total: number;
+  changes: RoutingChange[];
+  transitions: PolicyTransition[]; // Largest first
+}
+
+const policyOf = (row: BatchRow): string => (row.error ? FAILED : row.result?.finalPolicy ?? NO_MATCH);
+const ruleOf = (row: BatchRow): string => row.error ?? row.result?.matchingRule ?? '';
+
+/**
+ * Routes every domain through both configs and reports those whose policy or matching rule differs.
+ * The configs run one after the other, so providers with the same URL are fetched once and
+ * served from the provider cache for the second config. Each domain is resolved once and both configs
+ * see the same IPs, so a resolver rotating its answers can't show up as a routing change.
+ * @param onProgress Called after each domain of each config with the overall progress.
+ */
+export const diffConfigs = async (
+  oldConfig: ClashConfig,
+  newConfig: ClashConfig,
+  domains: string[],
+  options: MatchOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<ConfigDiff> => {
+  const total = domains.length * 2;
+  const shared: MatchOptions = { ...options, resolver: createCachingResolver(options.resolver ?? dohResolver) };
+  const oldRows = await matchDomains(oldConfig, domains, shared, done => onProgress?.(done, total));
+  const newRows = await matchDomains(newConfig, domains, shared, done => onProgress?.(domains.length + done, total));
+
+  const changes: RoutingChange[] = [];
+  domains.forEach((domain, i) => {
+    const change: RoutingChange = {
+      domain,
+      oldPolicy: policyOf(oldRows[i]),
+      newPolicy: policyOf(newRows[i]),
+      oldRule: ruleOf(oldRows[i]),
+      newRule: ruleOf(newRows[i]),
+    };
+    if (change.oldPolicy !== change.newPolicy || change.oldRule !== change.newRule) {
+      changes.push(change);
+    }
+  });
+
+  const byTransition = new Map<string, PolicyTransition>();
+  for (const change of changes) {
+    const key = `${change.oldPolicy}\u0000${change.newPolicy}`;
+    if (!byTransition.has(key)) {
+      byTransition.set(key, { from: change.oldPolicy, to: change.newPolicy, changes: [] });
+    }
+    byTransition.get(key)!.changes.push(change);
+  }
+  const transitions = [...byTransition.values()].sort((a, b) => b.changes.length - a.changes.length);
+
+  return { total: domains.length, changes, transitions };
+};
+
+const DIFF_COLUMNS: { key: keyof RoutingChange; label: string }[] = [
+  { key: 'domain', label: 'Domain' },
+  { key: 'oldPolicy', label: 'Old Policy' },
+  { key: 'newPolicy', label: 'New Policy' },
+  { key: 'oldRule', label: 'Old Rule' },
+  { key: 'newRule', label: 'New Rule' },
+];
+
+export const diffToCsv = (diff: ConfigDiff): string => {
+  const header = DIFF_COLUMNS.map(c => c.label).join(',');
+  const lines = diff.changes.map(change => DIFF_COLUMNS.map(c => escapeCsvField(change[c.key])).join(','));
+  return [header, ...lines].join('\n') + '\n';
+};
+
+export const diffToJson = (diff: ConfigDiff): string => JSON.stringify(diff.transitions, null, 2);
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('diffConfigs', () => {
+    const oldConfig: ClashConfig = {
+      rules: ['DOMAIN,a.com,PROXY', 'DOMAIN,b.com,PROXY', 'DOMAIN,c.com,DIRECT', 'MATCH,DIRECT'],
+    };
+    const newConfig: ClashConfig = {
+      rules: ['DOMAIN,a.com,DIRECT', 'DOMAIN,b.com,DIRECT', 'DOMAIN,d.com,DIRECT', 'MATCH,DIRECT'],
+    };
+
+    it('should report policy and rule changes grouped by transition', async () => {
+      const diff = await diffConfigs(oldConfig, newConfig, ['a.com', 'b.com', 'c.com', 'd.com', 'e.com']);
+      expect(diff.total).toBe(5);
+      expect(diff.changes.map(c => c.domain)).toEqual(['a.com', 'b.com', 'c.com', 'd.com']);
+      expect(diff.transitions.map(t => [t.from, t.to, t.changes.length])).toEqual([
+        ['PROXY', 'DIRECT', 2],
+        ['DIRECT', 'DIRECT', 2],
+      ]);
+    });
+
+    it('should report overall progress across both configs', async () => {
+      const progress: number[] = [];
+      await diffConfigs(oldConfig, newConfig, ['a.com', 'b.com'], {}, done => progress.push(done));
+      expect(progress).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should resolve each domain once for both configs', async () => {
+      let calls = 0;
+      const resolver = { resolve: async () => [`10.0.0.${++calls}`] };
+      const config: ClashConfig = { rules: ['IP-CIDR,10.0.0.1/32,PROXY', 'MATCH,DIRECT'] };
+      const diff = await diffConfigs(config, config, ['a.com'], { resolver });
+      expect(calls).toBe(1);
+      expect(diff.changes).toEqual([]);
+    });
+
+    it('should export the changes', async () => {
+      const diff = await diffConfigs(oldConfig, newConfig, ['a.com']);
+      expect(diffToCsv(diff).split('\n')[1]).toBe('a.com,PROXY,DIRECT,"DOMAIN,a.com,PROXY","DOMAIN,a.com,DIRECT"');
+      expect(JSON.parse(diffToJson(diff))[0].changes).toHaveLength(1);
+    });
+  });
+}
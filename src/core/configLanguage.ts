@@ -0,0 +1,299 @@
+import { LineCounter, isScalar, isSeq, parseDocument } from 'yaml';
+import type { ClashConfig, RuleProvider } from './configParser';
+import { checkConfigText } from './configLinter';
+import { BUILTIN_POLICIES } from './policyResolver';
+import { KNOWN_RULE_TYPES, isLogicalRuleType } from './ruleParser';
+
+// Editor features for Clash configs, independent of the editor: positions are 1-based lines and
+// columns, like Monaco's, and everything is derived from the same parser and linter as the matcher.
+
+export interface TextRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number; // Exclusive
+}
+
+export interface RuleLocation extends TextRange {
+  index: number; // Position in `rules`
+  rule: string;
+}
+
+export interface EditorMarker extends TextRange {
+  severity: 'error' | 'warning';
+  message: string;
+  code?: string; // The lint code, for lint findings
+}
+
+export type CompletionKind = 'rule-type' | 'provider' | 'policy' | 'option';
+
+export interface CompletionContext {
+  kind: CompletionKind;
+  ruleType: string; // The type of the rule or condition being typed, empty while typing it
+  prefix: string; // The text typed so far for the completed field
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  detail?: string;
+}
+
+// Counts a provider's entries when they are already loaded; undefined when they are not.
+export type EntryCounter = (name: string, provider: RuleProvider) => number | undefined;
+
+const RULE_OPTIONS = ['no-resolve', 'src'];
+
+// The sections whose items are rules.
+const RULE_SECTIONS = ['rules', 'sub-rules'];
+
+/**
+ * Finds each rule string of the `rules` list in the source.
+ */
+export const locateRules = (configYaml: string): RuleLocation[] => {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(configYaml, { lineCounter });
+  const rules = doc.get('rules', true);
+  if (!isSeq(rules)) return [];
+
+  const locations: RuleLocation[] = [];
+  rules.items.forEach((item, index) => {
+    if (!isScalar(item) || !item.range) return;
+    const start = lineCounter.linePos(item.range[0]);
+    const end = lineCounter.linePos(item.range[1]);
+    locations.push({ index, rule: String(item.value), line: start.line, column: start.col, endLine: end.line, endColumn: end.col });
+  });
+  return locations;
+};
+
+const pick = ({ line, column, endLine, endColumn }: TextRange): TextRange => ({ line, column, endLine, endColumn });
+
+/**
+ * Lists the problems to mark inline: parser diagnostics, and lint findings about rules.
+ */
+export const getConfigMarkers = (configYaml: string): EditorMarker[] => {
+  const lines = configYaml.split('\n');
+  const { diagnostics, findings } = checkConfigText(configYaml);
+  const rules = new Map(locateRules(configYaml).map(location => [location.index, location]));
+  const toEndOfLine = (line: number, column: number): TextRange =>
+    ({ line, column, endLine: line, endColumn: Math.max(column + 1, (lines[line - 1] ?? '').length + 1) });
+
+  const markers: EditorMarker[] = diagnostics.map(({ severity, message, line, column, path }) => {
+    const rule = path[0] === 'rules' && path.length === 2 ? rules.get(path[1] as number) : undefined;
+    return { severity, message, ...(rule ? pick(rule) : toEndOfLine(line, column)) };
+  });
+  for (const finding of findings) {
+    const rule = finding.ruleIndex !== undefined ? rules.get(finding.ruleIndex) : undefined;
+    if (rule) markers.push({ severity: finding.severity, message: finding.message, code: finding.code, ...pick(rule) });
+  }
+  return markers;
+};
+
+// The top-level key a line belongs to, e.g. `rules` for the items of the rules list.
+const findSection = (lines: string[], lineIndex: number): string | null => {
+  for (let i = lineIndex; i >= 0; i--) {
+    const key = /^([^\s#-][^:]*):/.exec(lines[i]);
+    if (key) return key[1].trim();
+  }
+  return null;
+};
+
+// The rule text of a `- ...` item line, without the dash and quotes.
+const readRuleItem = (lineText: string): string | null => {
+  const item = /^\s*-\s*['"]?(.*)$/.exec(lineText);
+  return item ? item[1].replace(/['"]\s*$/, '') : null;
+};
+
+/**
+ * Works out what is being typed at a position in `rules` or a `sub-rules` list: a rule type, a provider name
+ * after `RULE-SET,`, a policy, or an option such as `no-resolve`. Logical conditions count as rules without a policy,
+ * and the policy of a SUB-RULE is the name of a sub-rules list.
+ */
+export const getCompletionContext = (configYaml: string, line: number, column: number): CompletionContext | null => {
+  const lines = configYaml.split('\n');
+  const lineText = lines[line - 1] ?? '';
+  const item = readRuleItem(lineText.substring(0, column - 1));
+  if (item === null || !RULE_SECTIONS.includes(findSection(lines, line - 1) ?? '')) return null;
+
+  // Each open parenthesis starts the fields of a condition.
+  const frames: string[][] = [['']];
+  for (const char of item) {
+    const fields = frames[frames.length - 1];
+    if (char === '(') frames.push(['']);
+    else if (char === ')' && frames.length > 1) frames.pop();
+    else if (char === ')') fields.push('');
+    else if (char === ',') fields.push('');
+    else fields[fields.length - 1] += char;
+  }
+  const fields = frames[frames.length - 1];
+  const isCondition = frames.length > 1;
+  const field = fields.length - 1;
+  const ruleType = field === 0 ? '' : fields[0].trim().toUpperCase();
+  const prefix = fields[field].trimStart();
+
+  if (field === 0) return { kind: 'rule-type', ruleType, prefix };
+  const policyField = ruleType === 'MATCH' || ruleType === 'FINAL' ? 1 : 2;
+  if (field === 1 && ruleType === 'RULE-SET') return { kind: 'provider', ruleType, prefix };
+  if (field === policyField && !isCondition) return { kind: 'policy', ruleType, prefix };
+  if (field >= policyField && !isLogicalRuleType(ruleType)) return { kind: 'option', ruleType, prefix };
+  return null;
+};
+
+/**
+ * Suggests completions at a position, using the names defined in the config.
+ */
+export const getCompletions = (configYaml: string, line: number, column: number): CompletionItem[] => {
+  const context = getCompletionContext(configYaml, line, column);
+  if (!context) return [];
+  const { config } = checkConfigText(configYaml);
+
+  let items: CompletionItem[];
+  switch (context.kind) {
+    case 'rule-type':
+      items = KNOWN_RULE_TYPES.map(type => ({ label: type, kind: 'rule-type' }));
+      break;
+    case 'provider':
+      items = Object.entries(config?.['rule-providers'] ?? {})
+        .map(([name, provider]) => ({ label: name, kind: 'provider', detail: `${provider?.behavior ?? ''} ${provider?.type ?? ''}`.trim() }));
+      break;
+    case 'policy':
+      if (context.ruleType === 'SUB-RULE') {
+        items = Object.entries(config?.['sub-rules'] ?? {})
+          .map(([name, list]) => ({ label: name, kind: 'policy', detail: `sub-rules (${list?.length ?? 0} rules)` }));
+        break;
+      }
+      items = [
+        ...(config?.['proxy-groups'] ?? []).map(group => ({ label: group.name, kind: 'policy' as const, detail: `proxy-group (${group.type})` })),
+        ...(config?.proxies ?? []).map(proxy => ({ label: proxy.name, kind: 'policy' as const, detail: `proxy (${proxy.type})` })),
+        ...BUILTIN_POLICIES.map(policy => ({ label: policy, kind: 'policy' as const, detail: 'built-in' })),
+      ];
+      break;
+    case 'option':
+      items = RULE_OPTIONS.map(option => ({ label: option, kind: 'option' }));
+      break;
+  }
+  const prefix = context.prefix.toLowerCase();
+  return items.filter(item => item.label.toLowerCase().startsWith(prefix));
+};
+
+const describeProvider = (name: string, provider: RuleProvider, countEntries?: EntryCounter): string => {
+  const details = [
+    `**${name}**: ${provider.type} provider, ${provider.behavior} behavior${provider.format ? `, ${provider.format} format` : ''}`,
+  ];
+  if (provider.url) details.push(`URL: ${provider.url}`);
+  if (provider.path) details.push(`Path: ${provider.path}`);
+  if (provider.interval) details.push(`Refreshed every ${provider.interval} s`);
+  const count = provider.type === 'inline' && Array.isArray(provider.payload)
+    ? provider.payload.length
+    : countEntries?.(name, provider);
+  details.push(count === undefined ? 'Entries: not loaded yet' : `Entries: ${count}`);
+  return details.join('\n\n');
+};
+
+/**
+ * Describes the providers of the `RULE-SET` rules and conditions on a line of `rules` or a `sub-rules` list.
+ * @returns Markdown, one entry per provider, or null if the line references none.
+ */
+export const getRuleSetHover = (configYaml: string, line: number, countEntries?: EntryCounter): string[] | null => {
+  const lines = configYaml.split('\n');
+  const item = readRuleItem(lines[line - 1] ?? '');
+  if (item === null || !RULE_SECTIONS.includes(findSection(lines, line - 1) ?? '')) return null;
+
+  const names = [...item.matchAll(/RULE-SET\s*,\s*([^,()]+)/gi)].map(match => match[1].trim());
+  if (names.length === 0) return null;
+  const { config } = checkConfigText(configYaml);
+  const providers: ClashConfig['rule-providers'] = config?.['rule-providers'] ?? {};
+  return [...new Set(names)].map(name => (providers[name]
+    ? describeProvider(name, providers[name], countEntries)
+    : `**${name}** is not defined in rule-providers.`));
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const config = [
+    'proxies:',
+    '  - { name: hk, type: ss }',
+    'proxy-groups:',
+    '  - { name: Proxy, type: select, proxies: [hk] }',
+    'rule-providers:',
+    '  ads: { type: http, behavior: domain, url: "https://example.com/ads.txt", interval: 86400 }',
+    '  lan: { type: inline, behavior: ipcidr, payload: [10.0.0.0/8, 192.168.0.0/16] }',
+    'rules:',
+    '  - RULE-SET,ads,REJECT',
+    '  - DOMAIN,a.com,Nowhere',
+    '  - AND,((RULE-SET,lan),(NETWORK,UDP)),DIRECT',
+    "  - 'MATCH,DIRECT'",
+  ].join('\n');
+
+  describe('locateRules', () => {
+    it('should find each rule, including quoted ones', () => {
+      expect(locateRules(config).map(({ index, line, column, endColumn }) => [index, line, column, endColumn])).toEqual([
+        [0, 9, 5, 24], [1, 10, 5, 25], [2, 11, 5, 46], [3, 12, 5, 19],
+      ]);
+    });
+  });
+
+  describe('getConfigMarkers', () => {
+    it('should mark undefined policies and invalid rules on their rule', () => {
+      const markers = getConfigMarkers(`${config}\n  - DOMAIN,b.com`);
+      expect(markers.map(({ severity, line, code }) => [severity, line, code])).toEqual([
+        ['error', 13, undefined],
+        ['error', 10, 'undefined-policy'],
+      ]);
+    });
+  });
+
+  describe('getCompletionContext', () => {
+    const contextAt = (rule: string) => {
+      const text = `rules:\n  - ${rule}`;
+      return getCompletionContext(text, 2, 5 + rule.length);
+    };
+
+    it('should tell rule types, providers, policies and options apart', () => {
+      expect(contextAt('')).toEqual({ kind: 'rule-type', ruleType: '', prefix: '' });
+      expect(contextAt('DOM')).toEqual({ kind: 'rule-type', ruleType: '', prefix: 'DOM' });
+      expect(contextAt('RULE-SET,a')).toEqual({ kind: 'provider', ruleType: 'RULE-SET', prefix: 'a' });
+      expect(contextAt('DOMAIN,a.com,')).toEqual({ kind: 'policy', ruleType: 'DOMAIN', prefix: '' });
+      expect(contextAt('MATCH,DI')?.kind).toBe('policy');
+      expect(contextAt('IP-CIDR,10.0.0.0/8,DIRECT,no')).toEqual({ kind: 'option', ruleType: 'IP-CIDR', prefix: 'no' });
+      expect(contextAt('DOMAIN,a.c')).toBeNull();
+    });
+
+    it('should follow the conditions of logical rules', () => {
+      expect(contextAt('AND,((DOMAIN,a.com),(RULE-SET,')?.kind).toBe('provider');
+      expect(contextAt('AND,((DOMAIN,a.com),(NET')?.kind).toBe('rule-type');
+      expect(contextAt('AND,((DOMAIN,a.com)),RE')).toEqual({ kind: 'policy', ruleType: 'AND', prefix: 'RE' });
+    });
+
+    it('should only complete inside the rules list', () => {
+      expect(getCompletionContext('proxies:\n  - DOM', 2, 8)).toBeNull();
+    });
+  });
+
+  describe('getCompletions', () => {
+    it('should suggest names defined in the config', () => {
+      const text = `${config}\n  - RULE-SET,`;
+      expect(getCompletions(text, 13, 16).map(item => item.label)).toEqual(['ads', 'lan']);
+      const policies = getCompletions(`${config}\n  - DOMAIN,b.com,`, 13, 19).map(item => item.label);
+      expect(policies.slice(0, 3)).toEqual(['Proxy', 'hk', 'DIRECT']);
+      expect(getCompletions(`${config}\n  - DOMAIN-S`, 13, 13).map(item => item.label)).toEqual(['DOMAIN-SUFFIX']);
+    });
+
+    it('should complete sub-rules lists and their rules', () => {
+      const text = `${config}\n  - SUB-RULE,(NETWORK,tcp),\nsub-rules:\n  streaming:\n    - RULE-SET,a`;
+      expect(getCompletions(text, 13, 29)).toEqual([{ label: 'streaming', kind: 'policy', detail: 'sub-rules (1 rules)' }]);
+      expect(getCompletions(text, 16, 17).map(item => item.label)).toEqual(['ads']);
+    });
+  });
+
+  describe('getRuleSetHover', () => {
+    it('should describe the providers on a line', () => {
+      expect(getRuleSetHover(config, 9, () => 1200)).toEqual([
+        '**ads**: http provider, domain behavior\n\nURL: https://example.com/ads.txt\n\nRefreshed every 86400 s\n\nEntries: 1200',
+      ]);
+      expect(getRuleSetHover(config, 11)?.[0]).toContain('Entries: 2');
+      expect(getRuleSetHover(config, 10)).toBeNull();
+    });
+  });
+}
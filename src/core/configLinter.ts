@@ -0,0 +1,403 @@
+import { parseConfigWithDiagnostics } from './configParser';
+import type { ClashConfig, ConfigDiagnostic } from './configParser';
+import { compileDomainPattern, isCidrWithin, parseCidr } from './helper';
+import { BUILTIN_POLICIES } from './policyResolver';
+import { KNOWN_RULE_TYPES, getEffectiveRuleType, isLogicalRuleType, parseLogicalPayload, splitRule } from './ruleParser';
+import type { RuleParts } from './ruleParser';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'malformed-rule'
+  | 'unknown-rule-type'
+  | 'unreachable-rule'
+  | 'duplicate-rule'
+  | 'invalid-cidr'
+  | 'missing-provider'
+  | 'unused-provider'
+  | 'undefined-policy';
+
+export interface LintFinding {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  ruleIndex?: number; // Position in `rules`, when the finding is about a rule
+}
+
+const CIDR_RULE_TYPES = ['IP-CIDR', 'IP-CIDR6', 'IP-SUFFIX', 'SRC-IP-CIDR'];
+const PORT_RULE_TYPES = ['DST-PORT', 'SRC-PORT', 'IN-PORT'];
+
+const isDomainOrSubdomain = (domain: string, suffix: string): boolean =>
+  domain === suffix || domain.endsWith(`.${suffix}`);
+
+const parsePortRanges = (payload: string): [number, number][] | null => {
+  const ranges: [number, number][] = [];
+  for (const part of payload.split('/')) {
+    const [from, to = from] = part.split('-').map(p => Number(p.trim()));
+    if (Number.isNaN(from) || Number.isNaN(to)) return null;
+    ranges.push([from, to]);
+  }
+  return ranges;
+};
+
+/**
+ * Checks whether every connection matching `later` also matches `earlier`,
+ * using mihomo's semantics for each rule type.
+ */
+export const isRuleCovered = (earlier: RuleParts, later: RuleParts): boolean => {
+  if (earlier.type === 'MATCH' || earlier.type === 'FINAL') return true;
+
+  const a = earlier.payload.toLowerCase();
+  const b = later.payload.toLowerCase();
+  // Rules with the `src` option are compared as the SRC- rules they match as.
+  const earlierType = getEffectiveRuleType(earlier);
+  const laterType = getEffectiveRuleType(later);
+
+  switch (earlierType) {
+    case 'DOMAIN':
+      return laterType === 'DOMAIN' && a === b;
+    case 'DOMAIN-SUFFIX':
+      return (laterType === 'DOMAIN' || laterType === 'DOMAIN-SUFFIX') && isDomainOrSubdomain(b, a);
+    case 'DOMAIN-KEYWORD':
+      return ['DOMAIN', 'DOMAIN-SUFFIX', 'DOMAIN-KEYWORD'].includes(laterType) && b.includes(a);
+    case 'IP-CIDR':
+    case 'IP-CIDR6':
+    case 'SRC-IP-CIDR': {
+      // IP-CIDR6 is an alias of IP-CIDR.
+      const isDestination = (type: string) => type === 'IP-CIDR' || type === 'IP-CIDR6';
+      if (laterType !== earlierType && !(isDestination(earlierType) && isDestination(laterType))) return false;
+      // A no-resolve rule misses domain connections that a resolving rule still sees.
+      if (isDestination(earlierType) && earlier.params.includes('no-resolve') && !later.params.includes('no-resolve')) return false;
+      const outer = parseCidr(earlier.payload);
+      const inner = parseCidr(later.payload);
+      return outer !== null && inner !== null && isCidrWithin(inner, outer);
+    }
+    case 'DST-PORT':
+    case 'SRC-PORT':
+    case 'IN-PORT': {
+      if (laterType !== earlierType) return false;
+      const outer = parsePortRanges(earlier.payload);
+      const inner = parsePortRanges(later.payload);
+      if (!outer || !inner) return false;
+      return inner.every(([from, to]) => outer.some(([start, end]) => start <= from && to <= end));
+    }
+    case 'NETWORK':
+    case 'PROCESS-NAME':
+    case 'PROCESS-PATH':
+    case 'GEOSITE':
+    case 'GEOIP':
+    case 'SRC-GEOIP':
+    case 'RULE-SET':
+      return laterType === earlierType && a === b && earlier.params.join(',') === later.params.join(',');
+    default:
+      return false;
+  }
+};
+
+const normalizeRule = (parts: RuleParts): string =>
+  [parts.type, parts.payload, parts.policy, ...parts.params].join(',');
+
+// Checks the type and payload of a rule or logical sub-condition.
+const lintCondition = (parts: RuleParts, ruleIndex: number, config: ClashConfig, findings: LintFinding[]) => {
+  const where = `Rule #${ruleIndex + 1}`;
+
+  if (!KNOWN_RULE_TYPES.includes(parts.type)) {
+    findings.push({ severity: 'warning', code: 'unknown-rule-type', ruleIndex, message: `${where}: unknown rule type "${parts.type}".` });
+    return;
+  }
+
+  if (isLogicalRuleType(parts.type)) {
+    let conditions: string[];
+    try {
+      conditions = parseLogicalPayload(parts.payload);
+    } catch (e: unknown) {
+      findings.push({ severity: 'error', code: 'malformed-rule', ruleIndex, message: `${where}: ${e instanceof Error ? e.message : e}` });
+      return;
+    }
+    if (parts.type === 'NOT' && conditions.length !== 1) {
+      findings.push({ severity: 'error', code: 'malformed-rule', ruleIndex, message: `${where}: NOT takes exactly one condition.` });
+    }
+    for (const condition of conditions) {
+      const inner = splitRule(condition, false);
+      if (!inner) {
+        findings.push({ severity: 'error', code: 'malformed-rule', ruleIndex, message: `${where}: malformed condition "${condition}".` });
+      } else {
+        lintCondition(inner, ruleIndex, config, findings);
+      }
+    }
+    return;
+  }
+
+  if (parts.type === 'SUB-RULE') {
+    const condition = splitRule(parts.payload.slice(1, -1), false);
+    if (condition) lintCondition(condition, ruleIndex, config, findings);
+    return;
+  }
+
+  if (CIDR_RULE_TYPES.includes(parts.type) && parseCidr(parts.payload) === null) {
+    findings.push({ severity: 'error', code: 'invalid-cidr', ruleIndex, message: `${where}: invalid CIDR "${parts.payload}".` });
+  }
+
+  if (parts.type === 'DOMAIN-REGEX' && !compileDomainPattern(parts.type, parts.payload)) {
+    findings.push({ severity: 'error', code: 'malformed-rule', ruleIndex, message: `${where}: invalid regex "${parts.payload}".` });
+  }
+
+  if (PORT_RULE_TYPES.includes(parts.type) && !parsePortRanges(parts.payload)) {
+    findings.push({ severity: 'error', code: 'malformed-rule', ruleIndex, message: `${where}: invalid port "${parts.payload}".` });
+  }
+
+  if (parts.type === 'RULE-SET' && !config['rule-providers']?.[parts.payload]) {
+    findings.push({
+      severity: 'error',
+      code: 'missing-provider',
+      ruleIndex,
+      message: `${where}: provider "${parts.payload}" is not defined in rule-providers.`,
+    });
+  }
+};
+
+/**
+ * Statically checks a parsed config for mistakes: unreachable and duplicate rules,
+ * dangling or unused providers, invalid CIDRs, unknown rule types and undefined policies.
+ * @returns The findings, in rule order, followed by provider and proxy-group findings.
+ */
+export const lintConfig = (config: ClashConfig): LintFinding[] => {
+  const findings: LintFinding[] = [];
+  const rules = config.rules ?? [];
+  const policies = new Set([
+    ...(config.proxies ?? []).map(p => p.name),
+    ...(config['proxy-groups'] ?? []).map(g => g.name),
+  ]);
+  const isDefinedPolicy = (policy: string) => BUILTIN_POLICIES.includes(policy.toUpperCase()) || policies.has(policy);
+  const usedProviders = new Set<string>();
+  const addUsedProviders = (ruleString: string) => {
+    for (const match of ruleString.matchAll(/RULE-SET,([^,()]+)/gi)) {
+      usedProviders.add(match[1].trim());
+    }
+  };
+  // nameserver-policy keys and fake-ip-filter entries reference providers as `rule-set:name1,name2`.
+  const addDnsProviders = (pattern: string) => {
+    const names = /^\s*rule-set:(.*)$/i.exec(pattern)?.[1];
+    for (const name of names?.split(',') ?? []) usedProviders.add(name.trim());
+  };
+  Object.keys(config.dns?.['nameserver-policy'] ?? {}).forEach(addDnsProviders);
+  (config.dns?.['fake-ip-filter'] ?? []).forEach(pattern => addDnsProviders(String(pattern)));
+  const previous: { parts: RuleParts; index: number }[] = [];
+
+  rules.forEach((ruleString, index) => {
+    const where = `Rule #${index + 1}`;
+    const parts = splitRule(ruleString);
+    if (!parts) {
+      findings.push({ severity: 'error', code: 'malformed-rule', ruleIndex: index, message: `${where}: malformed rule "${ruleString}".` });
+      return;
+    }
+
+    addUsedProviders(ruleString);
+    lintCondition(parts, index, config, findings);
+
+    // The policy of a SUB-RULE names a sub-rules list, which the config diagnostics check.
+    if (parts.type !== 'SUB-RULE' && !isDefinedPolicy(parts.policy)) {
+      findings.push({
+        severity: 'error',
+        code: 'undefined-policy',
+        ruleIndex: index,
+        message: `${where}: policy "${parts.policy}" is not a built-in policy, proxy or proxy-group.`,
+      });
+    }
+
+    const normalized = normalizeRule(parts);
+    const duplicate = previous.find(p => normalizeRule(p.parts) === normalized);
+    const cover = duplicate ? undefined : previous.find(p => isRuleCovered(p.parts, parts));
+    if (duplicate) {
+      findings.push({
+        severity: 'warning',
+        code: 'duplicate-rule',
+        ruleIndex: index,
+        message: `${where} duplicates rule #${duplicate.index + 1}: "${ruleString}".`,
+      });
+    } else if (cover) {
+      findings.push({
+        severity: 'warning',
+        code: 'unreachable-rule',
+        ruleIndex: index,
+        message: `${where} "${ruleString}" is unreachable: rule #${cover.index + 1} "${rules[cover.index]}" matches everything it does.`,
+      });
+    }
+    previous.push({ parts, index });
+  });
+
+  for (const [name, list] of Object.entries(config['sub-rules'] ?? {})) {
+    (Array.isArray(list) ? list : []).forEach((ruleString, index) => {
+      addUsedProviders(String(ruleString));
+      const parts = splitRule(String(ruleString));
+      if (parts && parts.type !== 'SUB-RULE' && !isDefinedPolicy(parts.policy)) {
+        findings.push({
+          severity: 'error',
+          code: 'undefined-policy',
+          message: `Sub-rules "${name}" rule #${index + 1}: policy "${parts.policy}" is not a built-in policy, proxy or proxy-group.`,
+        });
+      }
+    });
+  }
+
+  for (const [name, provider] of Object.entries(config['rule-providers'] ?? {})) {
+    if (!usedProviders.has(name)) {
+      findings.push({ severity: 'warning', code: 'unused-provider', message: `Provider "${name}" is not used by any RULE-SET rule or DNS setting.` });
+    }
+    if (provider?.behavior === 'ipcidr' && Array.isArray(provider.payload)) {
+      for (const entry of provider.payload.filter(e => parseCidr(e) === null)) {
+        findings.push({ severity: 'error', code: 'invalid-cidr', message: `Provider "${name}": invalid CIDR "${entry}".` });
+      }
+    }
+  }
+
+  for (const group of config['proxy-groups'] ?? []) {
+    for (const member of group.proxies ?? []) {
+      if (!isDefinedPolicy(member)) {
+        findings.push({
+          severity: 'error',
+          code: 'undefined-policy',
+          message: `Proxy-group "${group.name}": member "${member}" is not a built-in policy, proxy or proxy-group.`,
+        });
+      }
+    }
+  }
+
+  return findings;
+};
+
+export interface ConfigCheck {
+  config: ClashConfig | null; // Null when the YAML does not parse
+  diagnostics: ConfigDiagnostic[];
+  findings: LintFinding[];
+}
+
+/**
+ * Parses config text and lints it. Findings about rules the parser already rejected,
+ * such as malformed rules and unknown rule types, are left to the positioned diagnostics.
+ */
+export const checkConfigText = (configYaml: string): ConfigCheck => {
+  const { config, diagnostics } = parseConfigWithDiagnostics(configYaml);
+  if (!config) return { config, diagnostics, findings: [] };
+  const rejectedRules = new Set(diagnostics.filter(d => d.path[0] === 'rules').map(d => d.path[1]));
+  const findings = lintConfig(config).filter(f => f.ruleIndex === undefined || !rejectedRules.has(f.ruleIndex)
+    || (f.code !== 'malformed-rule' && f.code !== 'unknown-rule-type'));
+  return { config, diagnostics, findings };
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const codesOf = (config: ClashConfig) => lintConfig(config).map(f => [f.code, f.ruleIndex]);
+
+  describe('isRuleCovered', () => {
+    const covered = (earlier: string, later: string) => isRuleCovered(splitRule(earlier)!, splitRule(later)!);
+
+    it('should follow domain suffix and keyword semantics', () => {
+      expect(covered('DOMAIN-SUFFIX,google.com,PROXY', 'DOMAIN,a.google.com,DIRECT')).toBe(true);
+      expect(covered('DOMAIN-SUFFIX,google.com,PROXY', 'DOMAIN-SUFFIX,mail.google.com,DIRECT')).toBe(true);
+      expect(covered('DOMAIN-SUFFIX,google.com,PROXY', 'DOMAIN,content-google.com,DIRECT')).toBe(false);
+      expect(covered('DOMAIN-KEYWORD,google,PROXY', 'DOMAIN-SUFFIX,google.cn,DIRECT')).toBe(true);
+      expect(covered('DOMAIN,google.com,PROXY', 'DOMAIN-SUFFIX,google.com,DIRECT')).toBe(false);
+    });
+
+    it('should compare CIDR ranges and no-resolve', () => {
+      expect(covered('IP-CIDR,10.0.0.0/8,DIRECT', 'IP-CIDR,10.1.0.0/16,PROXY')).toBe(true);
+      expect(covered('IP-CIDR,10.1.0.0/16,DIRECT', 'IP-CIDR,10.0.0.0/8,PROXY')).toBe(false);
+      expect(covered('IP-CIDR,10.0.0.0/8,DIRECT,no-resolve', 'IP-CIDR,10.1.0.0/16,PROXY')).toBe(false);
+      expect(covered('IP-CIDR,10.0.0.0/8,DIRECT', 'IP-CIDR,10.1.0.0/16,PROXY,no-resolve')).toBe(true);
+      expect(covered('IP-CIDR,2001:db8::/32,DIRECT', 'IP-CIDR6,2001:db8:1::/48,PROXY')).toBe(true);
+    });
+
+    it('should tell source IP rules from destination IP rules', () => {
+      expect(covered('IP-CIDR,10.0.0.0/8,DIRECT,src', 'IP-CIDR,10.1.0.0/16,PROXY')).toBe(false);
+      expect(covered('IP-CIDR,10.0.0.0/8,DIRECT', 'IP-CIDR,10.1.0.0/16,PROXY,src')).toBe(false);
+      expect(covered('IP-CIDR,10.0.0.0/8,DIRECT,src', 'SRC-IP-CIDR,10.1.0.0/16,PROXY')).toBe(true);
+      expect(covered('SRC-IP-CIDR,10.0.0.0/8,DIRECT,no-resolve', 'IP-CIDR,10.1.0.0/16,PROXY,src')).toBe(true);
+      expect(covered('GEOIP,CN,DIRECT,src', 'GEOIP,CN,PROXY')).toBe(false);
+    });
+
+    it('should compare port ranges', () => {
+      expect(covered('DST-PORT,1-1024,DIRECT', 'DST-PORT,80/443,PROXY')).toBe(true);
+      expect(covered('DST-PORT,80/443,DIRECT', 'DST-PORT,80-443,PROXY')).toBe(false);
+    });
+
+    it('should treat MATCH as covering everything', () => {
+      expect(covered('MATCH,DIRECT', 'GEOIP,CN,DIRECT')).toBe(true);
+    });
+  });
+
+  describe('lintConfig', () => {
+    it('should report unreachable and duplicate rules', () => {
+      expect(codesOf({
+        rules: [
+          'DOMAIN-SUFFIX,google.com,DIRECT',
+          'DOMAIN,a.google.com,REJECT',
+          'DOMAIN-SUFFIX,google.com,DIRECT',
+          'MATCH,DIRECT',
+          'DOMAIN,b.com,DIRECT',
+        ],
+      })).toEqual([['unreachable-rule', 1], ['duplicate-rule', 2], ['unreachable-rule', 4]]);
+    });
+
+    it('should report dangling and unused providers', () => {
+      expect(codesOf({
+        'rule-providers': {
+          used: { type: 'inline', behavior: 'domain', payload: [] },
+          unused: { type: 'inline', behavior: 'ipcidr', payload: ['10.0.0.0/8', '300.0.0.0/8'] },
+        },
+        rules: ['RULE-SET,used,DIRECT', 'AND,((RULE-SET,missing),(NETWORK,UDP)),REJECT'],
+      })).toEqual([['missing-provider', 1], ['unused-provider', undefined], ['invalid-cidr', undefined]]);
+    });
+
+    it('should count providers referenced by nameserver-policy as used', () => {
+      expect(codesOf({
+        'rule-providers': {
+          cn: { type: 'inline', behavior: 'domain', payload: [] },
+          lan: { type: 'inline', behavior: 'domain', payload: [] },
+        },
+        dns: { 'nameserver-policy': { 'rule-set:cn,lan': '223.5.5.5' } },
+        rules: ['MATCH,DIRECT'],
+      })).toEqual([]);
+    });
+
+    it('should count providers referenced by fake-ip-filter as used', () => {
+      expect(codesOf({
+        'rule-providers': { direct: { type: 'inline', behavior: 'domain', payload: [] } },
+        dns: { 'fake-ip-filter': ['+.lan', 'rule-set:direct'] },
+        rules: ['MATCH,DIRECT'],
+      })).toEqual([]);
+    });
+
+    it('should check SUB-RULE conditions and the rules of sub-rules lists', () => {
+      expect(lintConfig({
+        'rule-providers': { video: { type: 'inline', behavior: 'domain', payload: [] } },
+        rules: ['SUB-RULE,(IP-CIDR,10.0.0.0/33),streaming', 'MATCH,DIRECT'],
+        'sub-rules': { streaming: ['RULE-SET,video,HK', 'MATCH,DIRECT'] },
+      }).map(f => f.message)).toEqual([
+        'Rule #1: invalid CIDR "10.0.0.0/33".',
+        'Sub-rules "streaming" rule #1: policy "HK" is not a built-in policy, proxy or proxy-group.',
+      ]);
+    });
+
+    it('should report invalid payloads and unknown rule types, also inside logical rules', () => {
+      expect(codesOf({
+        rules: ['IP-CIDR,10.0.0.0/33,DIRECT', 'DST-PORT,http,DIRECT', 'OR,((DOMAIN,a.com),(URL-REGEX,x)),DIRECT', 'NOT,((DOMAIN,a.com),(DOMAIN,b.com)),DIRECT', 'BROKEN', 'DOMAIN-REGEX,(ads,REJECT'],
+      })).toEqual([
+        ['invalid-cidr', 0], ['malformed-rule', 1], ['unknown-rule-type', 2], ['malformed-rule', 3], ['malformed-rule', 4], ['malformed-rule', 5],
+      ]);
+    });
+
+    it('should report undefined policies in rules and proxy-groups', () => {
+      const findings = lintConfig({
+        proxies: [{ name: 'HK-01', type: 'ss' }],
+        'proxy-groups': [{ name: 'PROXY', type: 'select', proxies: ['HK-01', 'JP-01', 'direct'] }],
+        rules: ['DOMAIN,a.com,PROXY', 'DOMAIN,b.com,Streaming', 'MATCH,DIRECT'],
+      });
+      expect(findings.map(f => f.message)).toEqual([
+        'Rule #2: policy "Streaming" is not a built-in policy, proxy or proxy-group.',
+        'Proxy-group "PROXY": member "JP-01" is not a built-in policy, proxy or proxy-group.',
+      ]);
+    });
+  });
+}
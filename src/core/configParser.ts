@@ -1,37 +1,313 @@
 
-import { parse } from 'yaml';
+import { LineCounter, parseDocument } from 'yaml';
+import { parseRule } from './ruleParser';
 
 export interface RuleProvider {
-  type: 'http' | 'inline';
+  type: 'http' | 'inline' | 'file';
   behavior: 'domain' | 'ipcidr' | 'classical';
   url?: string;
-  format?: 'yaml' | 'text';
+  path?: string;
+  interval?: number;
+  format?: 'yaml' | 'text' | 'mrs';
   payload?: string[];
 }
 
+export interface Proxy {
+  name: string;
+  type: string;
+  server?: string;
+  port?: number;
+  [key: string]: unknown;
+}
+
+export interface ProxyGroup {
+  name: string;
+  type: 'select' | 'fallback' | 'url-test' | 'load-balance' | 'relay';
+  proxies?: string[];
+  use?: string[]; // proxy-providers, whose contents are not available to the tester
+  'include-all'?: boolean;
+  'include-all-proxies'?: boolean;
+  url?: string;
+  interval?: number;
+}
+
+// The parts of the `dns` section that affect which IP a rule sees.
+export interface DnsConfig {
+  enable?: boolean;
+  'enhanced-mode'?: 'fake-ip' | 'redir-host' | 'normal';
+  'fake-ip-range'?: string;
+  'fake-ip-filter'?: string[];
+  'fake-ip-filter-mode'?: 'blacklist' | 'whitelist';
+  'use-hosts'?: boolean;
+  nameserver?: string[];
+  fallback?: string[];
+  // Keys are domain patterns, comma-separated lists of them, `geosite:` or `rule-set:` references.
+  'nameserver-policy'?: { [pattern: string]: string | string[] };
+}
+
+// Domain patterns mapped to an IP, a list of IPs or another domain.
+export type HostsConfig = { [pattern: string]: string | string[] };
+
 // A basic interface for the Clash config structure.
 // We will expand this as we support more fields.
 export interface ClashConfig {
+  proxies?: Proxy[];
+  'proxy-groups'?: ProxyGroup[];
   rules?: string[];
+  'sub-rules'?: { [name: string]: string[] }; // Rule lists that SUB-RULE rules delegate to
   'rule-providers'?: { [key: string]: RuleProvider };
+  dns?: DnsConfig;
+  hosts?: HostsConfig;
+}
+
+// A problem found while parsing the config, positioned in the YAML source.
+export interface ConfigDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  path: (string | number)[]; // Where in the config, e.g. ['rules', 3] or ['rule-providers', 'ads', 'url']
 }
 
+export interface ParsedConfig {
+  config: ClashConfig | null; // Null when the YAML itself does not parse
+  diagnostics: ConfigDiagnostic[];
+}
+
+const PROVIDER_TYPES = ['http', 'inline', 'file'];
+const PROVIDER_BEHAVIORS = ['domain', 'ipcidr', 'classical'];
+const PROVIDER_FORMATS = ['yaml', 'text', 'mrs'];
+
+const isMapping = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The sub-rules lists a rule list delegates to, in order.
+const findSubRuleTargets = (rules: unknown[]): string[] => rules.flatMap(rule => {
+  try {
+    const parsed = typeof rule === 'string' ? parseRule(rule) : null;
+    return parsed?.type === 'SUB-RULE' ? [parsed.policy] : [];
+  } catch {
+    return [];
+  }
+});
+
+/**
+ * Finds a loop of SUB-RULE references among the sub-rules lists, which mihomo refuses to load.
+ * @returns The lists along the loop, starting and ending with the same list, or null if there is none.
+ */
+const findSubRuleLoop = (subRules: Record<string, unknown>): string[] | null => {
+  const done = new Set<string>();
+  const visit = (name: string, path: string[]): string[] | null => {
+    if (path.includes(name)) return [...path.slice(path.indexOf(name)), name];
+    if (done.has(name) || !Array.isArray(subRules[name])) return null;
+    for (const target of findSubRuleTargets(subRules[name] as unknown[])) {
+      const loop = visit(target, [...path, name]);
+      if (loop) return loop;
+    }
+    done.add(name);
+    return null;
+  };
+  for (const name of Object.keys(subRules)) {
+    const loop = visit(name, []);
+    if (loop) return loop;
+  }
+  return null;
+};
+
+/**
+ * Parses a Clash config and checks its rules and rule-providers, reporting each problem with its line and column.
+ * Rules are checked with the rule parser; payload values such as CIDRs are left to the linter.
+ */
+export const parseConfigWithDiagnostics = (configYaml: string): ParsedConfig => {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(configYaml, { lineCounter });
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  if (doc.errors.length > 0) {
+    for (const error of doc.errors) {
+      const { line, col } = error.linePos?.[0] ?? { line: 1, col: 1 };
+      // The message repeats the position and quotes the source; keep the first sentence.
+      const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+      diagnostics.push({ severity: 'error', message, line, column: col, path: [] });
+    }
+    return { config: null, diagnostics };
+  }
+
+  const config = doc.toJS() as unknown;
+  if (!isMapping(config)) {
+    return { config: null, diagnostics: [{ severity: 'error', message: 'The config must be a YAML mapping.', line: 1, column: 1, path: [] }] };
+  }
+
+  // Positions the diagnostic at the deepest part of the path present in the source.
+  const report = (severity: ConfigDiagnostic['severity'], path: (string | number)[], message: string) => {
+    for (let length = path.length; length >= 0; length--) {
+      const node = length === 0 ? doc.contents : doc.getIn(path.slice(0, length), true);
+      const offset = (node as { range?: [number, number, number] } | undefined)?.range?.[0];
+      if (offset !== undefined) {
+        const { line, col } = lineCounter.linePos(offset);
+        diagnostics.push({ severity, message, line, column: col, path });
+        return;
+      }
+    }
+    diagnostics.push({ severity, message, line: 1, column: 1, path });
+  };
+
+  const subRules = config['sub-rules'];
+  // Checks each rule of `rules` or of a sub-rules list, including the lists SUB-RULE rules name.
+  const checkRuleList = (path: (string | number)[], rules: unknown[], where: string) => {
+    rules.forEach((rule: unknown, index) => {
+      if (typeof rule !== 'string') {
+        report('error', [...path, index], `${where}${index + 1} must be a string.`);
+        return;
+      }
+      try {
+        const parsed = parseRule(rule);
+        if (parsed.type === 'SUB-RULE' && !(isMapping(subRules) && Array.isArray(subRules[parsed.policy]))) {
+          report('error', [...path, index], `${where}${index + 1}: sub-rules has no list "${parsed.policy}".`);
+        }
+      } catch (e: unknown) {
+        report('error', [...path, index], `${where}${index + 1}: ${e instanceof Error ? e.message : e}`);
+      }
+    });
+  };
+
+  const rules = config.rules;
+  if (rules !== undefined && rules !== null && !Array.isArray(rules)) {
+    report('error', ['rules'], '"rules" must be a list of rule strings.');
+  } else if (Array.isArray(rules)) {
+    checkRuleList(['rules'], rules, 'Rule #');
+  }
+
+  if (subRules !== undefined && subRules !== null && !isMapping(subRules)) {
+    report('error', ['sub-rules'], '"sub-rules" must be a mapping of names to rule lists.');
+  } else if (isMapping(subRules)) {
+    for (const [name, list] of Object.entries(subRules)) {
+      if (!Array.isArray(list)) {
+        report('error', ['sub-rules', name], `Sub-rules "${name}" must be a list of rule strings.`);
+      } else {
+        checkRuleList(['sub-rules', name], list, `Sub-rules "${name}" rule #`);
+      }
+    }
+    const loop = findSubRuleLoop(subRules);
+    if (loop) report('error', ['sub-rules', loop[0]], `Sub-rules loop: ${loop.join(' → ')}.`);
+  }
+
+  const providers = config['rule-providers'];
+  if (providers !== undefined && providers !== null && !isMapping(providers)) {
+    report('error', ['rule-providers'], '"rule-providers" must be a mapping of provider names to providers.');
+  } else if (isMapping(providers)) {
+    for (const [name, provider] of Object.entries(providers)) {
+      const path = ['rule-providers', name];
+      const where = `Provider "${name}"`;
+      if (!isMapping(provider)) {
+        report('error', path, `${where} must be a mapping.`);
+        continue;
+      }
+      if (!PROVIDER_TYPES.includes(provider.type as string)) {
+        report('error', [...path, 'type'], `${where}: type must be one of ${PROVIDER_TYPES.join(', ')}.`);
+      }
+      if (!PROVIDER_BEHAVIORS.includes(provider.behavior as string)) {
+        report('error', [...path, 'behavior'], `${where}: behavior must be one of ${PROVIDER_BEHAVIORS.join(', ')}.`);
+      }
+      if (provider.format !== undefined && !PROVIDER_FORMATS.includes(provider.format as string)) {
+        report('error', [...path, 'format'], `${where}: format must be one of ${PROVIDER_FORMATS.join(', ')}.`);
+      }
+      if (provider.format === 'mrs' && provider.behavior === 'classical') {
+        report('error', [...path, 'format'], `${where}: the mrs format only supports domain and ipcidr behaviors.`);
+      }
+      if (provider.type === 'http' && typeof provider.url !== 'string') {
+        report('error', [...path, 'url'], `${where}: http providers need a url.`);
+      }
+      if (provider.type === 'file' && typeof provider.path !== 'string') {
+        report('error', [...path, 'path'], `${where}: file providers need a path.`);
+      }
+      if (provider.type === 'inline' && !Array.isArray(provider.payload)) {
+        report('error', [...path, 'payload'], `${where}: inline providers need a payload list.`);
+      }
+      if (provider.interval !== undefined && typeof provider.interval !== 'number') {
+        report('warning', [...path, 'interval'], `${where}: interval must be a number of seconds.`);
+      }
+    }
+  }
+
+  return { config: config as ClashConfig, diagnostics };
+};
+
 /**
  * Parses a YAML string representing a Clash configuration file.
  * @param configYaml The YAML configuration as a string.
  * @returns A JavaScript object representing the parsed config.
- * @throws Throws an error if the YAML is invalid.
+ * @throws Throws an error naming the line and column if the YAML is invalid.
  */
 export const parseConfig = (configYaml: string): ClashConfig => {
-  try {
-    const config = parse(configYaml);
-    // Basic validation to ensure it's an object
-    if (typeof config !== 'object' || config === null) {
-      throw new Error('Invalid configuration format: not an object.');
-    }
-    return config as ClashConfig;
-  } catch (e) {
-    console.error('Failed to parse YAML config:', e);
-    throw new Error('Invalid YAML format.');
+  const { config, diagnostics } = parseConfigWithDiagnostics(configYaml);
+  if (!config) {
+    const [first] = diagnostics;
+    throw new Error(`Invalid YAML at line ${first.line}, column ${first.column}: ${first.message}`);
   }
+  return config;
 };
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('parseConfigWithDiagnostics', () => {
+    it('should position YAML syntax errors', () => {
+      const { config, diagnostics } = parseConfigWithDiagnostics('rules:\n  - DOMAIN,a.com,DIRECT\nfoo: : bar\n');
+      expect(config).toBeNull();
+      expect(diagnostics[0]).toMatchObject({ severity: 'error', line: 3, column: 6, message: 'Nested mappings are not allowed in compact mappings' });
+      expect(() => parseConfig('foo: : bar')).toThrow('Invalid YAML at line 1, column 6: Nested mappings are not allowed in compact mappings');
+    });
+
+    it('should position invalid rules', () => {
+      const yaml = [
+        'rules:',
+        '  - DOMAIN,a.com,DIRECT',
+        '  - DOMAIN,b.com',
+        '  -   AND,((DOMAIN,c.com),REJECT',
+        '  - MATCH,DIRECT',
+      ].join('\n');
+      expect(parseConfigWithDiagnostics(yaml).diagnostics.map(d => [d.line, d.column, d.path])).toEqual([
+        [3, 5, ['rules', 1]],
+        [4, 7, ['rules', 2]],
+      ]);
+    });
+
+    it('should check sub-rules and find loops', () => {
+      const yaml = [
+        'rules:',
+        '  - SUB-RULE,(NETWORK,tcp),tcp',
+        '  - SUB-RULE,(NETWORK,udp),missing',
+        'sub-rules:',
+        '  tcp:',
+        '    - SUB-RULE,(DST-PORT,443),https',
+        '    - DOMAIN,a.com',
+        '  https:',
+        '    - SUB-RULE,(DOMAIN,b.com),tcp',
+      ].join('\n');
+      expect(parseConfigWithDiagnostics(yaml).diagnostics.map(d => [d.line, d.message])).toEqual([
+        [3, 'Rule #2: sub-rules has no list "missing".'],
+        [7, 'Sub-rules "tcp" rule #2: Rule "DOMAIN,a.com" needs a type, a payload and a policy.'],
+        [6, 'Sub-rules loop: tcp → https → tcp.'],
+      ]);
+    });
+
+    it('should check rule providers', () => {
+      const yaml = [
+        'rule-providers:',
+        '  ads:',
+        '    type: ftp',
+        '    behavior: domain',
+        '  cn:',
+        '    type: http',
+        '    behavior: classical',
+        '    format: mrs',
+      ].join('\n');
+      expect(parseConfigWithDiagnostics(yaml).diagnostics.map(d => [d.line, d.message])).toEqual([
+        [3, 'Provider "ads": type must be one of http, inline, file.'],
+        [8, 'Provider "cn": the mrs format only supports domain and ipcidr behaviors.'],
+        [6, 'Provider "cn": http providers need a url.'],
+      ]);
+    });
+  });
+}
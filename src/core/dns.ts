@@ -0,0 +1,324 @@
+import type { DnsConfig, HostsConfig } from './configParser';
+import { isWildcardMatch, parseCidr, parseIpBytes } from './helper';
+import { resolveDomainToIps } from './network';
+
+// Emulates how mihomo turns a domain into IPs: the `hosts` section, the nameserver
+// `nameserver-policy` picks, and whether the client is handed a fake IP.
+
+// Looks up the addresses of a domain.
+export interface Resolver {
+  resolve: (domain: string, signal?: AbortSignal) => Promise<string[]>;
+}
+
+export interface DnsResolution {
+  ips: string[];
+  source: 'hosts' | 'nameserver';
+  hostsEntry?: string; // The hosts pattern that applied
+  nameserver?: string; // The nameserver the config would query; the lookup itself goes through the resolver
+  nameserverPolicy?: string; // The nameserver-policy key that chose the nameserver
+}
+
+// Answers `geosite:` and `rule-set:` patterns, which need GEO data or providers.
+export type DomainCategoryMatcher = (kind: 'geosite' | 'rule-set', name: string, domain: string) => Promise<boolean>;
+
+const DEFAULT_FAKE_IP_RANGE = '198.18.0.1/16';
+const MAX_HOSTS_ALIASES = 8;
+
+// Queries the DoH server set with configureNetwork.
+export const dohResolver: Resolver = { resolve: resolveDomainToIps };
+
+const toList = (value: string | string[]): string[] => (Array.isArray(value) ? value : [value]).map(v => String(v).trim());
+
+/**
+ * Finds the hosts entry for a domain: an exact entry wins, then the most specific wildcard.
+ * @returns The pattern and its values, or null if no entry applies.
+ */
+export const matchHosts = (hosts: HostsConfig, domain: string): [string, string[]] | null => {
+  const lowerCaseDomain = domain.toLowerCase();
+  let best: [string, string[]] | null = null;
+  for (const [pattern, value] of Object.entries(hosts)) {
+    const lowerCasePattern = pattern.toLowerCase();
+    if (lowerCasePattern === lowerCaseDomain) return [pattern, toList(value)];
+    if (isWildcardMatch(lowerCaseDomain, lowerCasePattern) && (!best || pattern.length > best[0].length)) {
+      best = [pattern, toList(value)];
+    }
+  }
+  return best;
+};
+
+/**
+ * Parses domain→IP mappings, one per line, as `domain ip [ip...]` or in hosts-file order `ip domain [domain...]`.
+ * Lines starting with `#` are comments.
+ * @throws Throws an error naming the line if it has no IP address.
+ */
+export const parseStaticMappings = (text: string): HostsConfig => {
+  const mappings: { [pattern: string]: string[] } = {};
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.split('#')[0].trim();
+    if (!line) return;
+    const [first, ...rest] = line.split(/[\s,]+/);
+    if (parseIpBytes(first)) {
+      for (const domain of rest) (mappings[domain] ??= []).push(first);
+      if (rest.length > 0) return;
+    } else if (rest.length > 0 && rest.every(ip => parseIpBytes(ip))) {
+      (mappings[first] ??= []).push(...rest);
+      return;
+    }
+    throw new Error(`Line ${index + 1}: expected "<domain> <ip>", got "${rawLine.trim()}".`);
+  });
+  return mappings;
+};
+
+/**
+ * A resolver answering from fixed mappings, so tests are deterministic and work offline.
+ * Domains without a mapping resolve to nothing.
+ */
+export const createStaticResolver = (mappings: HostsConfig): Resolver => ({
+  resolve: async (domain) => {
+    const entry = matchHosts(mappings, domain);
+    return entry ? entry[1].filter(ip => parseIpBytes(ip)) : [];
+  },
+});
+
+/**
+ * A resolver that looks each domain up once and replays the answer to later calls,
+ * so several runs over the same domains see the same IPs.
+ */
+export const createCachingResolver = (resolver: Resolver): Resolver => {
+  const answers = new Map<string, Promise<string[]>>();
+  return {
+    resolve: (domain, signal) => {
+      const key = domain.toLowerCase();
+      let answer = answers.get(key);
+      if (!answer) {
+        answer = resolver.resolve(domain, signal);
+        answers.set(key, answer);
+      }
+      return answer;
+    },
+  };
+};
+
+// The resolver picked in the UI: DoH, or static mappings in the format parseStaticMappings reads.
+export interface ResolverSettings {
+  mode: 'doh' | 'static';
+  mappings: string;
+}
+
+export const DEFAULT_RESOLVER_SETTINGS: ResolverSettings = {
+  mode: 'doh',
+  mappings: 'www.example.com 93.184.215.14\n# or hosts-file order:\n192.168.1.2 nas.lan\n',
+};
+
+/**
+ * Builds the resolver for the settings; undefined stands for the default DoH resolver.
+ * @throws If the static mappings are invalid.
+ */
+export const createResolverFromSettings = (settings: ResolverSettings): Resolver | undefined =>
+  (settings.mode === 'static' ? createStaticResolver(parseStaticMappings(settings.mappings)) : undefined);
+
+/**
+ * Checks a domain against a pattern as used by nameserver-policy and fake-ip-filter:
+ * comma-separated domain patterns, or `geosite:`/`rule-set:` followed by comma-separated names.
+ */
+export const matchesDomainPattern = async (
+  pattern: string,
+  domain: string,
+  matchCategory?: DomainCategoryMatcher
+): Promise<boolean> => {
+  const trimmed = pattern.trim();
+  const category = /^(geosite|rule-set):(.*)$/i.exec(trimmed);
+  if (category) {
+    if (!matchCategory) return false;
+    const kind = category[1].toLowerCase() as 'geosite' | 'rule-set';
+    for (const name of category[2].split(',')) {
+      if (await matchCategory(kind, name.trim(), domain)) return true;
+    }
+    return false;
+  }
+  return trimmed.split(',').some(part => isWildcardMatch(domain, part.trim()));
+};
+
+/**
+ * Picks the nameserver the config would query for a domain: the first matching
+ * nameserver-policy entry, otherwise the first `nameserver`.
+ */
+export const selectNameserver = async (
+  dns: DnsConfig,
+  domain: string,
+  matchCategory?: DomainCategoryMatcher
+): Promise<{ nameserver?: string; policy?: string }> => {
+  for (const [pattern, servers] of Object.entries(dns['nameserver-policy'] ?? {})) {
+    if (await matchesDomainPattern(pattern, domain, matchCategory)) {
+      return { nameserver: toList(servers)[0], policy: pattern };
+    }
+  }
+  return { nameserver: dns.nameserver?.[0] };
+};
+
+/**
+ * Checks whether the client is handed a fake IP for a domain: enhanced-mode is fake-ip
+ * and fake-ip-filter does not exclude it (or, in whitelist mode, includes it).
+ */
+export const isFakeIpDomain = async (
+  dns: DnsConfig | undefined,
+  domain: string,
+  matchCategory?: DomainCategoryMatcher
+): Promise<boolean> => {
+  if (!dns?.enable || dns['enhanced-mode'] !== 'fake-ip') return false;
+  let isListed = false;
+  for (const pattern of dns['fake-ip-filter'] ?? []) {
+    if (await matchesDomainPattern(pattern, domain, matchCategory)) {
+      isListed = true;
+      break;
+    }
+  }
+  return dns['fake-ip-filter-mode'] === 'whitelist' ? isListed : !isListed;
+};
+
+/**
+ * Returns a stable fake IP for a domain from fake-ip-range. mihomo hands them out in
+ * order, so the real address depends on which domains were looked up before.
+ */
+export const fakeIpFor = (domain: string, range: string = DEFAULT_FAKE_IP_RANGE): string => {
+  const parsed = parseCidr(range);
+  const { bytes, prefixLength } = parsed?.bytes.length === 4 ? parsed : parseCidr(DEFAULT_FAKE_IP_RANGE)!;
+  const size = 2 ** (32 - prefixLength);
+  const network = ((bytes[0] << 24) >>> 0) + (bytes[1] << 16) + (bytes[2] << 8) + bytes[3];
+  const base = network - (network % size);
+
+  // FNV-1a, skipping the network and gateway addresses.
+  let hash = 0x811c9dc5;
+  for (const char of domain.toLowerCase()) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+  }
+  const address = base + (size > 3 ? 2 + (hash % (size - 3)) : 0);
+  return [address >>> 24, (address >>> 16) & 0xff, (address >>> 8) & 0xff, address & 0xff].join('.');
+};
+
+/**
+ * Resolves a domain the way the config would: `hosts` first (unless dns.use-hosts is off),
+ * then the nameserver chosen by nameserver-policy, queried through `resolver`.
+ */
+export const resolveWithConfig = async (
+  config: { dns?: DnsConfig; hosts?: HostsConfig },
+  domain: string,
+  resolver: Resolver,
+  matchCategory?: DomainCategoryMatcher,
+  aliasDepth: number = 0
+): Promise<DnsResolution> => {
+  const { dns, hosts } = config;
+  if (hosts && dns?.['use-hosts'] !== false) {
+    const entry = matchHosts(hosts, domain);
+    if (entry) {
+      const [pattern, values] = entry;
+      const ips = values.filter(value => parseIpBytes(value));
+      // A domain value makes the entry an alias, e.g. `hosts: { a.com: b.com }`.
+      const alias = values.find(value => !parseIpBytes(value));
+      if (ips.length === 0 && alias && aliasDepth < MAX_HOSTS_ALIASES) {
+        const aliased = await resolveWithConfig(config, alias, resolver, matchCategory, aliasDepth + 1);
+        return { ...aliased, source: 'hosts', hostsEntry: pattern };
+      }
+      return { ips, source: 'hosts', hostsEntry: pattern };
+    }
+  }
+
+  const { nameserver, policy } = dns?.enable ? await selectNameserver(dns, domain, matchCategory) : {};
+  return {
+    ips: await resolver.resolve(domain),
+    source: 'nameserver',
+    nameserver,
+    nameserverPolicy: policy,
+  };
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('matchHosts', () => {
+    const hosts: HostsConfig = { '+.example.com': '10.0.0.1', 'www.example.com': ['10.0.0.2', '::2'], '*.a.example.com': '10.0.0.3' };
+
+    it('should prefer exact entries, then the most specific pattern', () => {
+      expect(matchHosts(hosts, 'WWW.example.com')).toEqual(['www.example.com', ['10.0.0.2', '::2']]);
+      expect(matchHosts(hosts, 'x.a.example.com')).toEqual(['*.a.example.com', ['10.0.0.3']]);
+      expect(matchHosts(hosts, 'example.com')).toEqual(['+.example.com', ['10.0.0.1']]);
+      expect(matchHosts(hosts, 'example.org')).toBeNull();
+    });
+  });
+
+  describe('parseStaticMappings', () => {
+    it('should accept both orders and comments', () => {
+      expect(parseStaticMappings('www.example.com 1.2.3.4 ::1\n# comment\n10.0.0.1 a.lan b.lan\n')).toEqual({
+        'www.example.com': ['1.2.3.4', '::1'],
+        'a.lan': ['10.0.0.1'],
+        'b.lan': ['10.0.0.1'],
+      });
+    });
+
+    it('should name lines without an IP', () => {
+      expect(() => parseStaticMappings('a.com 1.2.3.4\nb.com\n')).toThrow(/Line 2/);
+    });
+  });
+
+  describe('resolveWithConfig', () => {
+    const resolver = createStaticResolver({ '+.example.com': '203.0.113.1', 'cdn.example.net': '203.0.113.9' });
+    const matchCategory: DomainCategoryMatcher = async (kind, name, domain) =>
+      kind === 'geosite' && name === 'cn' && domain.endsWith('.cn');
+    const config = {
+      dns: {
+        enable: true,
+        nameserver: ['https://1.1.1.1/dns-query'],
+        'nameserver-policy': { '+.corp.example.com,intranet': '10.0.0.53', 'geosite:private,cn': ['223.5.5.5', '119.29.29.29'] },
+      },
+      hosts: { 'router.lan': '192.168.1.1', 'alias.example.com': 'cdn.example.net' },
+    };
+
+    it('should answer from hosts first, following aliases', async () => {
+      expect(await resolveWithConfig(config, 'router.lan', resolver)).toEqual({ ips: ['192.168.1.1'], source: 'hosts', hostsEntry: 'router.lan' });
+      const aliased = await resolveWithConfig(config, 'alias.example.com', resolver);
+      expect(aliased).toMatchObject({ ips: ['203.0.113.9'], source: 'hosts', hostsEntry: 'alias.example.com' });
+    });
+
+    it('should skip hosts when use-hosts is off', async () => {
+      const result = await resolveWithConfig({ ...config, dns: { ...config.dns, 'use-hosts': false } }, 'router.lan', resolver);
+      expect(result.source).toBe('nameserver');
+    });
+
+    it('should report the nameserver picked by nameserver-policy', async () => {
+      expect(await resolveWithConfig(config, 'git.corp.example.com', resolver)).toEqual({
+        ips: ['203.0.113.1'], source: 'nameserver', nameserver: '10.0.0.53', nameserverPolicy: '+.corp.example.com,intranet',
+      });
+      expect((await resolveWithConfig(config, 'www.baidu.cn', resolver, matchCategory)).nameserver).toBe('223.5.5.5');
+      expect((await resolveWithConfig(config, 'www.example.com', resolver)).nameserver).toBe('https://1.1.1.1/dns-query');
+    });
+  });
+
+  describe('isFakeIpDomain', () => {
+    const dns: DnsConfig = { enable: true, 'enhanced-mode': 'fake-ip', 'fake-ip-filter': ['+.lan', 'geosite:cn'] };
+
+    it('should hand out fake IPs except for filtered domains', async () => {
+      expect(await isFakeIpDomain(dns, 'www.example.com')).toBe(true);
+      expect(await isFakeIpDomain(dns, 'router.lan')).toBe(false);
+      expect(await isFakeIpDomain(dns, 'www.baidu.cn', async (_kind, name) => name === 'cn')).toBe(false);
+    });
+
+    it('should invert the filter in whitelist mode', async () => {
+      expect(await isFakeIpDomain({ ...dns, 'fake-ip-filter-mode': 'whitelist' }, 'router.lan')).toBe(true);
+      expect(await isFakeIpDomain({ ...dns, 'fake-ip-filter-mode': 'whitelist' }, 'www.example.com')).toBe(false);
+    });
+
+    it('should only apply in fake-ip mode', async () => {
+      expect(await isFakeIpDomain({ ...dns, 'enhanced-mode': 'redir-host' }, 'www.example.com')).toBe(false);
+      expect(await isFakeIpDomain(undefined, 'www.example.com')).toBe(false);
+    });
+  });
+
+  describe('fakeIpFor', () => {
+    it('should pick a stable address inside the range', () => {
+      const ip = fakeIpFor('www.example.com');
+      expect(ip).toBe(fakeIpFor('WWW.example.com'));
+      expect(ip).toMatch(/^198\.18\.\d+\.\d+$/);
+      expect(fakeIpFor('www.example.com', '10.10.0.0/24')).toMatch(/^10\.10\.0\.\d+$/);
+    });
+  });
+}
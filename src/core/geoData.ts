@@ -0,0 +1,160 @@
+import { isCidrMatch, parseCidr } from './helper';
+import { openMmdb } from './mmdb';
+import type { MmdbReader } from './mmdb';
+import type { GeoSiteDatabase } from './geosite';
+import { formatGeoSiteDomain, openGeoSite } from './geosite';
+
+// User-supplied GEO databases. Rules that need a missing database fail with an error.
+export interface GeoDatabases {
+  country?: MmdbReader; // Country.mmdb
+  asn?: MmdbReader; // GeoLite2-ASN.mmdb
+  geosite?: GeoSiteDatabase; // geosite.dat
+}
+
+// The raw database files, which unlike opened databases can be posted to a worker.
+export type GeoFiles = Partial<Record<keyof GeoDatabases, Uint8Array>>;
+
+/**
+ * Opens the given database files.
+ * @throws If a file is not a valid database of its kind.
+ */
+export const openGeoDatabases = (files: GeoFiles): GeoDatabases => ({
+  country: files.country && openMmdb(files.country),
+  asn: files.asn && openMmdb(files.asn),
+  geosite: files.geosite && openGeoSite(files.geosite),
+});
+
+// The database entry that made a GEOIP/GEOSITE/ASN rule match.
+export interface GeoMatch {
+  database: 'Country.mmdb' | 'GeoLite2-ASN.mmdb' | 'geosite.dat' | 'built-in';
+  entry: string;
+}
+
+const LAN_CIDRS = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12', '192.168.0.0/16',
+  '::/128', '::1/128', 'fc00::/7', 'fe80::/10',
+].map(cidr => parseCidr(cidr)!);
+
+// Mirrors mihomo's special `GEOIP,LAN`, which matches private and local addresses without a database.
+export const isLanIp = (ip: string): boolean => LAN_CIDRS.some(cidr => isCidrMatch(ip, cidr));
+
+/**
+ * Returns the lower-case country codes recorded for an IP address.
+ * Supports MaxMind-style records (`country.iso_code`) as well as the plain string
+ * and string array records used by sing-geoip and MetaCubeX databases.
+ */
+export const lookupCountryCodes = (reader: MmdbReader, ip: string): string[] => {
+  const record = reader.lookup(ip);
+  if (typeof record === 'string') return [record.toLowerCase()];
+  if (Array.isArray(record)) return record.filter(r => typeof r === 'string').map(r => r.toLowerCase());
+  const isoCode = (record as { country?: { iso_code?: unknown } } | null)?.country?.iso_code;
+  return typeof isoCode === 'string' ? [isoCode.toLowerCase()] : [];
+};
+
+export const lookupAsn = (reader: MmdbReader, ip: string): { number: string; organization?: string } | null => {
+  const record = reader.lookup(ip) as { autonomous_system_number?: unknown; autonomous_system_organization?: unknown } | null;
+  if (record?.autonomous_system_number === undefined) return null;
+  return {
+    number: String(record.autonomous_system_number),
+    organization: typeof record.autonomous_system_organization === 'string' ? record.autonomous_system_organization : undefined,
+  };
+};
+
+const requireDatabase = <T>(database: T | undefined, ruleType: string, fileName: string): T => {
+  if (!database) {
+    throw new Error(`${ruleType} rules need ${fileName}; load it in the GEO data panel.`);
+  }
+  return database;
+};
+
+/**
+ * Evaluates a GEOIP/SRC-GEOIP rule against an IP address.
+ * @returns The matching country entry, or null if the address is not in the country.
+ * @throws Throws an error if Country.mmdb is needed but not loaded.
+ */
+export const matchGeoIp = (geo: GeoDatabases, ruleType: string, country: string, ip: string | null | undefined): GeoMatch | null => {
+  if (!ip) return null;
+  if (country.toUpperCase() === 'LAN') {
+    return isLanIp(ip) ? { database: 'built-in', entry: 'LAN' } : null;
+  }
+  const reader = requireDatabase(geo.country, ruleType, 'Country.mmdb');
+  const codes = lookupCountryCodes(reader, ip);
+  return codes.includes(country.toLowerCase())
+    ? { database: 'Country.mmdb', entry: `${ip} → ${country.toUpperCase()}` }
+    : null;
+};
+
+/**
+ * Evaluates an IP-ASN/SRC-IP-ASN rule against an IP address.
+ * @throws Throws an error if GeoLite2-ASN.mmdb is not loaded.
+ */
+export const matchIpAsn = (geo: GeoDatabases, ruleType: string, asn: string, ip: string | null | undefined): GeoMatch | null => {
+  if (!ip) return null;
+  const reader = requireDatabase(geo.asn, ruleType, 'GeoLite2-ASN.mmdb');
+  const record = lookupAsn(reader, ip);
+  if (!record || record.number !== asn.trim().replace(/^AS/i, '')) return null;
+  return {
+    database: 'GeoLite2-ASN.mmdb',
+    entry: `${ip} → AS${record.number}${record.organization ? ` (${record.organization})` : ''}`,
+  };
+};
+
+/**
+ * Evaluates a GEOSITE rule such as `GEOSITE,google@cn` against a domain.
+ * @throws Throws an error if geosite.dat is not loaded or lacks the category.
+ */
+export const matchGeoSite = (geo: GeoDatabases, code: string, domain: string): GeoMatch | null => {
+  const database = requireDatabase(geo.geosite, 'GEOSITE', 'geosite.dat');
+  const entry = database.match(domain, code);
+  return entry ? { database: 'geosite.dat', entry: `${code.toLowerCase()} → ${formatGeoSiteDomain(entry)}` } : null;
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { buildTestMmdb } = await import('./testing/mmdbBuilder');
+  const { openMmdb } = await import('./mmdb');
+
+  describe('lookupCountryCodes', () => {
+    it('should read MaxMind-style and plain string records', () => {
+      const reader = openMmdb(buildTestMmdb('test', [
+        ['1.0.0.0/24', { country: { iso_code: 'AU' } }],
+        ['1.1.1.0/24', 'US'],
+        ['1.2.3.0/24', ['CN', 'HK']],
+      ]));
+      expect(lookupCountryCodes(reader, '1.0.0.1')).toEqual(['au']);
+      expect(lookupCountryCodes(reader, '1.1.1.1')).toEqual(['us']);
+      expect(lookupCountryCodes(reader, '1.2.3.4')).toEqual(['cn', 'hk']);
+      expect(lookupCountryCodes(reader, '9.9.9.9')).toEqual([]);
+    });
+  });
+
+  describe('matchGeoIp', () => {
+    it('should match LAN addresses without a database', () => {
+      expect(matchGeoIp({}, 'GEOIP', 'LAN', '192.168.1.1')).not.toBeNull();
+      expect(matchGeoIp({}, 'GEOIP', 'lan', 'fe80::1')).not.toBeNull();
+      expect(matchGeoIp({}, 'GEOIP', 'LAN', '8.8.8.8')).toBeNull();
+    });
+
+    it('should require Country.mmdb for countries', () => {
+      expect(() => matchGeoIp({}, 'GEOIP', 'CN', '114.114.114.114')).toThrow(/Country\.mmdb/);
+    });
+  });
+
+  describe('matchIpAsn', () => {
+    const geo = { asn: openMmdb(buildTestMmdb('GeoLite2-ASN', [
+      ['1.1.1.0/24', { autonomous_system_number: 13335, autonomous_system_organization: 'CLOUDFLARENET' }],
+    ])) };
+
+    it('should match the ASN number with or without an AS prefix', () => {
+      expect(matchIpAsn(geo, 'IP-ASN', '13335', '1.1.1.1')?.entry).toBe('1.1.1.1 → AS13335 (CLOUDFLARENET)');
+      expect(matchIpAsn(geo, 'IP-ASN', 'AS13335', '1.1.1.1')).not.toBeNull();
+      expect(matchIpAsn(geo, 'IP-ASN', '15169', '1.1.1.1')).toBeNull();
+    });
+
+    it('should miss rather than fail without an IP, like GEOIP', () => {
+      expect(matchIpAsn({}, 'IP-ASN', '13335', undefined)).toBeNull();
+      expect(matchGeoIp({}, 'GEOIP', 'CN', undefined)).toBeNull();
+      expect(() => matchIpAsn({}, 'IP-ASN', '13335', '1.1.1.1')).toThrow(/GeoLite2-ASN\.mmdb/);
+    });
+  });
+}
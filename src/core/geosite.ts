@@ -0,0 +1,215 @@
+// A reader for v2ray/mihomo geosite.dat files, a protobuf-encoded GeoSiteList:
+//   GeoSiteList { repeated GeoSite entry = 1; }
+//   GeoSite { string country_code = 1; repeated Domain domain = 2; }
+//   Domain { Type type = 1; string value = 2; repeated Attribute attribute = 3; }
+//   Attribute { string key = 1; oneof { bool bool_value = 2; int64 int_value = 3; } }
+
+export type GeoSiteDomainType = 'keyword' | 'regexp' | 'domain' | 'full';
+
+export interface GeoSiteDomain {
+  type: GeoSiteDomainType;
+  value: string;
+  attributes: string[];
+}
+
+export interface GeoSiteDatabase {
+  categories: string[];
+  /**
+   * Returns the domains of a category, or null if the category does not exist.
+   */
+  getCategory: (code: string) => GeoSiteDomain[] | null;
+  /**
+   * Finds the first domain entry of a category that matches `domain`.
+   * @param code The category, optionally followed by attribute filters, e.g. `google@cn`.
+   * @returns The matching entry, or null if none matches.
+   * @throws Throws an error if the category does not exist.
+   */
+  match: (domain: string, code: string) => GeoSiteDomain | null;
+}
+
+const DOMAIN_TYPES: GeoSiteDomainType[] = ['keyword', 'regexp', 'domain', 'full'];
+
+interface Field {
+  number: number;
+  wireType: number;
+  varint?: number;
+  start: number; // Start of a length-delimited value
+  end: number; // End of the whole field
+}
+
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  let multiplier = 1;
+  for (;;) {
+    if (offset >= bytes.length) throw new Error('Invalid geosite.dat: truncated varint.');
+    const byte = bytes[offset++];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) return [value, offset];
+    multiplier *= 128;
+  }
+};
+
+const readFields = (bytes: Uint8Array, start: number, end: number): Field[] => {
+  const fields: Field[] = [];
+  let offset = start;
+  while (offset < end) {
+    const [key, afterKey] = readVarint(bytes, offset);
+    const field: Field = { number: Math.floor(key / 8), wireType: key & 0x7, start: afterKey, end: afterKey };
+    switch (field.wireType) {
+      case 0:
+        [field.varint, field.end] = readVarint(bytes, afterKey);
+        break;
+      case 1:
+        field.end = afterKey + 8;
+        break;
+      case 2: {
+        const [length, afterLength] = readVarint(bytes, afterKey);
+        field.start = afterLength;
+        field.end = afterLength + length;
+        break;
+      }
+      case 5:
+        field.end = afterKey + 4;
+        break;
+      default:
+        throw new Error(`Invalid geosite.dat: unsupported wire type ${field.wireType} at offset ${offset}.`);
+    }
+    if (field.end > end) throw new Error(`Invalid geosite.dat: field at offset ${offset} overruns its message.`);
+    fields.push(field);
+    offset = field.end;
+  }
+  return fields;
+};
+
+const decodeString = (bytes: Uint8Array, field: Field): string =>
+  new TextDecoder().decode(bytes.subarray(field.start, field.end));
+
+const decodeDomain = (bytes: Uint8Array, field: Field): GeoSiteDomain => {
+  const domain: GeoSiteDomain = { type: 'keyword', value: '', attributes: [] };
+  for (const inner of readFields(bytes, field.start, field.end)) {
+    if (inner.number === 1 && inner.wireType === 0) {
+      domain.type = DOMAIN_TYPES[inner.varint!] ?? 'keyword';
+    } else if (inner.number === 2 && inner.wireType === 2) {
+      domain.value = decodeString(bytes, inner).toLowerCase();
+    } else if (inner.number === 3 && inner.wireType === 2) {
+      const key = readFields(bytes, inner.start, inner.end).find(f => f.number === 1 && f.wireType === 2);
+      if (key) domain.attributes.push(decodeString(bytes, key).toLowerCase());
+    }
+  }
+  return domain;
+};
+
+export const formatGeoSiteDomain = (domain: GeoSiteDomain): string =>
+  `${domain.type}:${domain.value}${domain.attributes.map(a => `@${a}`).join('')}`;
+
+export const isGeoSiteDomainMatch = (lowerCaseDomain: string, entry: GeoSiteDomain): boolean => {
+  switch (entry.type) {
+    case 'full':
+      return lowerCaseDomain === entry.value;
+    case 'domain':
+      return lowerCaseDomain === entry.value || lowerCaseDomain.endsWith(`.${entry.value}`);
+    case 'keyword':
+      return lowerCaseDomain.includes(entry.value);
+    case 'regexp':
+      try {
+        return new RegExp(entry.value).test(lowerCaseDomain);
+      } catch {
+        return false;
+      }
+  }
+};
+
+/**
+ * Opens a geosite.dat file. Categories are indexed up front and decoded on first use.
+ * @param bytes The raw file contents.
+ * @throws Throws an error if the file is not a valid GeoSiteList.
+ */
+export const openGeoSite = (bytes: Uint8Array): GeoSiteDatabase => {
+  const index = new Map<string, Field>();
+  for (const entry of readFields(bytes, 0, bytes.length)) {
+    if (entry.number !== 1 || entry.wireType !== 2) continue;
+    const code = readFields(bytes, entry.start, entry.end).find(f => f.number === 1 && f.wireType === 2);
+    if (code) index.set(decodeString(bytes, code).toLowerCase(), entry);
+  }
+  if (index.size === 0) {
+    throw new Error('Invalid geosite.dat: no categories found.');
+  }
+
+  const decoded = new Map<string, GeoSiteDomain[]>();
+  const getCategory = (code: string): GeoSiteDomain[] | null => {
+    const key = code.toLowerCase();
+    const entry = index.get(key);
+    if (!entry) return null;
+    if (!decoded.has(key)) {
+      decoded.set(key, readFields(bytes, entry.start, entry.end)
+        .filter(f => f.number === 2 && f.wireType === 2)
+        .map(f => decodeDomain(bytes, f)));
+    }
+    return decoded.get(key)!;
+  };
+
+  const match = (domain: string, code: string): GeoSiteDomain | null => {
+    const [category, ...attributes] = code.toLowerCase().split('@');
+    const domains = getCategory(category);
+    if (!domains) {
+      throw new Error(`GEOSITE category "${category}" not found in geosite.dat.`);
+    }
+    const lowerCaseDomain = domain.toLowerCase();
+    return domains.find(entry =>
+      attributes.every(a => entry.attributes.includes(a)) && isGeoSiteDomainMatch(lowerCaseDomain, entry)
+    ) ?? null;
+  };
+
+  return { categories: [...index.keys()], getCategory, match };
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { buildTestGeoSite } = await import('./testing/geositeBuilder');
+
+  describe('openGeoSite', () => {
+    const database = openGeoSite(buildTestGeoSite({
+      GOOGLE: [
+        { type: 'domain', value: 'google.com' },
+        { type: 'full', value: 'www.google.cn', attributes: ['cn'] },
+        { type: 'domain', value: 'googleapis.cn', attributes: ['cn', 'ads'] },
+      ],
+      CATEGORY_ADS: [
+        { type: 'keyword', value: 'doubleclick' },
+        { type: 'regexp', value: '^ad[0-9]+\\.example\\.com$' },
+      ],
+    }));
+
+    it('should list categories in lower case', () => {
+      expect(database.categories).toEqual(['google', 'category_ads']);
+    });
+
+    it('should decode the domains of a category', () => {
+      expect(database.getCategory('Google')).toHaveLength(3);
+      expect(database.getCategory('missing')).toBeNull();
+    });
+
+    it('should match each domain type', () => {
+      expect(database.match('mail.google.com', 'google')?.value).toBe('google.com');
+      expect(database.match('www.google.cn', 'google')?.type).toBe('full');
+      expect(database.match('ads.doubleclick.net', 'category_ads')?.type).toBe('keyword');
+      expect(database.match('ad42.example.com', 'category_ads')?.type).toBe('regexp');
+      expect(database.match('example.com', 'category_ads')).toBeNull();
+    });
+
+    it('should filter entries by attributes', () => {
+      expect(database.match('mail.google.com', 'google@cn')).toBeNull();
+      expect(database.match('www.google.cn', 'google@cn')?.value).toBe('www.google.cn');
+      expect(database.match('www.google.cn', 'google@cn@ads')).toBeNull();
+      expect(database.match('x.googleapis.cn', 'google@cn@ads')?.value).toBe('googleapis.cn');
+    });
+
+    it('should throw for unknown categories', () => {
+      expect(() => database.match('a.com', 'nope')).toThrow(/nope/);
+    });
+
+    it('should format entries', () => {
+      expect(formatGeoSiteDomain({ type: 'full', value: 'www.google.cn', attributes: ['cn'] })).toBe('full:www.google.cn@cn');
+    });
+  });
+}
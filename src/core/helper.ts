@@ -47,25 +47,209 @@ export const isDomainSuffixMatch = (domainToMatch: string, rule: string): boolea
     return lowerCaseDomain === lowerCaseRule || lowerCaseDomain.endsWith(`.${lowerCaseRule}`);
 };
 
-export const matchDomainRule = (domain: string, rule: string): boolean => {
-    const parts = rule.split(',');
-    if (parts.length < 2) return false;
+// Rule types that only look at the domain, matched the same way in `rules`, `sub-rules` and classical providers.
+export const DOMAIN_RULE_TYPES = ['DOMAIN', 'DOMAIN-SUFFIX', 'DOMAIN-KEYWORD', 'DOMAIN-REGEX', 'DOMAIN-WILDCARD'];
 
-    const ruleType = parts[0].toUpperCase();
-    const value = parts[1];
-    const lowerCaseDomain = domain.toLowerCase();
+// Compiled DOMAIN-REGEX and DOMAIN-WILDCARD payloads, so batches don't compile them for every domain.
+const domainPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Compiles the payload of a DOMAIN-REGEX rule, searched anywhere in the domain and ignoring case like mihomo,
+ * or of a DOMAIN-WILDCARD rule, where `*` matches any run of characters, dots included, and `?` exactly one.
+ * @returns The pattern, or null if the regex is invalid.
+ */
+export const compileDomainPattern = (ruleType: 'DOMAIN-REGEX' | 'DOMAIN-WILDCARD', value: string): RegExp | null => {
+    const key = `${ruleType},${value}`;
+    if (!domainPatterns.has(key)) {
+        let pattern: RegExp | null;
+        if (ruleType === 'DOMAIN-WILDCARD') {
+            const source = value.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+            pattern = new RegExp(`^${source}$`, 'i');
+        } else {
+            try {
+                pattern = new RegExp(value, 'i');
+            } catch {
+                pattern = null;
+            }
+        }
+        domainPatterns.set(key, pattern);
+    }
+    return domainPatterns.get(key)!;
+};
 
+/**
+ * Checks a domain against a domain rule, following mihomo:
+ * - `DOMAIN`: the whole domain, ignoring case.
+ * - `DOMAIN-SUFFIX`: the domain itself or any subdomain, on label boundaries.
+ * - `DOMAIN-KEYWORD`: any substring.
+ * - `DOMAIN-REGEX` and `DOMAIN-WILDCARD`: see compileDomainPattern; an invalid regex never matches.
+ * @param ruleType One of DOMAIN_RULE_TYPES, upper case; other types never match.
+ */
+export const isDomainRuleMatch = (ruleType: string, value: string, domain: string): boolean => {
+    const lowerCaseDomain = domain.toLowerCase();
+    const lowerCaseValue = value.trim().toLowerCase();
     switch (ruleType) {
-        case 'DOMAIN-SUFFIX':
-            return isDomainSuffixMatch(lowerCaseDomain, value);
         case 'DOMAIN':
-            return lowerCaseDomain === value.toLowerCase();
+            return lowerCaseDomain === lowerCaseValue;
+        case 'DOMAIN-SUFFIX':
+            return isDomainSuffixMatch(lowerCaseDomain, lowerCaseValue);
         case 'DOMAIN-KEYWORD':
-            return lowerCaseDomain.includes(value.toLowerCase());
+            return lowerCaseDomain.includes(lowerCaseValue);
+        case 'DOMAIN-REGEX':
+        case 'DOMAIN-WILDCARD':
+            return compileDomainPattern(ruleType, value.trim())?.test(lowerCaseDomain) ?? false;
         default:
             return false;
     }
+};
+
+/**
+ * Checks a port against a mihomo port payload such as `443`, `8000-9000` or `80/443/8000-9000`.
+ */
+export const isPortMatch = (port: number, rule: string): boolean => {
+    return rule.split('/').some(part => {
+        const [from, to] = part.trim().split('-').map(p => p.trim());
+        const start = Number(from);
+        const end = to === undefined ? start : Number(to);
+        if (!from || Number.isNaN(start) || Number.isNaN(end)) return false;
+        return port >= start && port <= end;
+    });
+};
+
+/**
+ * Checks a value against a `/`-separated list such as the payload of `IN-TYPE,HTTP/SOCKS5`.
+ */
+export const isListMatch = (value: string, rule: string, caseSensitive: boolean = false): boolean => {
+    return rule.split('/').some(item => caseSensitive
+        ? item.trim() === value
+        : item.trim().toLowerCase() === value.toLowerCase());
+};
+
+/**
+ * Parses an IPv4 or IPv6 address into its network-order bytes.
+ * @returns 4 bytes for IPv4, 16 bytes for IPv6, or null if the address is invalid.
+ */
+export const parseIpBytes = (ip: string): Uint8Array | null => {
+    const address = ip.trim();
+    if (!address.includes(':')) {
+        const octets = address.split('.');
+        if (octets.length !== 4) return null;
+        const bytes = new Uint8Array(4);
+        for (let i = 0; i < 4; i++) {
+            if (!/^\d{1,3}$/.test(octets[i])) return null;
+            const value = Number(octets[i]);
+            if (value > 255) return null;
+            bytes[i] = value;
+        }
+        return bytes;
+    }
+
+    // Strip a zone index such as fe80::1%eth0
+    let rest = address.split('%')[0];
+    const bytes = new Uint8Array(16);
+
+    // Rewrite an embedded IPv4 address as two groups, e.g. ::ffff:1.2.3.4 -> ::ffff:102:304
+    const lastColon = rest.lastIndexOf(':');
+    const lastPart = rest.substring(lastColon + 1);
+    if (lastPart.includes('.')) {
+        const ipv4 = parseIpBytes(lastPart);
+        if (!ipv4) return null;
+        rest = `${rest.substring(0, lastColon + 1)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+    }
+
+    const halves = rest.split('::');
+    if (halves.length > 2) return null;
+    const parseGroups = (part: string): number[] | null => {
+        if (part === '') return [];
+        const groups = part.split(':');
+        if (groups.some(g => !/^[0-9a-fA-F]{1,4}$/.test(g))) return null;
+        return groups.map(g => parseInt(g, 16));
+    };
+    const head = parseGroups(halves[0]);
+    const middle = halves.length === 2 ? parseGroups(halves[1]) : [];
+    if (!head || !middle) return null;
+    const total = head.length + middle.length;
+    if (halves.length === 1 ? total !== 8 : total > 7) return null;
+
+    const groups = [...head, ...new Array(8 - total).fill(0), ...middle];
+    groups.forEach((group, i) => {
+        bytes[i * 2] = group >> 8;
+        bytes[i * 2 + 1] = group & 0xff;
+    });
+    return bytes;
+};
+
+export interface ParsedCidr {
+    bytes: Uint8Array;
+    prefixLength: number;
 }
+
+/**
+ * Parses a CIDR such as `10.0.0.0/8` or `2001:db8::/32`.
+ * @returns The network bytes and prefix length, or null if the CIDR is invalid.
+ */
+export const parseCidr = (cidr: string): ParsedCidr | null => {
+    const [address, prefix, ...rest] = cidr.trim().split('/');
+    if (rest.length > 0 || prefix === undefined || !/^\d{1,3}$/.test(prefix)) return null;
+    const bytes = parseIpBytes(address);
+    const prefixLength = Number(prefix);
+    if (!bytes || prefixLength > bytes.length * 8) return null;
+    return { bytes, prefixLength };
+};
+
+const bitAt = (bytes: Uint8Array, index: number): number => (bytes[index >> 3] >> (7 - (index & 7))) & 1;
+
+/**
+ * Unwraps an IPv4-mapped IPv6 address such as `::ffff:10.0.0.1` to its IPv4 bytes.
+ */
+export const unmapIpBytes = (bytes: Uint8Array): Uint8Array => {
+    const isMapped = bytes.length === 16
+        && bytes.subarray(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+    return isMapped ? bytes.subarray(12) : bytes;
+};
+
+/**
+ * Checks whether an IP address is inside a CIDR. Addresses only match CIDRs of their own family,
+ * except IPv4-mapped IPv6 addresses, which match IPv4 CIDRs like mihomo does.
+ */
+export const isCidrMatch = (ip: string, cidr: ParsedCidr): boolean => {
+    const parsed = parseIpBytes(ip);
+    if (!parsed) return false;
+    const bytes = cidr.bytes.length === 4 ? unmapIpBytes(parsed) : parsed;
+    if (bytes.length !== cidr.bytes.length) return false;
+    for (let i = 0; i < cidr.prefixLength; i++) {
+        if (bitAt(bytes, i) !== bitAt(cidr.bytes, i)) return false;
+    }
+    return true;
+};
+
+/**
+ * Checks whether every address in `inner` is also in `outer`.
+ */
+export const isCidrWithin = (inner: ParsedCidr, outer: ParsedCidr): boolean => {
+    if (inner.bytes.length !== outer.bytes.length || inner.prefixLength < outer.prefixLength) return false;
+    for (let i = 0; i < outer.prefixLength; i++) {
+        if (bitAt(inner.bytes, i) !== bitAt(outer.bytes, i)) return false;
+    }
+    return true;
+};
+
+/**
+ * Checks the last bits of an IP address, as in mihomo's `IP-SUFFIX,8.8.8.8/24`,
+ * which matches every address ending in 8.8.8.
+ */
+export const isIpSuffixMatch = (ip: string, suffix: ParsedCidr): boolean => {
+    const parsed = parseIpBytes(ip);
+    if (!parsed) return false;
+    const bytes = suffix.bytes.length === 4 ? unmapIpBytes(parsed) : parsed;
+    if (bytes.length !== suffix.bytes.length) return false;
+    const bitCount = bytes.length * 8;
+    for (let i = bitCount - suffix.prefixLength; i < bitCount; i++) {
+        if (bitAt(bytes, i) !== bitAt(suffix.bytes, i)) return false;
+    }
+    return true;
+};
+
 if (import.meta.vitest) {
     const { describe, it, expect } = import.meta.vitest
 
@@ -165,6 +349,110 @@ if (import.meta.vitest) {
         });
     });
 
-}
+    describe('isPortMatch', () => {
+        it('should match a single port', () => {
+            expect(isPortMatch(443, '443')).toBe(true);
+            expect(isPortMatch(80, '443')).toBe(false);
+        });
+
+        it('should match an inclusive range', () => {
+            expect(isPortMatch(8000, '8000-9000')).toBe(true);
+            expect(isPortMatch(9000, '8000-9000')).toBe(true);
+            expect(isPortMatch(9001, '8000-9000')).toBe(false);
+        });
+
+        it('should match any item of a "/" list', () => {
+            expect(isPortMatch(443, '80/443/8000-9000')).toBe(true);
+            expect(isPortMatch(8500, '80/443/8000-9000')).toBe(true);
+            expect(isPortMatch(22, '80/443/8000-9000')).toBe(false);
+        });
+
+        it('should not match invalid payloads', () => {
+            expect(isPortMatch(0, '')).toBe(false);
+            expect(isPortMatch(80, 'http')).toBe(false);
+        });
+    });
+
+    describe('isListMatch', () => {
+        it('should match any item case-insensitively by default', () => {
+            expect(isListMatch('socks5', 'HTTP/SOCKS5')).toBe(true);
+            expect(isListMatch('tun', 'HTTP/SOCKS5')).toBe(false);
+        });
+
+        it('should honour case sensitivity when requested', () => {
+            expect(isListMatch('Alice', 'alice/bob', true)).toBe(false);
+            expect(isListMatch('alice', 'alice/bob', true)).toBe(true);
+        });
+    });
+
+    describe('parseIpBytes', () => {
+        it('should parse IPv4 addresses', () => {
+            expect(Array.from(parseIpBytes('192.168.1.20')!)).toEqual([192, 168, 1, 20]);
+        });
+
+        it('should reject invalid IPv4 addresses', () => {
+            expect(parseIpBytes('256.1.1.1')).toBeNull();
+            expect(parseIpBytes('1.2.3')).toBeNull();
+            expect(parseIpBytes('www.google.com')).toBeNull();
+        });
+
+        it('should parse compressed IPv6 addresses', () => {
+            expect(Array.from(parseIpBytes('2001:db8::1')!)).toEqual([0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+            expect(Array.from(parseIpBytes('::')!)).toEqual(new Array(16).fill(0));
+        });
 
+        it('should parse IPv6 addresses with an embedded IPv4 address', () => {
+            expect(Array.from(parseIpBytes('::ffff:1.2.3.4')!)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, 1, 2, 3, 4]);
+        });
+
+        it('should reject invalid IPv6 addresses', () => {
+            expect(parseIpBytes('1::2::3')).toBeNull();
+            expect(parseIpBytes('1:2:3:4:5:6:7')).toBeNull();
+            expect(parseIpBytes('12345::1')).toBeNull();
+        });
+    });
+
+    describe('parseCidr', () => {
+        it('should parse IPv4 and IPv6 CIDRs', () => {
+            expect(parseCidr('10.0.0.0/8')?.prefixLength).toBe(8);
+            expect(parseCidr('2001:db8::/32')?.bytes.length).toBe(16);
+        });
+        it('should reject invalid CIDRs', () => {
+            expect(parseCidr('10.0.0.1')).toBeNull();
+            expect(parseCidr('10.0.0.0/33')).toBeNull();
+            expect(parseCidr('not-a-cidr/8')).toBeNull();
+        });
+    });
+
+    describe('isCidrMatch', () => {
+        it('should match addresses inside the CIDR', () => {
+            expect(isCidrMatch('10.1.2.3', parseCidr('10.0.0.0/8')!)).toBe(true);
+            expect(isCidrMatch('11.1.2.3', parseCidr('10.0.0.0/8')!)).toBe(false);
+            expect(isCidrMatch('2001:db8::1', parseCidr('2001:db8::/32')!)).toBe(true);
+        });
+        it('should only match addresses of the same family', () => {
+            expect(isCidrMatch('2001:db8::1', parseCidr('0.0.0.0/0')!)).toBe(false);
+            expect(isCidrMatch('1.2.3.4', parseCidr('::/0')!)).toBe(false);
+        });
+        it('should match IPv4-mapped addresses against IPv4 CIDRs', () => {
+            expect(isCidrMatch('::ffff:10.0.0.1', parseCidr('10.0.0.0/8')!)).toBe(true);
+        });
+    });
+
+    describe('isCidrWithin', () => {
+        it('should check that one CIDR contains another', () => {
+            expect(isCidrWithin(parseCidr('10.1.0.0/16')!, parseCidr('10.0.0.0/8')!)).toBe(true);
+            expect(isCidrWithin(parseCidr('10.0.0.0/8')!, parseCidr('10.1.0.0/16')!)).toBe(false);
+            expect(isCidrWithin(parseCidr('::/96')!, parseCidr('0.0.0.0/0')!)).toBe(false);
+        });
+    });
 
+    describe('isIpSuffixMatch', () => {
+        it('should compare the last bits of the address', () => {
+            expect(isIpSuffixMatch('1.8.8.8', parseCidr('8.8.8.8/24')!)).toBe(true);
+            expect(isIpSuffixMatch('8.8.8.9', parseCidr('8.8.8.8/24')!)).toBe(false);
+            expect(isIpSuffixMatch('2001:db8::1', parseCidr('::1/16')!)).toBe(true);
+        });
+    });
+
+}
@@ -0,0 +1,167 @@
+import { matchDomains } from './batch';
+import type { BatchRow } from './batch';
+import { diffConfigs } from './configDiff';
+import type { ConfigDiff } from './configDiff';
+import { parseConfig } from './configParser';
+import type { ClashConfig, RuleProvider } from './configParser';
+import { createResolverFromSettings } from './dns';
+import type { ResolverSettings } from './dns';
+import { openGeoDatabases } from './geoData';
+import type { GeoDatabases, GeoFiles } from './geoData';
+import type { GroupSelections } from './policyResolver';
+import { explainMatch, findProviderMatches, loadProviderEntries, matchDomain } from './ruleMatcher';
+import type { ConnectionMetadata, MatchExplanation, MatchOptions, MatchProgress, MatchResult, ProviderMatches, RuleTrace } from './ruleMatcher';
+import type { NetworkSettings } from './settings';
+import { replayTraffic } from './trafficReplay';
+import type { ReplayRow, TrafficRecord } from './trafficReplay';
+
+// The typed protocol between the UI and the matching worker, and the worker's side of a run.
+// Everything here is plain data, so it can be posted between threads.
+
+// What every run needs besides its config: set once and updated when the user changes it.
+export interface MatchEnvironment {
+  network: NetworkSettings;
+  dns: ResolverSettings;
+  geoFiles: GeoFiles;
+  providerFiles: Record<string, string[]>; // Contents of `type: file` providers, by provider name
+}
+
+export type MatchJob =
+  | { kind: 'match'; configYaml: string; metadata: ConnectionMetadata; selections: GroupSelections; explain: boolean }
+  | { kind: 'rule'; configYaml: string; ruleIndex: number; metadata: ConnectionMetadata; selections: GroupSelections } // One rule of `rules`, on its own
+  | { kind: 'batch'; configYaml: string; domains: string[]; selections: GroupSelections }
+  | { kind: 'diff'; oldConfigYaml: string; configYaml: string; domains: string[]; selections: GroupSelections }
+  | { kind: 'replay'; configYaml: string; records: TrafficRecord[]; selections: GroupSelections }
+  | { kind: 'providerEntries'; configYaml: string; name: string }
+  | { kind: 'providerMatches'; configYaml: string; name: string; host: string; selections: GroupSelections };
+
+export type MatchJobResult =
+  | { kind: 'match'; config: ClashConfig; result: MatchResult | null; explanation?: MatchExplanation }
+  | { kind: 'rule'; rule: string; trace: RuleTrace }
+  | { kind: 'batch'; rows: BatchRow[] }
+  | { kind: 'diff'; diff: ConfigDiff }
+  | { kind: 'replay'; rows: ReplayRow[] }
+  | { kind: 'providerEntries'; behavior: string; rules: string[] }
+  | { kind: 'providerMatches'; matches: ProviderMatches };
+
+export type MatchWorkerRequest =
+  | { type: 'configure'; environment: Partial<MatchEnvironment> } // The settings that changed; GEO and provider files only when they did
+  | { type: 'run'; id: number; job: MatchJob }
+  | { type: 'cancel'; id: number };
+
+export type MatchWorkerResponse =
+  | { type: 'progress'; id: number; progress: MatchProgress }
+  | { type: 'done'; id: number; result: MatchJobResult }
+  | { type: 'error'; id: number; message: string; cancelled: boolean };
+
+/**
+ * Turns an environment into match options. Invalid static DNS mappings fall back to DoH,
+ * as they do in the UI, which reports them.
+ */
+export const createEnvironmentOptions = (environment: MatchEnvironment, geo: GeoDatabases = openGeoDatabases(environment.geoFiles)): MatchOptions => {
+  let resolver;
+  try {
+    resolver = createResolverFromSettings(environment.dns);
+  } catch {
+    resolver = undefined;
+  }
+  return {
+    geo,
+    resolver,
+    loadProvider: async (name: string, provider: RuleProvider) =>
+      (provider.type === 'file' ? environment.providerFiles[name] ?? null : null),
+  };
+};
+
+/**
+ * Runs one job: parses the config, loads providers and matches.
+ * @param options Options from createEnvironmentOptions, plus the run's signal and progress callback.
+ */
+export const runMatchJob = async (job: MatchJob, options: MatchOptions): Promise<MatchJobResult> => {
+  const config = parseConfig(job.configYaml);
+  const runOptions: MatchOptions = { ...options, selections: 'selections' in job ? job.selections : undefined };
+  // Batches, comparisons and replays report the domains or connections done.
+  const reportDone = (done: number, total: number) => options.onProgress?.({ kind: 'domain', done, total });
+  switch (job.kind) {
+    case 'batch':
+      return { kind: 'batch', rows: await matchDomains(config, job.domains, runOptions, reportDone) };
+    case 'diff':
+      return { kind: 'diff', diff: await diffConfigs(parseConfig(job.oldConfigYaml), config, job.domains, runOptions, reportDone) };
+    case 'replay':
+      return { kind: 'replay', rows: await replayTraffic(config, job.records, runOptions, reportDone) };
+    case 'providerEntries': {
+      const rules = await loadProviderEntries(config, job.name, runOptions);
+      return { kind: 'providerEntries', behavior: config['rule-providers']?.[job.name]?.behavior ?? 'classical', rules };
+    }
+    case 'providerMatches':
+      return { kind: 'providerMatches', matches: await findProviderMatches(config, job.name, job.host, runOptions) };
+    case 'rule': {
+      const rule = String(config.rules?.[job.ruleIndex] ?? '');
+      const { trace } = await explainMatch({ ...config, rules: [rule] }, job.metadata, runOptions);
+      return { kind: 'rule', rule, trace: trace[0] };
+    }
+    default:
+      if (job.explain) {
+        const explanation = await explainMatch(config, job.metadata, runOptions);
+        return { kind: 'match', config, result: explanation.result, explanation };
+      }
+      return { kind: 'match', config, result: await matchDomain(config, job.metadata, runOptions) };
+  }
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { DEFAULT_NETWORK_SETTINGS } = await import('./settings');
+
+  const environment: MatchEnvironment = {
+    network: DEFAULT_NETWORK_SETTINGS,
+    dns: { mode: 'static', mappings: 'www.example.com 10.0.0.1' },
+    geoFiles: {},
+    providerFiles: { lan: ['IP-CIDR,10.0.0.0/8'] },
+  };
+  const configYaml = [
+    'rule-providers:',
+    '  lan: { type: file, behavior: classical, path: ./lan.txt }',
+    'rules:',
+    '  - RULE-SET,lan,DIRECT',
+    '  - MATCH,PROXY',
+  ].join('\n');
+
+  describe('runMatchJob', () => {
+    it('should match with the environment\'s resolver and provider files', async () => {
+      const progress: MatchProgress[] = [];
+      const options = { ...createEnvironmentOptions(environment), onProgress: (p: MatchProgress) => progress.push(p) };
+      const job: MatchJob = { kind: 'match', configYaml, metadata: { host: 'www.example.com' }, selections: {}, explain: true };
+      const outcome = await runMatchJob(job, options);
+      expect(outcome.kind === 'match' && outcome.result?.finalPolicy).toBe('DIRECT');
+      expect(outcome.kind === 'match' && outcome.explanation?.trace).toHaveLength(2);
+      expect(progress).toContainEqual({ kind: 'provider', name: 'lan', entryCount: 1 });
+    });
+
+    it('should run batches and report domains done', async () => {
+      const progress: MatchProgress[] = [];
+      const options = { ...createEnvironmentOptions(environment), onProgress: (p: MatchProgress) => progress.push(p) };
+      const outcome = await runMatchJob({ kind: 'batch', configYaml, domains: ['www.example.com', 'other.example.com'], selections: {} }, options);
+      expect(outcome.kind === 'batch' && outcome.rows.map(r => r.result?.finalPolicy)).toEqual(['DIRECT', 'PROXY']);
+      expect(progress.filter(p => p.kind === 'domain')).toEqual([{ kind: 'domain', done: 1, total: 2 }, { kind: 'domain', done: 2, total: 2 }]);
+    });
+
+    it('should run comparisons, rule tests and provider lookups', async () => {
+      const options = createEnvironmentOptions(environment);
+      const diff = await runMatchJob(
+        { kind: 'diff', oldConfigYaml: 'rules:\n  - MATCH,PROXY', configYaml, domains: ['www.example.com'], selections: {} },
+        options,
+      );
+      expect(diff.kind === 'diff' && diff.diff.changes.map(c => c.newPolicy)).toEqual(['DIRECT']);
+
+      const rule = await runMatchJob({ kind: 'rule', configYaml, ruleIndex: 0, metadata: { host: 'www.example.com' }, selections: {} }, options);
+      expect(rule.kind === 'rule' && [rule.rule, rule.trace.matched]).toEqual(['RULE-SET,lan,DIRECT', true]);
+
+      const entries = await runMatchJob({ kind: 'providerEntries', configYaml, name: 'lan' }, options);
+      expect(entries).toEqual({ kind: 'providerEntries', behavior: 'classical', rules: ['IP-CIDR,10.0.0.0/8'] });
+
+      const matches = await runMatchJob({ kind: 'providerMatches', configYaml, name: 'lan', host: 'www.example.com', selections: {} }, options);
+      expect(matches.kind === 'providerMatches' && matches.matches.entries).toEqual([{ index: 0, entry: 'IP-CIDR,10.0.0.0/8' }]);
+    });
+  });
+}
@@ -0,0 +1,239 @@
+import { parseIpBytes } from './helper';
+
+// A reader for MaxMind DB files such as Country.mmdb and GeoLite2-ASN.mmdb.
+// Format: https://maxmind.github.io/MaxMind-DB/
+
+export interface MmdbMetadata {
+  nodeCount: number;
+  recordSize: number;
+  ipVersion: number;
+  databaseType: string;
+}
+
+export interface MmdbReader {
+  metadata: MmdbMetadata;
+  /**
+   * Looks up the record for an IP address.
+   * @returns The decoded record, or null if the address is not in the database.
+   */
+  lookup: (ip: string) => unknown;
+}
+
+const METADATA_MARKER = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', c => c.charCodeAt(0))];
+const DATA_SECTION_SEPARATOR_SIZE = 16;
+
+const findMetadataStart = (bytes: Uint8Array): number => {
+  // The marker is within the last 128KiB of the file.
+  const lowerBound = Math.max(0, bytes.length - 128 * 1024);
+  for (let i = bytes.length - METADATA_MARKER.length; i >= lowerBound; i--) {
+    if (METADATA_MARKER.every((b, j) => bytes[i + j] === b)) {
+      return i + METADATA_MARKER.length;
+    }
+  }
+  return -1;
+};
+
+const readUint = (bytes: Uint8Array, offset: number, size: number): number => {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+};
+
+/**
+ * Decodes the data field at `offset`.
+ * @param pointerBase Offset that pointers are relative to, i.e. the start of the section.
+ * @returns The decoded value and the offset right after the field.
+ */
+const decodeField = (bytes: Uint8Array, offset: number, pointerBase: number): [unknown, number] => {
+  const control = bytes[offset++];
+  let type = control >> 5;
+
+  if (type === 1) { // pointer
+    const sizeBits = (control >> 3) & 0x3;
+    const valueBits = control & 0x7;
+    let pointer: number;
+    if (sizeBits === 0) {
+      pointer = valueBits * 0x100 + bytes[offset];
+    } else if (sizeBits === 1) {
+      pointer = valueBits * 0x10000 + readUint(bytes, offset, 2) + 2048;
+    } else if (sizeBits === 2) {
+      pointer = valueBits * 0x1000000 + readUint(bytes, offset, 3) + 526336;
+    } else {
+      pointer = readUint(bytes, offset, 4);
+    }
+    const [value] = decodeField(bytes, pointerBase + pointer, pointerBase);
+    return [value, offset + sizeBits + 1];
+  }
+
+  if (type === 0) { // extended type
+    type = 7 + bytes[offset++];
+  }
+
+  let size = control & 0x1f;
+  if (size === 29) {
+    size = 29 + bytes[offset++];
+  } else if (size === 30) {
+    size = 285 + readUint(bytes, offset, 2);
+    offset += 2;
+  } else if (size === 31) {
+    size = 65821 + readUint(bytes, offset, 3);
+    offset += 3;
+  }
+
+  switch (type) {
+    case 2: // utf8 string
+      return [new TextDecoder().decode(bytes.subarray(offset, offset + size)), offset + size];
+    case 3: // double
+      return [new DataView(bytes.buffer, bytes.byteOffset + offset, 8).getFloat64(0), offset + 8];
+    case 4: // bytes
+      return [bytes.slice(offset, offset + size), offset + size];
+    case 5: // uint16
+    case 6: // uint32
+    case 8: // int32
+      return [readUint(bytes, offset, size), offset + size];
+    case 9: // uint64
+    case 10: { // uint128
+      let value = 0n;
+      for (let i = 0; i < size; i++) {
+        value = (value << 8n) | BigInt(bytes[offset + i]);
+      }
+      return [value, offset + size];
+    }
+    case 7: { // map
+      const map: { [key: string]: unknown } = {};
+      for (let i = 0; i < size; i++) {
+        const [key, afterKey] = decodeField(bytes, offset, pointerBase);
+        const [value, afterValue] = decodeField(bytes, afterKey, pointerBase);
+        map[String(key)] = value;
+        offset = afterValue;
+      }
+      return [map, offset];
+    }
+    case 11: { // array
+      const array: unknown[] = [];
+      for (let i = 0; i < size; i++) {
+        const [value, next] = decodeField(bytes, offset, pointerBase);
+        array.push(value);
+        offset = next;
+      }
+      return [array, offset];
+    }
+    case 14: // boolean, stored in the size bits
+      return [size !== 0, offset];
+    case 15: // float
+      return [new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getFloat32(0), offset + 4];
+    default:
+      throw new Error(`Unsupported MMDB data type ${type} at offset ${offset - 1}.`);
+  }
+};
+
+/**
+ * Opens a MaxMind DB file.
+ * @param bytes The raw file contents.
+ * @returns A reader for looking up IP addresses.
+ * @throws Throws an error if the file is not a valid MaxMind DB.
+ */
+export const openMmdb = (bytes: Uint8Array): MmdbReader => {
+  const metadataStart = findMetadataStart(bytes);
+  if (metadataStart === -1) {
+    throw new Error('Invalid MMDB file: metadata marker not found.');
+  }
+
+  const [rawMetadata] = decodeField(bytes, metadataStart, metadataStart);
+  const meta = rawMetadata as { [key: string]: unknown };
+  const metadata: MmdbMetadata = {
+    nodeCount: Number(meta.node_count),
+    recordSize: Number(meta.record_size),
+    ipVersion: Number(meta.ip_version),
+    databaseType: String(meta.database_type ?? ''),
+  };
+  if (![24, 28, 32].includes(metadata.recordSize) || !metadata.nodeCount) {
+    throw new Error(`Invalid MMDB file: unsupported record size ${metadata.recordSize}.`);
+  }
+
+  const { nodeCount, recordSize } = metadata;
+  const nodeBytes = recordSize / 4;
+  const treeSize = nodeCount * nodeBytes;
+  const dataSectionStart = treeSize + DATA_SECTION_SEPARATOR_SIZE;
+
+  const readRecord = (node: number, bit: number): number => {
+    const base = node * nodeBytes;
+    if (recordSize === 24) {
+      return readUint(bytes, base + bit * 3, 3);
+    }
+    if (recordSize === 28) {
+      const middle = bytes[base + 3];
+      return bit === 0
+        ? ((middle & 0xf0) >> 4) * 0x1000000 + readUint(bytes, base, 3)
+        : (middle & 0x0f) * 0x1000000 + readUint(bytes, base + 4, 3);
+    }
+    return readUint(bytes, base + bit * 4, 4);
+  };
+
+  // IPv4 addresses live under ::/96 in IPv6 databases.
+  let ipv4Start = 0;
+  if (metadata.ipVersion === 6) {
+    for (let i = 0; i < 96 && ipv4Start < nodeCount; i++) {
+      ipv4Start = readRecord(ipv4Start, 0);
+    }
+  }
+
+  const lookup = (ip: string): unknown => {
+    const address = parseIpBytes(ip);
+    if (!address) return null;
+    if (address.length === 16 && metadata.ipVersion === 4) return null;
+
+    let node = address.length === 4 ? ipv4Start : 0;
+    const bitCount = address.length * 8;
+    for (let i = 0; i < bitCount && node < nodeCount; i++) {
+      const bit = (address[i >> 3] >> (7 - (i & 7))) & 1;
+      node = readRecord(node, bit);
+    }
+
+    if (node <= nodeCount) return null;
+    const offset = treeSize + (node - nodeCount);
+    const [value] = decodeField(bytes, offset, dataSectionStart);
+    return value;
+  };
+
+  return { metadata, lookup };
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { buildTestMmdb } = await import('./testing/mmdbBuilder');
+
+  describe('openMmdb', () => {
+    const database = buildTestMmdb('GeoLite2-Country', [
+      ['1.0.0.0/24', { country: { iso_code: 'AU' } }],
+      ['8.8.8.0/24', { country: { iso_code: 'US' } }],
+      ['114.114.0.0/16', { country: { iso_code: 'CN' } }],
+    ]);
+
+    it('should read the metadata', () => {
+      const reader = openMmdb(database);
+      expect(reader.metadata.databaseType).toBe('GeoLite2-Country');
+      expect(reader.metadata.recordSize).toBe(24);
+    });
+
+    it('should look up records for addresses inside a network', () => {
+      const reader = openMmdb(database);
+      expect(reader.lookup('8.8.8.8')).toEqual({ country: { iso_code: 'US' } });
+      expect(reader.lookup('114.114.114.114')).toEqual({ country: { iso_code: 'CN' } });
+      expect(reader.lookup('1.0.0.1')).toEqual({ country: { iso_code: 'AU' } });
+    });
+
+    it('should return null for unknown or invalid addresses', () => {
+      const reader = openMmdb(database);
+      expect(reader.lookup('9.9.9.9')).toBeNull();
+      expect(reader.lookup('2001:db8::1')).toBeNull();
+      expect(reader.lookup('not-an-ip')).toBeNull();
+    });
+
+    it('should reject files without metadata', () => {
+      expect(() => openMmdb(new Uint8Array(64))).toThrow(/metadata/);
+    });
+  });
+}
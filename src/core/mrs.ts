@@ -0,0 +1,233 @@
+import { decompress } from 'fzstd';
+
+// A decoder for mihomo's binary rule-provider format (.mrs), which stores
+// domain providers as a succinct trie and ipcidr providers as address ranges.
+// Layout, after zstd decompression:
+//   "MRS" 0x01 | behavior byte | int64 entry count | int64 extra length | extra | body
+
+export interface MrsProvider {
+  behavior: 'domain' | 'ipcidr';
+  count: number; // Entry count from the header
+  rules: string[]; // Entries in mihomo's text format, e.g. `+.google.com` or `10.0.0.0/8`
+}
+
+const MRS_MAGIC = [0x4d, 0x52, 0x53, 0x01];
+const MRS_BEHAVIORS = ['domain', 'ipcidr', 'classical'];
+
+interface MrsReader {
+  readBytes: (size: number, what: string) => Uint8Array;
+  readByte: (what: string) => number;
+  readLength: (what: string) => number; // An int64 length or count
+  readWords: (what: string) => Uint32Array; // A length-prefixed uint64 array
+}
+
+// Sequential big-endian reads over the decompressed bytes.
+const createReader = (bytes: Uint8Array): MrsReader => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const ensure = (size: number, what: string) => {
+    if (offset + size > bytes.length) {
+      throw new Error(`Invalid MRS file: truncated while reading ${what}.`);
+    }
+  };
+
+  const readBytes = (size: number, what: string): Uint8Array => {
+    ensure(size, what);
+    offset += size;
+    return bytes.subarray(offset - size, offset);
+  };
+
+  const readLength = (what: string): number => {
+    ensure(8, what);
+    const value = view.getBigInt64(offset);
+    offset += 8;
+    if (value < 0n || value > BigInt(bytes.length)) {
+      throw new Error(`Invalid MRS file: bad ${what} ${value}.`);
+    }
+    return Number(value);
+  };
+
+  // uint64 words as [high, low] 32-bit halves, to test bits without BigInt.
+  const readWords = (what: string): Uint32Array => {
+    const count = readLength(`${what} length`);
+    ensure(count * 8, what);
+    const words = new Uint32Array(count * 2);
+    for (let i = 0; i < count * 2; i++) {
+      words[i] = view.getUint32(offset + i * 4);
+    }
+    offset += count * 8;
+    return words;
+  };
+
+  return { readBytes, readByte: what => readBytes(1, what)[0], readLength, readWords };
+};
+
+// Bit i of a bitmap lives in word i / 64, counting from the least significant bit.
+const getBit = (words: Uint32Array, index: number): boolean => {
+  const word = index >> 6;
+  const bit = index & 63;
+  const half = bit < 32 ? words[word * 2 + 1] : words[word * 2];
+  return ((half >>> (bit & 31)) & 1) === 1;
+};
+
+/**
+ * Lists the keys of a succinct trie. Nodes are numbered breadth-first; each node's children
+ * are a run of 0 bits in the label bitmap closed by a 1, and the n-th 0 bit leads to node n + 1.
+ * Keys are stored reversed, e.g. `moc.elgoog.+` for `+.google.com`.
+ */
+const readDomainSet = (reader: MrsReader): string[] => {
+  const version = reader.readByte('domain set version');
+  if (version !== 1) throw new Error(`Invalid MRS file: unsupported domain set version ${version}.`);
+  const leaves = reader.readWords('leaves');
+  const labelBitmap = reader.readWords('label bitmap');
+  const labels = reader.readBytes(reader.readLength('labels length'), 'labels');
+
+  const keys: string[] = [''];
+  const domains: string[] = [];
+  let nodeId = 0;
+  let labelIndex = 0;
+  for (let bit = 0; bit < labelBitmap.length * 32 && nodeId < keys.length; bit++) {
+    if (getBit(labelBitmap, bit)) {
+      if (getBit(leaves, nodeId)) domains.push(Array.from(keys[nodeId]).reverse().join(''));
+      nodeId++;
+    } else {
+      if (labelIndex >= labels.length) throw new Error('Invalid MRS file: label bitmap exceeds the labels.');
+      keys[labelIndex + 1] = keys[nodeId] + String.fromCharCode(labels[labelIndex]);
+      labelIndex++;
+    }
+  }
+
+  // `+.google.com` is stored alongside the `google.com` it implies.
+  const entries = new Set(domains);
+  return domains.filter(domain => !entries.has(`+.${domain}`));
+};
+
+const toBigInt = (bytes: Uint8Array): bigint =>
+  bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+
+const formatAddress = (value: bigint, isIpv4: boolean): string => {
+  if (isIpv4) {
+    return [24n, 16n, 8n, 0n].map(shift => Number((value >> shift) & 0xffn)).join('.');
+  }
+  const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt(112 - i * 16)) & 0xffffn).toString(16));
+  // Compress the longest run of zero groups.
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; i++) {
+    let j = i;
+    while (j < 8 && groups[j] === '0') j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+  }
+  if (bestStart === -1) return groups.join(':');
+  return `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
+};
+
+/**
+ * Splits an inclusive address range into the fewest CIDRs covering exactly that range.
+ */
+export const rangeToCidrs = (from: bigint, to: bigint, bits: number, isIpv4: boolean): string[] => {
+  const cidrs: string[] = [];
+  let start = from;
+  while (start <= to) {
+    let size = bits;
+    // Grow the block while it stays aligned and inside the range.
+    while (size > 0) {
+      const blockSize = 1n << BigInt(bits - size + 1);
+      if (start % blockSize !== 0n || start + blockSize - 1n > to) break;
+      size--;
+    }
+    cidrs.push(`${formatAddress(start, isIpv4)}/${size}`);
+    start += 1n << BigInt(bits - size);
+  }
+  return cidrs;
+};
+
+// The bits above the IPv4 address in ::ffff:a.b.c.d.
+const IPV4_MAPPED_HIGH_BITS = 0xffffn;
+
+const readIpCidrSet = (reader: MrsReader): string[] => {
+  const version = reader.readByte('ipcidr set version');
+  if (version !== 1) throw new Error(`Invalid MRS file: unsupported ipcidr set version ${version}.`);
+  const count = reader.readLength('range count');
+  const cidrs: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const from = toBigInt(reader.readBytes(16, 'range start'));
+    const to = toBigInt(reader.readBytes(16, 'range end'));
+    // IPv4 ranges are stored as IPv4-mapped IPv6 addresses.
+    const isIpv4 = from >> 32n === IPV4_MAPPED_HIGH_BITS && to >> 32n === IPV4_MAPPED_HIGH_BITS;
+    cidrs.push(...(isIpv4
+      ? rangeToCidrs(from & 0xffffffffn, to & 0xffffffffn, 32, true)
+      : rangeToCidrs(from, to, 128, false)));
+  }
+  return cidrs;
+};
+
+/**
+ * Decodes an .mrs rule provider.
+ * @param expectedBehavior The behavior the provider is configured with, checked against the file.
+ * @throws Throws an error if the file is not a valid domain or ipcidr MRS file.
+ */
+export const decodeMrs = (bytes: Uint8Array, expectedBehavior?: string): MrsProvider => {
+  let data: Uint8Array;
+  try {
+    data = decompress(bytes);
+  } catch (e: unknown) {
+    throw new Error(`Invalid MRS file: zstd decompression failed (${e instanceof Error ? e.message : e}).`);
+  }
+
+  const reader = createReader(data);
+  const magic = reader.readBytes(4, 'header');
+  if (!MRS_MAGIC.every((b, i) => magic[i] === b)) {
+    throw new Error('Invalid MRS file: missing the "MRS" header.');
+  }
+  const behavior = MRS_BEHAVIORS[reader.readByte('behavior')];
+  if (behavior !== 'domain' && behavior !== 'ipcidr') {
+    throw new Error(`Unsupported MRS behavior "${behavior ?? 'unknown'}": only domain and ipcidr providers can be binary.`);
+  }
+  if (expectedBehavior && expectedBehavior !== behavior) {
+    throw new Error(`MRS file has behavior "${behavior}", but the provider is configured as "${expectedBehavior}".`);
+  }
+  const count = reader.readLength('entry count');
+  reader.readBytes(reader.readLength('extra length'), 'extra');
+
+  return {
+    behavior,
+    count,
+    rules: behavior === 'domain' ? readDomainSet(reader) : readIpCidrSet(reader),
+  };
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { buildTestMrs } = await import('./testing/mrsBuilder');
+
+  describe('decodeMrs', () => {
+    it('should decode domain providers', () => {
+      const mrs = decodeMrs(buildTestMrs('domain', ['+.google.com', 'www.example.com', '*.cdn.example.net', 'a.com']));
+      expect(mrs.behavior).toBe('domain');
+      expect(mrs.count).toBe(4);
+      expect([...mrs.rules].sort()).toEqual(['*.cdn.example.net', '+.google.com', 'a.com', 'www.example.com']);
+    });
+
+    it('should decode ipcidr providers into CIDRs', () => {
+      const mrs = decodeMrs(buildTestMrs('ipcidr', ['10.0.0.0/8', '192.168.1.0/24', '2001:db8::/32']));
+      expect(mrs.rules).toEqual(['10.0.0.0/8', '192.168.1.0/24', '2001:db8::/32']);
+    });
+
+    it('should reject files that are not MRS or have another behavior', () => {
+      expect(() => decodeMrs(new Uint8Array([1, 2, 3, 4]))).toThrow(/zstd/);
+      expect(() => decodeMrs(buildTestMrs('domain', ['a.com']), 'ipcidr')).toThrow(/configured as "ipcidr"/);
+    });
+  });
+
+  describe('rangeToCidrs', () => {
+    it('should split unaligned ranges', () => {
+      expect(rangeToCidrs(0x0a000001n, 0x0a000004n, 32, true)).toEqual(['10.0.0.1/32', '10.0.0.2/31', '10.0.0.4/32']);
+      expect(rangeToCidrs(0n, 0xffffffffn, 32, true)).toEqual(['0.0.0.0/0']);
+    });
+  });
+}
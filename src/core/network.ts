@@ -1,53 +1,278 @@
-import { parse } from 'yaml';
+import { parseProviderBytes } from './providerFormats';
+import { createMemoryProviderStore } from './providerStore';
+import type { CachedProvider, ProviderStore } from './providerStore';
+import { DEFAULT_NETWORK_SETTINGS, createTransports } from './settings';
+import type { DnsRecordType, NetworkSettings } from './settings';
+import type { Transport } from './transport';
 
-// In-memory cache for rule providers
-const providerCache = new Map<string, string[]>();
-const CORS_PROXY = 'https://cors-proxy.batkiz.workers.dev/?url=';
+// Parsed rules of the providers loaded this session, by URL. The same array is
+// returned until the content changes, so compiled indexes are reused.
+const providerCache = new Map<string, { rules: string[]; fetchedAt: number }>();
+// Fetches in flight, so concurrent lookups of the same provider share one request
+const pendingProviders = new Map<string, Promise<string[]>>();
 
-export const getRulesFromProvider = async (url: string, format: string = 'yaml'): Promise<string[]> => {
-  if (providerCache.has(url)) {
-    return providerCache.get(url)!;
+let providerStore: ProviderStore = createMemoryProviderStore();
+let transports = createTransports(DEFAULT_NETWORK_SETTINGS);
+let dohSettings: Pick<NetworkSettings, 'dohServer' | 'dohRecordTypes'> = DEFAULT_NETWORK_SETTINGS;
+
+/**
+ * Applies network settings to every later provider download and DoH lookup.
+ */
+export const configureNetwork = (settings: NetworkSettings) => {
+  transports = createTransports(settings);
+  dohSettings = settings;
+};
+
+/**
+ * Replaces the transports directly, e.g. with a mock in tests.
+ */
+export const setTransport = (providers: Transport, dns: Transport = providers) => {
+  transports = { providers, dns };
+};
+
+/**
+ * Sets where fetched providers are persisted, e.g. IndexedDB in the browser or a cache directory under Node.
+ */
+export const setProviderStore = (store: ProviderStore) => {
+  providerStore = store;
+  providerCache.clear();
+};
+
+// Like mihomo, a provider without an interval is never refreshed automatically.
+const isExpired = (fetchedAt: number, interval: number | undefined): boolean =>
+  !!interval && interval > 0 && Date.now() - fetchedAt >= interval * 1000;
+
+/**
+ * Returns a provider's rules from the cache, downloading them when missing or older than `interval` seconds.
+ * Expired content is revalidated with its ETag/Last-Modified, and used stale if the download fails.
+ * @param signal Aborts the download. Concurrent lookups of the same provider share it, and fail with it.
+ */
+export const getRulesFromProvider = async (
+  url: string,
+  format: string = 'yaml',
+  behavior?: string,
+  interval?: number,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const cached = providerCache.get(url);
+  if (cached && !isExpired(cached.fetchedAt, interval)) {
+    return cached.rules;
+  }
+  if (!pendingProviders.has(url)) {
+    pendingProviders.set(url, loadProvider(url, format, behavior, interval, false, signal).finally(() => pendingProviders.delete(url)));
+  }
+  return pendingProviders.get(url)!;
+};
+
+/**
+ * Revalidates a cached provider now, regardless of its interval.
+ */
+export const refreshProvider = async (url: string): Promise<string[]> => {
+  const stored = await providerStore.get(url);
+  return loadProvider(url, stored?.format ?? 'yaml', stored?.behavior, undefined, true);
+};
+
+/**
+ * Returns a provider's rules if they were loaded this session, without downloading anything.
+ */
+export const peekProviderRules = (url: string): string[] | undefined => providerCache.get(url)?.rules;
+
+export const listCachedProviders = (): Promise<CachedProvider[]> => providerStore.list();
+
+/**
+ * Removes one provider from the cache, or every provider when no URL is given.
+ */
+export const clearCachedProviders = async (url?: string) => {
+  if (url === undefined) {
+    providerCache.clear();
+    await providerStore.clear();
+  } else {
+    providerCache.delete(url);
+    await providerStore.delete(url);
   }
+};
+
+const storeProvider = (entry: CachedProvider) =>
+  providerStore.put(entry).catch((e: unknown) => console.warn(`Could not cache provider ${entry.url}:`, e));
+
+const errorMessage = (e: unknown): string => (e instanceof Error ? e.message : String(e));
+
+const cacheRules = (url: string, fetchedAt: number, rules: string[]): string[] => {
+  providerCache.set(url, { rules, fetchedAt });
+  return rules;
+};
+
+const loadProvider = async (
+  url: string,
+  format: string,
+  behavior: string | undefined,
+  interval: number | undefined,
+  force: boolean,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  // A broken store (e.g. IndexedDB in a private window) only costs the caching.
+  const stored = await providerStore.get(url).catch(() => undefined);
+  if (stored && !force && !isExpired(stored.fetchedAt, interval)) {
+    return cacheRules(url, stored.fetchedAt, parseProviderBytes(stored.bytes, format, behavior));
+  }
+
   try {
-    const response = await fetch(`${CORS_PROXY}${encodeURIComponent(url)}`);
+    const headers: Record<string, string> = {};
+    if (stored?.etag) headers['If-None-Match'] = stored.etag;
+    if (stored?.lastModified) headers['If-Modified-Since'] = stored.lastModified;
+    signal?.throwIfAborted();
+    const response = await transports.providers(url, { headers, signal });
+
+    if (response.status === 304 && stored) {
+      const fetchedAt = Date.now();
+      await storeProvider({ ...stored, fetchedAt, lastError: undefined });
+      return cacheRules(url, fetchedAt, providerCache.get(url)?.rules ?? parseProviderBytes(stored.bytes, format, behavior));
+    }
     if (!response.ok) {
       throw new Error(`Request failed with status ${response.status}`);
     }
-    const text = await response.text();
-    let rules: string[];
-
-    if (format === 'yaml') {
-      const parsedYaml = parse(text) as { payload?: string[] };
-      if (!parsedYaml || !Array.isArray(parsedYaml.payload)) {
-        throw new Error("YAML provider does not contain a valid 'payload' array.");
-      }
-      rules = parsedYaml.payload;
-    } else { // format === 'text'
-      rules = text
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line && !line.startsWith('#'));
-    }
-
-    providerCache.set(url, rules);
-    return rules;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const rules = parseProviderBytes(bytes, format, behavior);
+    const entry: CachedProvider = {
+      url,
+      bytes,
+      fetchedAt: Date.now(),
+      format,
+      behavior,
+      etag: response.headers.get('ETag') ?? undefined,
+      lastModified: response.headers.get('Last-Modified') ?? undefined,
+    };
+    await storeProvider(entry);
+    return cacheRules(url, entry.fetchedAt, rules);
   } catch (e: unknown) {
-    if (e instanceof Error) {
-      throw new Error(`Failed to fetch or parse provider from ${url}: ${e.message}`);
+    // A cancelled run is not a failed download: keep the stored copy as it is.
+    if (signal?.aborted) throw signal.reason;
+    if (!stored) {
+      throw new Error(`Failed to fetch or parse provider from ${url}: ${errorMessage(e)}`);
     }
-    throw new Error(`Failed to fetch or parse provider from ${url}: ${e}`);
+    // Offline or a broken update: keep using the last good content, and retry after another interval.
+    console.warn(`Using cached provider ${url}: ${errorMessage(e)}`);
+    await storeProvider({ ...stored, lastError: errorMessage(e) });
+    return cacheRules(url, Date.now(), providerCache.get(url)?.rules ?? parseProviderBytes(stored.bytes, format, behavior));
   }
 };
 
-export const resolveDomainToIp = async (domain: string): Promise<string | null> => {
+// DNS record types as numbered in DoH JSON answers.
+const DNS_RECORD_TYPES: Record<DnsRecordType, number> = { A: 1, AAAA: 28 };
+
+const queryDoh = async (domain: string, type: DnsRecordType, signal?: AbortSignal): Promise<string[]> => {
+  const separator = dohSettings.dohServer.includes('?') ? '&' : '?';
+  const response = await transports.dns(`${dohSettings.dohServer}${separator}name=${encodeURIComponent(domain)}&type=${type}`, {
+    headers: { 'accept': 'application/dns-json' },
+    signal,
+  });
+  const data = await response.json() as { Answer?: { type: number; data: string }[] };
+  // Answers also contain the CNAME records that led to the addresses.
+  return (data.Answer ?? []).filter(answer => answer.type === DNS_RECORD_TYPES[type]).map(answer => answer.data);
+};
+
+/**
+ * Resolves a domain's A and AAAA records, or only the record types picked in the settings.
+ * @returns Every IPv4 address followed by every IPv6 address; empty if the lookup failed.
+ * @throws Only if `signal` aborts the lookup.
+ */
+export const resolveDomainToIps = async (domain: string, signal?: AbortSignal): Promise<string[]> => {
   try {
-    const response = await fetch(`https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(domain)}&type=A`, {
-      headers: { 'accept': 'application/dns-json' }
-    });
-    const data = await response.json();
-    return data.Answer?.[0]?.data || null;
+    const answers = await Promise.all(dohSettings.dohRecordTypes.map(type => queryDoh(domain, type, signal)));
+    return answers.flat();
   } catch (error) {
+    if (signal?.aborted) throw signal.reason;
     console.error('DNS resolution failed:', error);
-    return null;
+    return [];
   }
-};
\ No newline at end of file
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, afterEach } = import.meta.vitest;
+
+  describe('getRulesFromProvider', () => {
+    const url = 'https://example.com/ads.txt';
+    const respond = (body: string | null, init: ResponseInit) => {
+      const transport = vi.fn<Transport>(async () => new Response(body, init));
+      setTransport(transport);
+      return transport;
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.useRealTimers();
+      configureNetwork(DEFAULT_NETWORK_SETTINGS);
+    });
+
+    it('should persist providers across sessions', async () => {
+      const store = createMemoryProviderStore();
+      setProviderStore(store);
+      respond('+.ads.com\n', { status: 200, headers: { ETag: '"v1"' } });
+      expect(await getRulesFromProvider(url, 'text', 'domain')).toEqual(['+.ads.com']);
+      expect((await store.get(url))?.etag).toBe('"v1"');
+
+      setProviderStore(store); // A reload keeps the store but not the parsed rules
+      const transport = respond('', { status: 500 });
+      expect(await getRulesFromProvider(url, 'text', 'domain')).toEqual(['+.ads.com']);
+      expect(transport).not.toHaveBeenCalled();
+    });
+
+    it('should revalidate expired providers conditionally', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      setProviderStore(createMemoryProviderStore());
+      respond('+.ads.com\n', { status: 200, headers: { ETag: '"v1"', 'Last-Modified': 'Mon, 19 Oct 2026 00:00:00 GMT' } });
+      const rules = await getRulesFromProvider(url, 'text', 'domain', 3600);
+
+      vi.advanceTimersByTime(3600 * 1000);
+      const transport = respond(null, { status: 304 });
+      expect(await getRulesFromProvider(url, 'text', 'domain', 3600)).toBe(rules);
+      expect(transport).toHaveBeenCalledWith(url, {
+        headers: { 'If-None-Match': '"v1"', 'If-Modified-Since': 'Mon, 19 Oct 2026 00:00:00 GMT' },
+      });
+    });
+
+    it('should fall back to stale content when the refresh fails', async () => {
+      const store = createMemoryProviderStore();
+      setProviderStore(store);
+      respond('+.ads.com\n', { status: 200 });
+      await getRulesFromProvider(url, 'text', 'domain');
+
+      setTransport(vi.fn<Transport>().mockRejectedValue(new TypeError('Failed to fetch')));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(await refreshProvider(url)).toEqual(['+.ads.com']);
+      expect((await store.get(url))?.lastError).toBe('Failed to fetch');
+
+      await clearCachedProviders(url);
+      await expect(getRulesFromProvider(url, 'text', 'domain')).rejects.toThrow(`Failed to fetch or parse provider from ${url}: Failed to fetch`);
+    });
+
+    it('should abort in-flight downloads without marking the cache stale', async () => {
+      const store = createMemoryProviderStore();
+      setProviderStore(store);
+      setTransport(vi.fn<Transport>((_url, request) => new Promise((_resolve, reject) => {
+        request?.signal?.addEventListener('abort', () => reject(request.signal!.reason));
+      })));
+      const controller = new AbortController();
+      const rules = getRulesFromProvider(url, 'text', 'domain', undefined, controller.signal);
+      controller.abort();
+      await expect(rules).rejects.toThrow(/abort/i);
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  describe('resolveDomainToIps', () => {
+    it('should query the configured DoH server for the configured record types', async () => {
+      configureNetwork({
+        ...DEFAULT_NETWORK_SETTINGS,
+        mode: 'mock',
+        dohServer: 'https://dns.example/dns-query',
+        dohRecordTypes: ['A'],
+        mockResponses: {
+          'https://dns.example/dns-query?name=a.com&type=A': JSON.stringify({ Answer: [{ type: 5, data: 'b.com.' }, { type: 1, data: '203.0.113.1' }] }),
+        },
+      });
+      expect(await resolveDomainToIps('a.com')).toEqual(['203.0.113.1']);
+      configureNetwork(DEFAULT_NETWORK_SETTINGS);
+    });
+  });
+}
@@ -0,0 +1,233 @@
+import { isMap, isScalar, isSeq, parseDocument, Scalar } from 'yaml';
+import type { ResolverSettings } from './dns';
+import type { GroupSelections } from './policyResolver';
+
+// Share links: the config and test case, compressed into the URL fragment.
+// Browsers never send the fragment to a server, so the config stays between the people sharing it.
+
+export type SharedMode = 'single' | 'batch' | 'compare' | 'inspect' | 'replay';
+
+export interface SharedState {
+  config: string;
+  mode?: SharedMode;
+  domain?: string; // The single test case
+  domainList?: string; // The batch test list, as typed
+  connection?: Record<string, string>; // Connection detail fields, as typed
+  explain?: boolean;
+  selections?: GroupSelections;
+  dns?: ResolverSettings;
+  // Canned provider bodies, shared so mock-mode tests reproduce offline. The rest of the
+  // network settings, like the proxy, stay with each user.
+  mockResponses?: Record<string, string>;
+}
+
+const FRAGMENT_PREFIX = '#share=';
+const FORMAT_VERSION = 1;
+
+// Links longer than this get cut off or rejected by some chat apps and browsers.
+export const SHARE_URL_WARNING_LENGTH = 8000;
+
+const compress = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string');
+
+/**
+ * Checks a decoded state, dropping fields of the wrong type so a hand-edited link can't break the app.
+ * @throws If there is no config.
+ */
+export const normalizeSharedState = (value: unknown): SharedState => {
+  const input = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof SharedState, unknown>>;
+  if (typeof input.config !== 'string') throw new Error('The share link has no config.');
+  const dns = input.dns as Partial<ResolverSettings> | undefined;
+  return {
+    config: input.config,
+    mode: ['single', 'batch', 'compare', 'inspect', 'replay'].includes(input.mode as string) ? input.mode as SharedMode : undefined,
+    domain: typeof input.domain === 'string' ? input.domain : undefined,
+    domainList: typeof input.domainList === 'string' ? input.domainList : undefined,
+    connection: isStringRecord(input.connection) ? input.connection : undefined,
+    explain: typeof input.explain === 'boolean' ? input.explain : undefined,
+    selections: isStringRecord(input.selections) ? input.selections : undefined,
+    dns: (dns?.mode === 'doh' || dns?.mode === 'static') && typeof dns.mappings === 'string'
+      ? { mode: dns.mode, mappings: dns.mappings }
+      : undefined,
+    mockResponses: isStringRecord(input.mockResponses) ? input.mockResponses : undefined,
+  };
+};
+
+/**
+ * Encodes the state as a URL fragment, including the leading `#`.
+ */
+export const encodeSharedState = async (state: SharedState): Promise<string> => {
+  const json = JSON.stringify({ v: FORMAT_VERSION, ...state });
+  return FRAGMENT_PREFIX + toBase64Url(await compress(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+/**
+ * Decodes the state from a URL fragment such as `location.hash`.
+ * @returns The state, or null if the fragment is not a share link.
+ * @throws If the link is corrupt or from a newer version.
+ */
+export const decodeSharedState = async (fragment: string): Promise<SharedState | null> => {
+  if (!fragment.startsWith(FRAGMENT_PREFIX)) return null;
+  let decoded: unknown;
+  try {
+    const bytes = await compress(fromBase64Url(fragment.slice(FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    decoded = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The share link is corrupt or incomplete.');
+  }
+  const version = (decoded as { v?: unknown } | null)?.v;
+  if (version !== FORMAT_VERSION) throw new Error(`The share link has an unsupported format version (${String(version)}).`);
+  return normalizeSharedState(decoded);
+};
+
+// Proxy fields that give away a server or the means to use it.
+const CREDENTIAL_KEYS = new Set([
+  'server', 'ip', 'ipv6', 'servername', 'sni', 'host',
+  'password', 'username', 'uuid', 'auth', 'auth-str', 'auth_str', 'obfs-password', 'token',
+  'private-key', 'public-key', 'pre-shared-key', 'psk', 'short-id',
+]);
+
+const REDACTED = 'redacted';
+
+const redactNode = (node: unknown): number => {
+  let count = 0;
+  if (isSeq(node)) {
+    for (const item of node.items) count += redactNode(item);
+  } else if (isMap(node)) {
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      if (CREDENTIAL_KEYS.has(key.toLowerCase()) && (isScalar(pair.value) || pair.value === null)) {
+        pair.value = new Scalar(REDACTED);
+        count++;
+      } else {
+        count += redactNode(pair.value);
+      }
+    }
+  }
+  return count;
+};
+
+/**
+ * Replaces the servers and credentials of `proxies` (nested options such as reality-opts included)
+ * and the subscription URLs of `proxy-providers` with a placeholder, keeping everything else,
+ * comments included, so the shared config still explains the routing.
+ * @returns The redacted config and how many values were replaced.
+ * @throws If the config can't be parsed, as its credentials can't be found to strip them.
+ */
+export const stripProxyCredentials = (yaml: string): { yaml: string; redacted: number } => {
+  const doc = parseDocument(yaml);
+  if (doc.errors.length > 0) {
+    throw new Error(`The config can't be parsed, so its proxy credentials can't be stripped: ${doc.errors[0].message}`);
+  }
+  if (!isMap(doc.contents)) return { yaml, redacted: 0 };
+
+  let redacted = redactNode(doc.get('proxies'));
+  const providers = doc.get('proxy-providers');
+  if (isMap(providers)) {
+    for (const { value } of providers.items) {
+      if (isMap(value) && value.has('url')) {
+        value.set('url', REDACTED);
+        redacted++;
+      }
+    }
+  }
+  return redacted > 0 ? { yaml: doc.toString(), redacted } : { yaml, redacted };
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('share links', () => {
+    it('should round-trip the state through the fragment', async () => {
+      const state: SharedState = {
+        config: 'rules:\n  - DOMAIN-SUFFIX,google.com,PROXY # 谷歌\n  - MATCH,DIRECT\n',
+        mode: 'batch',
+        domain: 'www.google.com',
+        domainList: 'a.com\nb.com',
+        connection: { dstPort: '443' },
+        explain: true,
+        selections: { PROXY: 'node' },
+        dns: { mode: 'static', mappings: 'www.google.com 1.2.3.4' },
+      };
+      const fragment = await encodeSharedState(state);
+      expect(fragment).toMatch(/^#share=[A-Za-z0-9_-]+$/);
+      expect(await decodeSharedState(fragment)).toEqual(state);
+    });
+
+    it('should compress repetitive configs', async () => {
+      const config = Array.from({ length: 500 }, (_, i) => `  - DOMAIN-SUFFIX,site${i}.example.com,PROXY`).join('\n');
+      expect((await encodeSharedState({ config })).length).toBeLessThan(config.length / 4);
+    });
+
+    it('should ignore other fragments and reject corrupt links', async () => {
+      expect(await decodeSharedState('')).toBeNull();
+      expect(await decodeSharedState('#section')).toBeNull();
+      await expect(decodeSharedState('#share=not-really-deflate')).rejects.toThrow('corrupt');
+    });
+
+    it('should drop fields of the wrong type', () => {
+      expect(normalizeSharedState({ config: 'rules: []', mode: 'bogus', explain: 'yes', dns: { mode: 'static' } }))
+        .toEqual({ config: 'rules: []' });
+      expect(() => normalizeSharedState({ domain: 'a.com' })).toThrow('no config');
+    });
+  });
+
+  describe('stripProxyCredentials', () => {
+    it('should redact servers and secrets of proxies and keep the rest', () => {
+      const yaml = [
+        'proxies:',
+        '  # my node',
+        '  - name: hk',
+        '    type: vless',
+        '    server: hk.example.com',
+        '    port: 443',
+        '    uuid: 1b2c3d4e-0000-4000-8000-123456789abc',
+        '    reality-opts:',
+        '      public-key: abc',
+        '      short-id: "01"',
+        'proxy-providers:',
+        '  sub:',
+        '    type: http',
+        '    url: https://sub.example.com/link?token=secret',
+        'rules:',
+        '  - MATCH,hk',
+        '',
+      ].join('\n');
+      const { yaml: stripped, redacted } = stripProxyCredentials(yaml);
+      expect(redacted).toBe(5);
+      expect(stripped).not.toMatch(/hk\.example\.com|1b2c3d4e|abc|secret/);
+      expect(stripped).toContain('# my node');
+      expect(stripped).toContain('name: hk');
+      expect(stripped).toContain('type: vless');
+      expect(stripped).toContain('- MATCH,hk');
+    });
+
+    it('should leave configs without proxies untouched', () => {
+      const yaml = 'rules:\n  - MATCH,DIRECT   # keep my spacing\n';
+      expect(stripProxyCredentials(yaml)).toEqual({ yaml, redacted: 0 });
+    });
+
+    it('should refuse configs that don\'t parse rather than share them unredacted', () => {
+      const proxies = 'proxies:\n  - { name: hk, type: ss, server: secret.example.com, password: hunter2 }\n';
+      expect(() => stripProxyCredentials(`${proxies}${proxies}rules:\n  - MATCH,hk\n`)).toThrow('can\'t be stripped');
+      expect(() => stripProxyCredentials(`${proxies}rules:\n  - MATCH,hk\nrules:\n  - MATCH,DIRECT\n`)).toThrow('can\'t be stripped');
+      expect(() => stripProxyCredentials('rules: [')).toThrow('can\'t be stripped');
+    });
+  });
+}
@@ -0,0 +1,180 @@
+import type { ClashConfig, ProxyGroup } from './configParser';
+
+export const BUILTIN_POLICIES = ['DIRECT', 'REJECT', 'REJECT-DROP', 'PASS', 'COMPATIBLE'];
+
+export interface PolicyHop {
+  name: string;
+  kind: 'builtin' | 'proxy' | 'group';
+  groupType?: ProxyGroup['type'];
+  members?: string[];
+  selected?: string; // The member the group currently routes to
+  relayChains?: PolicyChain[]; // For relay groups, one chain per member in dialing order
+}
+
+export interface PolicyChain {
+  hops: PolicyHop[];
+  finalOutbound?: string; // Unset when the chain could not be resolved
+  error?: string;
+  cycle?: boolean;
+  undefinedReference?: string;
+}
+
+// Chosen members of `select` groups, keyed by group name.
+export type GroupSelections = { [group: string]: string };
+
+const getGroupMembers = (config: ClashConfig, group: ProxyGroup): string[] => {
+  const members = [...(group.proxies ?? [])];
+  if (group['include-all'] || group['include-all-proxies']) {
+    for (const proxy of config.proxies ?? []) {
+      if (!members.includes(proxy.name)) members.push(proxy.name);
+    }
+  }
+  return members;
+};
+
+const resolveFrom = (
+  config: ClashConfig,
+  policy: string,
+  selections: GroupSelections,
+  visited: string[]
+): PolicyChain => {
+  const hops: PolicyHop[] = [];
+  let current = policy;
+
+  for (;;) {
+    if (visited.includes(current)) {
+      return {
+        hops,
+        cycle: true,
+        error: `Policy cycle detected: ${[...visited, current].join(' → ')}`,
+      };
+    }
+
+    if (BUILTIN_POLICIES.includes(current.toUpperCase())) {
+      hops.push({ name: current, kind: 'builtin' });
+      return { hops, finalOutbound: current };
+    }
+
+    if (config.proxies?.some(p => p.name === current)) {
+      hops.push({ name: current, kind: 'proxy' });
+      return { hops, finalOutbound: current };
+    }
+
+    const group = config['proxy-groups']?.find(g => g.name === current);
+    if (!group) {
+      return {
+        hops,
+        undefinedReference: current,
+        error: `Policy "${current}" is not a built-in policy, proxy or proxy-group.`,
+      };
+    }
+
+    visited = [...visited, current];
+    const members = getGroupMembers(config, group);
+    const hop: PolicyHop = { name: current, kind: 'group', groupType: group.type, members };
+    hops.push(hop);
+
+    if (members.length === 0) {
+      return {
+        hops,
+        error: group.use?.length
+          ? `Group "${current}" only uses proxy-providers (${group.use.join(', ')}), which cannot be resolved.`
+          : `Group "${current}" has no members.`,
+      };
+    }
+
+    if (group.type === 'relay') {
+      hop.relayChains = members.map(member => resolveFrom(config, member, selections, visited));
+      const failed = hop.relayChains.find(chain => !chain.finalOutbound);
+      if (failed) {
+        return { hops, error: failed.error, cycle: failed.cycle, undefinedReference: failed.undefinedReference };
+      }
+      return { hops, finalOutbound: hop.relayChains.map(chain => chain.finalOutbound).join(' → ') };
+    }
+
+    const selection = selections[current];
+    hop.selected = group.type === 'select' && selection && members.includes(selection) ? selection : members[0];
+    current = hop.selected;
+  }
+};
+
+/**
+ * Follows a rule's policy through proxy-groups down to a concrete proxy or built-in policy.
+ * `select` groups use the member given in `selections`, every other group its first member.
+ * @param config The parsed Clash config.
+ * @param policy The policy named by the matching rule.
+ * @param selections Chosen members of `select` groups.
+ * @returns Every hop on the way, and either the final outbound or the reason resolution stopped.
+ */
+export const resolvePolicyChain = (
+  config: ClashConfig,
+  policy: string,
+  selections: GroupSelections = {}
+): PolicyChain => resolveFrom(config, policy, selections, []);
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const config: ClashConfig = {
+    proxies: [
+      { name: 'HK-01', type: 'ss' },
+      { name: 'JP-01', type: 'vmess' },
+      { name: 'US-01', type: 'trojan' },
+    ],
+    'proxy-groups': [
+      { name: 'Streaming', type: 'select', proxies: ['Auto', 'JP-01', 'DIRECT'] },
+      { name: 'Auto', type: 'url-test', proxies: ['HK-01', 'JP-01'] },
+      { name: 'Chain', type: 'relay', proxies: ['Auto', 'US-01'] },
+      { name: 'Loop-A', type: 'select', proxies: ['Loop-B'] },
+      { name: 'Loop-B', type: 'fallback', proxies: ['Loop-A'] },
+      { name: 'Broken', type: 'select', proxies: ['Missing'] },
+      { name: 'Everything', type: 'select', 'include-all': true },
+      { name: 'Provided', type: 'select', use: ['airport'] },
+    ],
+  };
+
+  describe('resolvePolicyChain', () => {
+    it('should resolve built-in policies and proxies directly', () => {
+      expect(resolvePolicyChain(config, 'DIRECT')).toEqual({ hops: [{ name: 'DIRECT', kind: 'builtin' }], finalOutbound: 'DIRECT' });
+      expect(resolvePolicyChain(config, 'US-01').finalOutbound).toBe('US-01');
+    });
+
+    it('should follow the first member of nested groups', () => {
+      const chain = resolvePolicyChain(config, 'Streaming');
+      expect(chain.hops.map(h => h.name)).toEqual(['Streaming', 'Auto', 'HK-01']);
+      expect(chain.finalOutbound).toBe('HK-01');
+    });
+
+    it('should honour selections for select groups only', () => {
+      expect(resolvePolicyChain(config, 'Streaming', { Streaming: 'DIRECT' }).finalOutbound).toBe('DIRECT');
+      expect(resolvePolicyChain(config, 'Streaming', { Auto: 'JP-01' }).finalOutbound).toBe('HK-01');
+      expect(resolvePolicyChain(config, 'Streaming', { Streaming: 'Nope' }).finalOutbound).toBe('HK-01');
+    });
+
+    it('should resolve every member of relay groups', () => {
+      const chain = resolvePolicyChain(config, 'Chain');
+      expect(chain.finalOutbound).toBe('HK-01 → US-01');
+      expect(chain.hops[0].relayChains).toHaveLength(2);
+    });
+
+    it('should include all proxies when asked', () => {
+      expect(resolvePolicyChain(config, 'Everything').hops[0].members).toEqual(['HK-01', 'JP-01', 'US-01']);
+    });
+
+    it('should flag cycles', () => {
+      const chain = resolvePolicyChain(config, 'Loop-A');
+      expect(chain.cycle).toBe(true);
+      expect(chain.finalOutbound).toBeUndefined();
+      expect(chain.error).toContain('Loop-A → Loop-B → Loop-A');
+    });
+
+    it('should flag undefined references', () => {
+      expect(resolvePolicyChain(config, 'Broken').undefinedReference).toBe('Missing');
+      expect(resolvePolicyChain(config, 'Nowhere').undefinedReference).toBe('Nowhere');
+    });
+
+    it('should report groups that only use proxy-providers', () => {
+      expect(resolvePolicyChain(config, 'Provided').error).toContain('airport');
+    });
+  });
+}
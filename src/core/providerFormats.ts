@@ -0,0 +1,151 @@
+import { parse } from 'yaml';
+import { decodeMrs } from './mrs';
+
+// Surge and Loon names for rule types, as mihomo names them.
+const RULE_TYPE_ALIASES: Record<string, string> = {
+  'HOST': 'DOMAIN',
+  'HOST-SUFFIX': 'DOMAIN-SUFFIX',
+  'HOST-KEYWORD': 'DOMAIN-KEYWORD',
+  'HOST-WILDCARD': 'DOMAIN-WILDCARD',
+  'IP6-CIDR': 'IP-CIDR6',
+  'DEST-PORT': 'DST-PORT',
+};
+
+/**
+ * Picks a provider format from a file name: `mrs` for `.mrs`, `yaml` for `.yaml`/`.yml`, otherwise `text`.
+ */
+export const detectProviderFormat = (fileName: string): 'yaml' | 'text' | 'mrs' => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'mrs') return 'mrs';
+  return extension === 'yaml' || extension === 'yml' ? 'yaml' : 'text';
+};
+
+// Drops trailing ` # ...` and ` // ...` comments; line comments are skipped by the caller.
+const stripComment = (line: string): string => line.replace(/\s+(#|\/\/).*$/, '').trim();
+
+/**
+ * Normalizes one line of a classical list: trims the parts and renames Surge/Loon rule types.
+ * @throws Throws an error if the line has no rule type or no value.
+ */
+const parseClassicalLine = (line: string): string => {
+  const parts = line.split(',').map(part => part.trim());
+  const type = parts[0].toUpperCase();
+  if (parts.length < 2 || !parts[1] || !/^[A-Z0-9-]+$/.test(type)) {
+    throw new Error(`expected "TYPE,value", got "${line}"`);
+  }
+  parts[0] = RULE_TYPE_ALIASES[type] ?? type;
+  return parts.join(',');
+};
+
+/**
+ * Normalizes one entry of a domain list. Surge domain sets write `.google.com` for `+.google.com`.
+ * @throws Throws an error if the entry is not a single domain pattern.
+ */
+const parseDomainLine = (line: string): string => {
+  if (/[\s,]/.test(line)) throw new Error(`expected a domain, got "${line}"`);
+  return line.startsWith('.') ? `+${line}` : line;
+};
+
+/**
+ * Parses one rule per line, as in mihomo text providers and Surge/Loon `.list` files.
+ * `#`, `//` and `;` comment lines, trailing comments and blank lines are skipped.
+ * @param behavior Classical lines are normalized to mihomo rule types; domain lines to mihomo patterns.
+ * @throws Throws an error naming the first line that cannot be parsed.
+ */
+const parseProviderLines = (text: string, behavior?: string): string[] => {
+  const rules: string[] = [];
+  text.split('\n').forEach((rawLine, i) => {
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//') || trimmed.startsWith(';')) return;
+    const line = stripComment(trimmed);
+    try {
+      if (behavior === 'classical') rules.push(parseClassicalLine(line));
+      else if (behavior === 'domain') rules.push(parseDomainLine(line));
+      else rules.push(line);
+    } catch (e: unknown) {
+      throw new Error(`Line ${i + 1}: ${e instanceof Error ? e.message : e}`);
+    }
+  });
+  return rules;
+};
+
+/**
+ * Parses the contents of a rule provider into its rule lines.
+ * @param text The provider file contents.
+ * @param format `yaml` for a file with a `payload` array, `text` for one rule per line.
+ * @param behavior The provider behavior, used to normalize `text` lines.
+ * @throws Throws an error if a YAML provider has no `payload` array, or naming the line a text provider fails on.
+ */
+export const parseProviderText = (text: string, format: string = 'yaml', behavior?: string): string[] => {
+  if (format === 'yaml') {
+    const parsedYaml = parse(text) as { payload?: string[] };
+    if (!parsedYaml || !Array.isArray(parsedYaml.payload)) {
+      throw new Error("YAML provider does not contain a valid 'payload' array.");
+    }
+    return parsedYaml.payload;
+  }
+  // format === 'text'
+  return parseProviderLines(text, behavior);
+};
+
+/**
+ * Parses a rule provider file in any format, including binary `mrs`.
+ * @throws Throws an error if the file does not parse as the given format and behavior.
+ */
+export const parseProviderBytes = (bytes: Uint8Array, format: string = 'yaml', behavior?: string): string[] => {
+  if (format === 'mrs') {
+    return decodeMrs(bytes, behavior).rules;
+  }
+  return parseProviderText(new TextDecoder().decode(bytes), format, behavior);
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('parseProviderText', () => {
+    it('should parse Surge and Loon lists as classical rules', () => {
+      const list = [
+        '# Surge list',
+        '// generated',
+        '; Loon comment',
+        'HOST-SUFFIX, google.com',
+        'host,www.example.com',
+        'IP-CIDR,10.0.0.0/8,no-resolve # private',
+        'IP6-CIDR,2001:db8::/32',
+        'DOMAIN-KEYWORD,ads // tracking',
+        '',
+      ].join('\r\n');
+      expect(parseProviderText(list, 'text', 'classical')).toEqual([
+        'DOMAIN-SUFFIX,google.com',
+        'DOMAIN,www.example.com',
+        'IP-CIDR,10.0.0.0/8,no-resolve',
+        'IP-CIDR6,2001:db8::/32',
+        'DOMAIN-KEYWORD,ads',
+      ]);
+    });
+
+    it('should name the line that fails to parse', () => {
+      expect(() => parseProviderText('DOMAIN,a.com\n\ngoogle.com', 'text', 'classical'))
+        .toThrow('Line 3: expected "TYPE,value", got "google.com"');
+      expect(() => parseProviderText('a.com\nDOMAIN,b.com', 'text', 'domain')).toThrow(/^Line 2:/);
+    });
+
+    it('should read Surge domain sets', () => {
+      expect(parseProviderText('.google.com\nwww.example.com # site', 'text', 'domain')).toEqual(['+.google.com', 'www.example.com']);
+    });
+  });
+
+  describe('parseProviderBytes', () => {
+    it('should decode mrs and text files', async () => {
+      const { buildTestMrs } = await import('./testing/mrsBuilder');
+      expect(parseProviderBytes(buildTestMrs('ipcidr', ['10.0.0.0/8']), 'mrs', 'ipcidr')).toEqual(['10.0.0.0/8']);
+      expect(parseProviderBytes(new TextEncoder().encode('payload:\n  - a.com\n'), 'yaml', 'domain')).toEqual(['a.com']);
+    });
+  });
+
+  describe('detectProviderFormat', () => {
+    it('should pick the format from the extension', () => {
+      expect(['rules.mrs', 'rules.YAML', 'rules.list', 'rules.txt'].map(detectProviderFormat)).toEqual(['mrs', 'yaml', 'text', 'text']);
+    });
+  });
+}
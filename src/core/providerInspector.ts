@@ -0,0 +1,193 @@
+import { compileDomainPattern, isCidrMatch, parseCidr, parseIpBytes } from './helper';
+import { parseRule } from './ruleParser';
+import type { Rule } from './ruleParser';
+
+// Statistics and search over the entries of one rule provider, for the provider inspector.
+
+export interface ProviderEntry {
+  index: number; // Position within the provider
+  entry: string;
+}
+
+// An entry the matcher skips without a word, e.g. a malformed CIDR or a type providers don't support.
+export interface InvalidEntry extends ProviderEntry {
+  reason: string;
+}
+
+export interface ProviderStats {
+  entryCount: number;
+  countsByType: Record<string, number>; // Entry kinds, e.g. DOMAIN-SUFFIX or IPv6, in order of first appearance
+  invalid: InvalidEntry[];
+}
+
+export type ProviderSearchMode = 'substring' | 'suffix' | 'cidr';
+
+// Entry types classical providers can hold; anything else never matches.
+const CLASSICAL_ENTRY_TYPES = [
+  'DOMAIN', 'DOMAIN-SUFFIX', 'DOMAIN-KEYWORD', 'DOMAIN-REGEX', 'DOMAIN-WILDCARD',
+  'IP-CIDR', 'IP-CIDR6', 'SRC-IP-CIDR', 'IP-SUFFIX',
+  'GEOIP', 'SRC-GEOIP', 'IP-ASN', 'SRC-IP-ASN', 'GEOSITE',
+  'DST-PORT', 'SRC-PORT', 'NETWORK', 'PROCESS-NAME', 'PROCESS-PATH',
+  'IN-PORT', 'IN-TYPE', 'IN-USER', 'IN-NAME',
+  'AND', 'OR', 'NOT',
+];
+
+const CIDR_ENTRY_TYPES = ['IP-CIDR', 'IP-CIDR6', 'SRC-IP-CIDR'];
+
+const DOMAIN_PATTERN = /^(\+\.|\.)?[a-z0-9*_-]+(\.[a-z0-9*_-]+)*$/i;
+
+/**
+ * Names the kind of an entry and checks it the way the matcher reads it.
+ * @returns The kind, plus the reason the matcher would ignore the entry, if it would.
+ */
+const classifyEntry = (entry: string, behavior: string): { type: string; problem?: string } => {
+  const line = entry.trim();
+  if (behavior === 'domain') {
+    const type = line.startsWith('+.') ? 'DOMAIN-SUFFIX' : line.startsWith('.') ? 'SUBDOMAIN' : line.includes('*') ? 'WILDCARD' : 'DOMAIN';
+    return DOMAIN_PATTERN.test(line) ? { type } : { type, problem: 'Not a domain or domain pattern.' };
+  }
+  if (behavior === 'ipcidr') {
+    const cidr = parseCidr(line);
+    if (!cidr) return { type: 'INVALID', problem: 'Not a valid CIDR.' };
+    return { type: cidr.bytes.length === 4 ? 'IPv4' : 'IPv6' };
+  }
+
+  const [rawType, value] = line.split(',');
+  const type = rawType.trim().toUpperCase();
+  if (!value?.trim()) return { type, problem: 'Missing the value after the rule type.' };
+  let rule: Rule;
+  try {
+    rule = parseRule(line, false);
+  } catch (e: unknown) {
+    return { type, problem: e instanceof Error ? e.message : String(e) };
+  }
+  return { type, problem: findEntryProblem(rule) };
+};
+
+// Checks an entry parsed like the matcher parses it, and the conditions of logical entries.
+const findEntryProblem = (rule: Rule): string | undefined => {
+  const { type, payload: value } = rule;
+  if (!CLASSICAL_ENTRY_TYPES.includes(type)) return `Rule type "${type}" is not supported in classical providers.`;
+  if (type === 'AND' || type === 'OR' || type === 'NOT') {
+    return rule.conditions.map(findEntryProblem).find(problem => problem !== undefined);
+  }
+  if ((CIDR_ENTRY_TYPES.includes(type) || type === 'IP-SUFFIX') && !parseCidr(value)) return `Invalid CIDR "${value}".`;
+  if (type === 'DOMAIN-REGEX' && !compileDomainPattern(type, value)) return `Invalid regex "${value}".`;
+  return undefined;
+};
+
+/**
+ * Counts the entries of a provider by kind and lists those the matcher ignores.
+ * @param behavior The provider behavior: `domain`, `ipcidr` or `classical`.
+ */
+export const inspectProvider = (rules: string[], behavior: string = 'classical'): ProviderStats => {
+  const countsByType: Record<string, number> = {};
+  const invalid: InvalidEntry[] = [];
+  rules.forEach((entry, index) => {
+    const { type, problem } = classifyEntry(entry, behavior);
+    if (problem) {
+      invalid.push({ index, entry, reason: problem });
+    } else {
+      countsByType[type] = (countsByType[type] ?? 0) + 1;
+    }
+  });
+  return { entryCount: rules.length, countsByType, invalid };
+};
+
+// The part of an entry a search looks at: the whole line, or the value of a classical entry.
+const entryValue = (entry: string, behavior: string): string =>
+  (behavior === 'classical' ? entry.split(',')[1] ?? '' : entry).trim().toLowerCase();
+
+/**
+ * Searches the entries of a provider.
+ * - `substring`: the entry contains the query.
+ * - `suffix`: the entry's value, e.g. the domain of `DOMAIN-SUFFIX,google.com`, ends with the query.
+ * - `cidr`: the entry is a CIDR containing the IP address in the query.
+ * @throws If a `cidr` search is not given an IP address.
+ */
+export const searchProvider = (
+  rules: string[],
+  behavior: string,
+  query: string,
+  mode: ProviderSearchMode
+): ProviderEntry[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  let isHit: (entry: string) => boolean;
+  if (mode === 'cidr') {
+    if (!parseIpBytes(needle)) throw new Error(`"${query.trim()}" is not an IP address.`);
+    isHit = entry => {
+      if (behavior === 'classical' && !CIDR_ENTRY_TYPES.includes(entry.split(',')[0].trim().toUpperCase())) return false;
+      const cidr = parseCidr(entryValue(entry, behavior));
+      return cidr !== null && isCidrMatch(needle, cidr);
+    };
+  } else if (mode === 'suffix') {
+    isHit = entry => entryValue(entry, behavior).endsWith(needle);
+  } else {
+    isHit = entry => entry.toLowerCase().includes(needle);
+  }
+
+  const hits: ProviderEntry[] = [];
+  rules.forEach((entry, index) => {
+    if (isHit(entry)) hits.push({ index, entry });
+  });
+  return hits;
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('inspectProvider', () => {
+    it('should count domain entries by kind and flag garbage', () => {
+      const stats = inspectProvider(['+.google.com', '.cdn.example.net', '*.example.com', 'www.example.com', 'not a domain', '+.youtube.com'], 'domain');
+      expect(stats.entryCount).toBe(6);
+      expect(stats.countsByType).toEqual({ 'DOMAIN-SUFFIX': 2, SUBDOMAIN: 1, WILDCARD: 1, DOMAIN: 1 });
+      expect(stats.invalid).toEqual([{ index: 4, entry: 'not a domain', reason: 'Not a domain or domain pattern.' }]);
+    });
+
+    it('should count CIDRs by family', () => {
+      const stats = inspectProvider(['10.0.0.0/8', '2001:db8::/32', '10.0.0.1', '192.168.0.0/16'], 'ipcidr');
+      expect(stats.countsByType).toEqual({ IPv4: 2, IPv6: 1 });
+      expect(stats.invalid.map(e => e.index)).toEqual([2]);
+    });
+
+    it('should flag classical entries the matcher ignores', () => {
+      const stats = inspectProvider(
+        [
+          'DOMAIN-SUFFIX,google.com', 'USER-AGENT,curl*', 'IP-CIDR,10.0.0.0/33', 'DOMAIN', 'GEOIP,CN', 'DOMAIN-REGEX,[a-', 'DOMAIN-WILDCARD,*.cn',
+          'AND,((DOMAIN-SUFFIX,google.com),(NETWORK,udp))', 'OR,((RULE-SET,ads),(DOMAIN,a.com))', 'NOT,((DOMAIN,a.com),(DOMAIN,b.com))',
+        ],
+        'classical'
+      );
+      expect(stats.countsByType).toEqual({ 'DOMAIN-SUFFIX': 1, GEOIP: 1, 'DOMAIN-WILDCARD': 1, AND: 1 });
+      expect(stats.invalid.map(e => e.reason)).toEqual([
+        'Unknown rule type "USER-AGENT".',
+        'Invalid CIDR "10.0.0.0/33".',
+        'Missing the value after the rule type.',
+        'Invalid regex "[a-".',
+        'Rule type "RULE-SET" is not supported in classical providers.',
+        'NOT takes exactly one condition.',
+      ]);
+    });
+  });
+
+  describe('searchProvider', () => {
+    const classical = ['DOMAIN-SUFFIX,google.com', 'DOMAIN,mail.google.com', 'DOMAIN-KEYWORD,goog', 'IP-CIDR,10.0.0.0/8,no-resolve', 'SRC-IP-CIDR,10.1.0.0/16'];
+
+    it('should find substrings anywhere in the entry', () => {
+      expect(searchProvider(classical, 'classical', 'GOOG', 'substring').map(e => e.index)).toEqual([0, 1, 2]);
+    });
+
+    it('should match suffixes against the value', () => {
+      expect(searchProvider(classical, 'classical', 'google.com', 'suffix').map(e => e.index)).toEqual([0, 1]);
+      expect(searchProvider(['+.google.com', 'google.co'], 'domain', '.com', 'suffix').map(e => e.entry)).toEqual(['+.google.com']);
+    });
+
+    it('should find CIDRs containing an IP', () => {
+      expect(searchProvider(classical, 'classical', '10.1.2.3', 'cidr').map(e => e.index)).toEqual([3, 4]);
+      expect(searchProvider(['10.0.0.0/8', '192.168.0.0/16', 'junk'], 'ipcidr', '192.168.1.1', 'cidr')).toEqual([{ index: 1, entry: '192.168.0.0/16' }]);
+      expect(() => searchProvider(classical, 'classical', 'google.com', 'cidr')).toThrow('is not an IP address');
+    });
+  });
+}
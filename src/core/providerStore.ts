@@ -0,0 +1,31 @@
+// Persistent storage for fetched rule providers, so they survive reloads and can be used offline.
+
+export interface CachedProvider {
+  url: string;
+  bytes: Uint8Array; // The file as downloaded, parsed again on load
+  fetchedAt: number; // When the content was last downloaded or revalidated, in ms since the epoch
+  format?: string;
+  behavior?: string;
+  etag?: string;
+  lastModified?: string;
+  lastError?: string; // Why the last refresh failed, while the stale content is still in use
+}
+
+export interface ProviderStore {
+  get: (url: string) => Promise<CachedProvider | undefined>;
+  put: (entry: CachedProvider) => Promise<void>;
+  list: () => Promise<CachedProvider[]>;
+  delete: (url: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const createMemoryProviderStore = (): ProviderStore => {
+  const entries = new Map<string, CachedProvider>();
+  return {
+    get: async url => entries.get(url),
+    put: async entry => { entries.set(entry.url, entry); },
+    list: async () => [...entries.values()],
+    delete: async url => { entries.delete(url); },
+    clear: async () => entries.clear(),
+  };
+};
@@ -0,0 +1,42 @@
+import { bench, describe } from 'vitest';
+import { isCidrMatch, isWildcardMatch, parseCidr } from './helper';
+import { compileRuleIndex } from './ruleIndex';
+
+// A provider the size of gfw.txt, with a mix of entry kinds.
+const domainRules = Array.from({ length: 30000 }, (_, i) => {
+  if (i % 10 === 0) return `*.site${i}.example`;
+  if (i % 3 === 0) return `.site${i}.example`;
+  return `+.site${i}.example`;
+});
+const domains = ['www.site29999.example', 'site15001.example', 'a.site20.example', 'not-listed.example'];
+
+const cidrRules = Array.from({ length: 10000 }, (_, i) => `10.${(i >> 8) & 0xff}.${i & 0xff}.0/24`);
+const ips = ['10.39.15.1', '10.0.0.1', '8.8.8.8'];
+
+describe('domain provider with 30k entries', () => {
+  const index = compileRuleIndex(domainRules, 'domain');
+
+  bench('linear scan', () => {
+    for (const domain of domains) domainRules.find(rule => isWildcardMatch(domain, rule));
+  });
+  bench('indexed', () => {
+    for (const domain of domains) index.match({ domain, ips: [] });
+  });
+});
+
+describe('ipcidr provider with 10k entries', () => {
+  const index = compileRuleIndex(cidrRules, 'ipcidr');
+
+  bench('linear scan', () => {
+    for (const ip of ips) cidrRules.find(rule => isCidrMatch(ip, parseCidr(rule)!));
+  });
+  bench('indexed', () => {
+    for (const ip of ips) index.match({ domain: '', ips: [ip] });
+  });
+});
+
+describe('compiling', () => {
+  bench('domain provider with 30k entries', () => {
+    compileRuleIndex(domainRules, 'domain');
+  });
+});
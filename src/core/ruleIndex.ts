@@ -0,0 +1,585 @@
+import { isCidrMatch, isDomainRuleMatch, isWildcardMatch, parseCidr, parseIpBytes, unmapIpBytes } from './helper';
+import { parseRule } from './ruleParser';
+import type { Rule } from './ruleParser';
+
+// Rule providers compiled into lookup structures, so matching a domain or IP costs
+// roughly the length of the query instead of the length of the provider.
+// Every structure records the position of its entries, and lookups return the entry
+// that comes first in the provider, exactly like a linear scan would.
+
+export interface RuleIndexQuery {
+  domain: string; // Lower-case destination domain, empty when connecting to an IP
+  ips: string[]; // Destination IPs, empty unless resolved or given
+  srcIp?: string;
+}
+
+export interface RuleIndex {
+  entryCount: number;
+  // Whether some entry looks at the destination IP without no-resolve, so the domain should be resolved first.
+  resolvesIp: boolean;
+  /**
+   * Finds the first entry of the provider matching the query, among those the index covers:
+   * classical entries such as GEOIP, DST-PORT or logical rules are left out.
+   * @returns The matching entry, or null if none matches.
+   */
+  match: (query: RuleIndexQuery) => string | null;
+  /**
+   * Like `match`, but also checks the classical entries the index does not cover, in order.
+   * @param isOtherMatch Evaluates one of those entries, parsed.
+   */
+  matchWith: (query: RuleIndexQuery, isOtherMatch: (rule: Rule) => Promise<boolean>) => Promise<string | null>;
+}
+
+// A reversed-label trie: `www.google.com` is stored under com -> google -> www.
+interface DomainNode {
+  children: Map<string, DomainNode>;
+  wildcard?: DomainNode; // A `*` label, standing for exactly one non-empty label
+  exact?: number; // Index of the entry matching exactly this domain
+  suffix?: number; // ... this domain and its subdomains
+  subdomain?: number; // ... only its subdomains
+}
+
+// An Aho-Corasick automaton over DOMAIN-KEYWORD entries.
+interface KeywordNode {
+  next: Map<string, KeywordNode>;
+  fail?: KeywordNode;
+  first?: number; // Index of the first keyword ending here, including via fail links
+}
+
+// A binary trie over address bits; a node at depth n holds the CIDRs with prefix length n.
+interface CidrNode {
+  children: [CidrNode | undefined, CidrNode | undefined];
+  first?: number;
+}
+
+interface CidrIndex {
+  ipv4: CidrNode;
+  ipv6: CidrNode;
+}
+
+const NOT_FOUND = Number.POSITIVE_INFINITY;
+
+const earliest = (a: number, b: number | undefined): number => (b !== undefined && b < a ? b : a);
+
+const createDomainNode = (): DomainNode => ({ children: new Map() });
+
+const addDomain = (
+  root: DomainNode,
+  domain: string,
+  kind: 'exact' | 'suffix' | 'subdomain',
+  index: number,
+  allowWildcard: boolean = false
+): void => {
+  let node = root;
+  for (const label of domain.split('.').reverse()) {
+    if (allowWildcard && label === '*') {
+      node.wildcard ??= createDomainNode();
+      node = node.wildcard;
+      continue;
+    }
+    let child = node.children.get(label);
+    if (!child) {
+      child = createDomainNode();
+      node.children.set(label, child);
+    }
+    node = child;
+  }
+  node[kind] ??= index;
+};
+
+const lookupDomain = (node: DomainNode, labels: string[], depth: number): number => {
+  if (depth === labels.length) {
+    return earliest(earliest(NOT_FOUND, node.exact), node.suffix);
+  }
+  let best = earliest(earliest(NOT_FOUND, node.suffix), node.subdomain);
+  const child = node.children.get(labels[depth]);
+  if (child) best = Math.min(best, lookupDomain(child, labels, depth + 1));
+  if (node.wildcard && labels[depth] !== '') best = Math.min(best, lookupDomain(node.wildcard, labels, depth + 1));
+  return best;
+};
+
+const createKeywordNode = (): KeywordNode => ({ next: new Map() });
+
+const buildKeywordAutomaton = (keywords: [string, number][]): KeywordNode => {
+  const root = createKeywordNode();
+  for (const [keyword, index] of keywords) {
+    let node = root;
+    for (const char of keyword) {
+      let next = node.next.get(char);
+      if (!next) {
+        next = createKeywordNode();
+        node.next.set(char, next);
+      }
+      node = next;
+    }
+    node.first ??= index;
+  }
+
+  // Breadth-first, so every fail link points at an already finished node.
+  const queue: KeywordNode[] = [];
+  for (const child of root.next.values()) {
+    child.fail = root;
+    queue.push(child);
+  }
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    for (const [char, child] of node.next) {
+      let fail = node.fail;
+      while (fail && !fail.next.has(char)) fail = fail.fail;
+      child.fail = fail ? fail.next.get(char)! : root;
+      const inherited = child.fail.first;
+      if (inherited !== undefined) child.first = earliest(inherited, child.first);
+      queue.push(child);
+    }
+  }
+  return root;
+};
+
+const lookupKeywords = (root: KeywordNode, domain: string): number => {
+  let best = NOT_FOUND;
+  let node = root;
+  for (const char of domain) {
+    let current: KeywordNode | undefined = node;
+    while (current && !current.next.has(char)) current = current.fail;
+    node = current ? current.next.get(char)! : root;
+    best = earliest(best, node.first);
+  }
+  return best;
+};
+
+const createCidrIndex = (): CidrIndex => ({ ipv4: { children: [undefined, undefined] }, ipv6: { children: [undefined, undefined] } });
+
+// Invalid CIDRs can never match, so they are left out.
+const addCidr = (index: CidrIndex, cidr: string, position: number): void => {
+  const parsed = parseCidr(cidr);
+  if (!parsed) return;
+
+  const { bytes, prefixLength } = parsed;
+  let node = bytes.length === 4 ? index.ipv4 : index.ipv6;
+  for (let i = 0; i < prefixLength; i++) {
+    const bit = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+    node.children[bit] ??= { children: [undefined, undefined] };
+    node = node.children[bit]!;
+  }
+  node.first ??= position;
+};
+
+const lookupBits = (root: CidrNode, bytes: Uint8Array): number => {
+  let best = earliest(NOT_FOUND, root.first);
+  let node: CidrNode | undefined = root;
+  for (let i = 0; i < bytes.length * 8 && node; i++) {
+    node = node.children[(bytes[i >> 3] >> (7 - (i & 7))) & 1];
+    best = earliest(best, node?.first);
+  }
+  return best;
+};
+
+// Follows isCidrMatch: IPv4-mapped IPv6 addresses also match IPv4 CIDRs.
+const lookupCidr = (index: CidrIndex, ips: string[]): number => {
+  let best = NOT_FOUND;
+  for (const ip of ips) {
+    const bytes = parseIpBytes(ip);
+    if (!bytes) continue;
+    const unmapped = unmapIpBytes(bytes);
+    if (unmapped.length === 4) best = Math.min(best, lookupBits(index.ipv4, unmapped));
+    if (bytes.length === 16) best = Math.min(best, lookupBits(index.ipv6, bytes));
+  }
+  return best;
+};
+
+// Entries checked one by one, in order, because they can't be indexed.
+type LinearEntries<T = string> = [number, T][];
+
+const lookupLinear = <T>(entries: LinearEntries<T>, before: number, isMatch: (entry: T) => boolean): number => {
+  for (const [index, entry] of entries) {
+    if (index >= before) break;
+    if (isMatch(entry)) return index;
+  }
+  return NOT_FOUND;
+};
+
+const lookupLinearAsync = async <T>(entries: LinearEntries<T>, before: number, isMatch: (entry: T) => Promise<boolean>): Promise<number> => {
+  for (const [index, entry] of entries) {
+    if (index >= before) break;
+    if (await isMatch(entry)) return index;
+  }
+  return NOT_FOUND;
+};
+
+// `*` patterns whose labels are all either `*` or free of regex syntax can live in the trie;
+// anything else keeps the regex semantics of isWildcardMatch.
+const isTrieWildcard = (rule: string): boolean =>
+  rule.split('.').every(label => label === '*' || !/[*\\^$|?+()[\]{}]/.test(label));
+
+const compileDomainIndex = (rules: string[]): RuleIndex => {
+  const exactLines = new Map<string, number>();
+  const trie = createDomainNode();
+  const patterns: LinearEntries = [];
+
+  rules.forEach((line, index) => {
+    const rule = line.toLowerCase();
+    if (!exactLines.has(rule)) exactLines.set(rule, index);
+    if (rule.startsWith('+.')) {
+      addDomain(trie, rule.substring(2), 'suffix', index);
+    } else if (rule.startsWith('.')) {
+      addDomain(trie, rule.substring(1), 'subdomain', index);
+    } else if (rule.includes('*')) {
+      if (isTrieWildcard(rule)) {
+        addDomain(trie, rule, 'exact', index, true);
+      } else {
+        patterns.push([index, line]);
+      }
+    }
+  });
+
+  const match = ({ domain }: RuleIndexQuery) => {
+    let best = earliest(NOT_FOUND, exactLines.get(domain));
+    best = Math.min(best, lookupDomain(trie, domain.split('.').reverse(), 0));
+    best = Math.min(best, lookupLinear(patterns, best, pattern => isWildcardMatch(domain, pattern)));
+    return best === NOT_FOUND ? null : rules[best];
+  };
+  return { entryCount: rules.length, resolvesIp: false, match, matchWith: async query => match(query) };
+};
+
+const compileIpCidrIndex = (rules: string[]): RuleIndex => {
+  const cidrs = createCidrIndex();
+  rules.forEach((line, index) => addCidr(cidrs, line, index));
+
+  const match = ({ ips }: RuleIndexQuery) => {
+    const best = lookupCidr(cidrs, ips);
+    return best === NOT_FOUND ? null : rules[best];
+  };
+  return { entryCount: rules.length, resolvesIp: rules.length > 0, match, matchWith: async query => match(query) };
+};
+
+// Classical entry types that need the destination IP.
+const RESOLVING_TYPES = ['IP-CIDR', 'IP-CIDR6', 'IP-SUFFIX', 'GEOIP', 'IP-ASN'];
+
+const needsDestinationIp = (rule: Rule): boolean => {
+  if (rule.type === 'AND' || rule.type === 'OR' || rule.type === 'NOT') return rule.conditions.some(needsDestinationIp);
+  return RESOLVING_TYPES.includes(rule.type) && !rule.options.noResolve && !rule.options.src;
+};
+
+// Providers can't refer to other providers, so RULE-SET entries, even as conditions, never match.
+const refersToProvider = (rule: Rule): boolean => {
+  if (rule.type === 'AND' || rule.type === 'OR' || rule.type === 'NOT') return rule.conditions.some(refersToProvider);
+  return rule.type === 'RULE-SET';
+};
+
+// Entries are parsed like conditions of logical rules: a type and a payload, then options, but no policy.
+// Entries that don't parse never match.
+const compileClassicalIndex = (rules: string[]): RuleIndex => {
+  const domains = createDomainNode();
+  const keywords: [string, number][] = [];
+  const domainPatterns: LinearEntries<Rule> = []; // DOMAIN-REGEX and DOMAIN-WILDCARD
+  const dstCidrs = createCidrIndex();
+  const srcCidrs = createCidrIndex();
+  const others: LinearEntries<Rule> = [];
+  let resolvesIp = false;
+
+  rules.forEach((line, index) => {
+    let rule: Rule;
+    try {
+      rule = parseRule(line, false);
+    } catch {
+      return;
+    }
+    if (refersToProvider(rule)) return;
+    if (needsDestinationIp(rule)) resolvesIp = true;
+    const value = rule.payload;
+    switch (rule.type) {
+      case 'DOMAIN':
+        addDomain(domains, value.toLowerCase(), 'exact', index);
+        break;
+      case 'DOMAIN-SUFFIX':
+        addDomain(domains, value.toLowerCase(), 'suffix', index);
+        break;
+      case 'DOMAIN-KEYWORD':
+        keywords.push([value.toLowerCase(), index]);
+        break;
+      case 'DOMAIN-REGEX':
+      case 'DOMAIN-WILDCARD':
+        domainPatterns.push([index, rule]);
+        break;
+      case 'IP-CIDR':
+      case 'IP-CIDR6':
+        addCidr(rule.options.src ? srcCidrs : dstCidrs, value, index);
+        break;
+      case 'SRC-IP-CIDR':
+        addCidr(srcCidrs, value, index);
+        break;
+      default:
+        others.push([index, rule]);
+    }
+  });
+  const keywordAutomaton = buildKeywordAutomaton(keywords);
+
+  const lookupIndexed = ({ domain, ips, srcIp }: RuleIndexQuery): number => {
+    let best = NOT_FOUND;
+    if (domain) {
+      best = lookupDomain(domains, domain.split('.').reverse(), 0);
+      best = Math.min(best, lookupKeywords(keywordAutomaton, domain));
+      best = Math.min(best, lookupLinear(domainPatterns, best, rule => isDomainRuleMatch(rule.type, rule.payload, domain)));
+    }
+    best = Math.min(best, lookupCidr(dstCidrs, ips));
+    if (srcIp) best = Math.min(best, lookupCidr(srcCidrs, [srcIp]));
+    return best;
+  };
+  const toEntry = (best: number) => (best === NOT_FOUND ? null : rules[best]);
+
+  return {
+    entryCount: rules.length,
+    resolvesIp,
+    match: query => toEntry(lookupIndexed(query)),
+    matchWith: async (query, isOtherMatch) => {
+      const best = lookupIndexed(query);
+      return toEntry(Math.min(best, await lookupLinearAsync(others, best, isOtherMatch)));
+    },
+  };
+};
+
+/**
+ * Compiles a provider's entries into an index.
+ * @param behavior The provider behavior: `domain`, `ipcidr` or `classical`.
+ */
+export const compileRuleIndex = (rules: string[], behavior: string = 'classical'): RuleIndex => {
+  if (behavior === 'domain') return compileDomainIndex(rules);
+  if (behavior === 'ipcidr') return compileIpCidrIndex(rules);
+  return compileClassicalIndex(rules);
+};
+
+// Keyed by the rules array itself: fetched providers keep the same array in providerCache
+// and inline providers keep the one in the parsed config, so each is compiled once.
+const indexCache = new WeakMap<string[], Map<string, RuleIndex>>();
+
+/**
+ * Returns the compiled index of a provider, compiling it on first use.
+ */
+export const getRuleIndex = (rules: string[], behavior: string = 'classical'): RuleIndex => {
+  let byBehavior = indexCache.get(rules);
+  if (!byBehavior) {
+    byBehavior = new Map();
+    indexCache.set(rules, byBehavior);
+  }
+  let index = byBehavior.get(behavior);
+  if (!index) {
+    index = compileRuleIndex(rules, behavior);
+    byBehavior.set(behavior, index);
+  }
+  return index;
+};
+
+const isCidrEntryMatch = (cidr: string, ips: string[]): boolean => {
+  const parsed = parseCidr(cidr);
+  return parsed !== null && ips.some(ip => isCidrMatch(ip, parsed));
+};
+
+// The check each index makes of one entry, without building an index for it.
+const isEntryMatch = async (
+  line: string,
+  behavior: string,
+  { domain, ips, srcIp }: RuleIndexQuery,
+  isOtherMatch: (rule: Rule) => Promise<boolean>
+): Promise<boolean> => {
+  if (behavior === 'domain') return isWildcardMatch(domain, line);
+  if (behavior === 'ipcidr') return isCidrEntryMatch(line, ips);
+  let rule: Rule;
+  try {
+    rule = parseRule(line, false);
+  } catch {
+    return false;
+  }
+  if (refersToProvider(rule)) return false;
+  switch (rule.type) {
+    case 'DOMAIN':
+    case 'DOMAIN-SUFFIX':
+    case 'DOMAIN-KEYWORD':
+    case 'DOMAIN-REGEX':
+    case 'DOMAIN-WILDCARD':
+      return domain !== '' && isDomainRuleMatch(rule.type, rule.payload, domain);
+    case 'IP-CIDR':
+    case 'IP-CIDR6':
+      return isCidrEntryMatch(rule.payload, rule.options.src ? (srcIp ? [srcIp] : []) : ips);
+    case 'SRC-IP-CIDR':
+      return srcIp !== undefined && isCidrEntryMatch(rule.payload, [srcIp]);
+    default:
+      return isOtherMatch(rule);
+  }
+};
+
+/**
+ * Finds every entry of a provider matching the query, not just the first.
+ * Entries are checked one by one the way the index checks them, so the results follow the same semantics as `match`.
+ * @returns Positions of the matching entries, in provider order.
+ */
+export const findAllMatches = async (
+  rules: string[],
+  behavior: string,
+  query: RuleIndexQuery,
+  isOtherMatch: (rule: Rule) => Promise<boolean> = async () => false
+): Promise<number[]> => {
+  if (await getRuleIndex(rules, behavior).matchWith(query, isOtherMatch) === null) return [];
+  const positions: number[] = [];
+  for (const [index, line] of rules.entries()) {
+    if (await isEntryMatch(line, behavior, query, isOtherMatch)) positions.push(index);
+  }
+  return positions;
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  // The linear scans the index replaces, used as the reference.
+  const scanDomains = (rules: string[], domain: string) => rules.find(rule => isWildcardMatch(domain, rule)) ?? null;
+  const scanCidrs = (rules: string[], ip: string) => rules.find(rule => {
+    const cidr = parseCidr(rule);
+    return cidr !== null && isCidrMatch(ip, cidr);
+  }) ?? null;
+
+  describe('compileRuleIndex with domain behavior', () => {
+    const rules = [
+      'www.example.com',
+      '*.example.com',
+      '+.example.com',
+      '.cdn.example.net',
+      '+.example.net',
+      'a*b.example.org',
+      '*.*.example.org',
+      '+.*.weird',
+      '*',
+      'EXAMPLE.IO',
+      '+.example.com',
+    ];
+    const index = compileRuleIndex(rules, 'domain');
+    const domains = [
+      'www.example.com', 'api.example.com', 'example.com', 'a.b.example.com',
+      'cdn.example.net', 'x.cdn.example.net', 'example.net',
+      'axxb.example.org', 'x.y.example.org', 'ab.example.org',
+      'a.*.weird', 'localhost', 'example.io', 'example.dev', '+.example.com',
+    ];
+
+    it('should return the same entry as a linear scan', () => {
+      for (const domain of domains) {
+        expect(index.match({ domain, ips: [] }), domain).toBe(scanDomains(rules, domain));
+      }
+    });
+
+    it('should prefer the entry that comes first', () => {
+      expect(index.match({ domain: 'api.example.com', ips: [] })).toBe('*.example.com');
+      expect(index.match({ domain: 'a.b.example.com', ips: [] })).toBe('+.example.com');
+    });
+  });
+
+  describe('compileRuleIndex with ipcidr behavior', () => {
+    const rules = ['10.1.0.0/16', '10.0.0.0/8', '10.2.3.4/8', '0.0.0.0/1', '2001:db8::/32', '2001:db8:1::/48', 'bad', '::ffff:0:0/96'];
+    const index = compileRuleIndex(rules, 'ipcidr');
+
+    it('should return the same entry as a linear scan', () => {
+      for (const ip of ['10.1.2.3', '10.9.9.9', '8.8.8.8', '200.0.0.1', '2001:db8:1::1', '2001:db9::1', '::ffff:200.0.0.1']) {
+        expect(index.match({ domain: '', ips: [ip] }), ip).toBe(scanCidrs(rules, ip));
+      }
+    });
+
+    it('should match IPv4-mapped addresses against IPv4 CIDRs', () => {
+      expect(index.match({ domain: '', ips: ['::ffff:10.1.0.1'] })).toBe('10.1.0.0/16');
+    });
+
+    it('should match if any of the addresses matches', () => {
+      expect(index.match({ domain: '', ips: ['2001:db9::1', '10.9.9.9'] })).toBe('10.0.0.0/8');
+    });
+
+    it('should not match without an IP', () => {
+      expect(index.match({ domain: 'example.com', ips: [] })).toBeNull();
+    });
+  });
+
+  describe('compileRuleIndex with classical behavior', () => {
+    const rules = [
+      'DST-PORT,443',
+      'DOMAIN,www.example.com',
+      'DOMAIN-KEYWORD,ample',
+      'DOMAIN-SUFFIX,example.com',
+      'DOMAIN-KEYWORD,goo',
+      'DOMAIN-KEYWORD,oogle',
+      'IP-CIDR,192.168.0.0/16,no-resolve',
+      'SRC-IP-CIDR,10.0.0.0/8',
+    ];
+    const index = compileRuleIndex(rules, 'classical');
+
+    it('should match domain, keyword and CIDR entries', () => {
+      expect(index.match({ domain: 'www.example.com', ips: [] })).toBe('DOMAIN,www.example.com');
+      expect(index.match({ domain: 'api.example.com', ips: [] })).toBe('DOMAIN-KEYWORD,ample');
+      expect(index.match({ domain: 'www.google.com', ips: [] })).toBe('DOMAIN-KEYWORD,goo');
+      expect(index.match({ domain: 'oogle.org', ips: [] })).toBe('DOMAIN-KEYWORD,oogle');
+      expect(index.match({ domain: 'a.org', ips: ['192.168.1.1'] })).toBe('IP-CIDR,192.168.0.0/16,no-resolve');
+      expect(index.match({ domain: 'a.org', ips: [], srcIp: '10.0.0.1' })).toBe('SRC-IP-CIDR,10.0.0.0/8');
+      expect(index.match({ domain: 'a.org', ips: [] })).toBeNull();
+    });
+
+    it('should check other entries in order, before later indexed ones', async () => {
+      const isOtherMatch = async (rule: Rule) => rule.raw === 'DST-PORT,443';
+      expect(await index.matchWith({ domain: 'www.example.com', ips: [] }, isOtherMatch)).toBe('DST-PORT,443');
+      expect(index.match({ domain: 'www.example.com', ips: [] })).toBe('DOMAIN,www.example.com');
+    });
+
+    it('should hand logical entries to isOtherMatch parsed, and skip RULE-SET entries', async () => {
+      const seen: string[] = [];
+      const logical = compileRuleIndex(['AND,((DOMAIN-SUFFIX,google.com),(NETWORK,udp))', 'RULE-SET,other', 'OR,((RULE-SET,other))'], 'classical');
+      expect(await logical.matchWith({ domain: 'www.google.com', ips: [] }, async rule => {
+        seen.push(rule.type);
+        return true;
+      })).toBe('AND,((DOMAIN-SUFFIX,google.com),(NETWORK,udp))');
+      expect(seen).toEqual(['AND']);
+    });
+
+    it('should match CIDR entries with src against the source IP', () => {
+      const src = compileRuleIndex(['IP-CIDR,10.0.0.0/8,src'], 'classical');
+      expect(src.match({ domain: '', ips: ['10.0.0.1'] })).toBeNull();
+      expect(src.match({ domain: '', ips: [], srcIp: '10.0.0.1' })).toBe('IP-CIDR,10.0.0.0/8,src');
+      expect(src.resolvesIp).toBe(false);
+    });
+  });
+
+  describe('resolvesIp', () => {
+    it('should only be set by IP entries without no-resolve', () => {
+      expect(compileRuleIndex(['+.example.com'], 'domain').resolvesIp).toBe(false);
+      expect(compileRuleIndex(['10.0.0.0/8'], 'ipcidr').resolvesIp).toBe(true);
+      expect(compileRuleIndex(['DOMAIN,a.com', 'IP-CIDR,10.0.0.0/8,no-resolve'], 'classical').resolvesIp).toBe(false);
+      expect(compileRuleIndex(['DOMAIN,a.com', 'GEOIP,CN'], 'classical').resolvesIp).toBe(true);
+      expect(compileRuleIndex(['OR,((DOMAIN,a.com),(GEOIP,CN))'], 'classical').resolvesIp).toBe(true);
+    });
+  });
+
+  describe('getRuleIndex', () => {
+    it('should compile each provider once per behavior', () => {
+      const rules = ['+.example.com'];
+      expect(getRuleIndex(rules, 'domain')).toBe(getRuleIndex(rules, 'domain'));
+      expect(getRuleIndex(rules, 'domain')).not.toBe(getRuleIndex(rules, 'classical'));
+    });
+  });
+
+  describe('findAllMatches', () => {
+    it('should return every matching entry in provider order', async () => {
+      const rules = ['www.example.com', '+.example.net', '*.example.com', '+.example.com', 'other.org'];
+      expect(await findAllMatches(rules, 'domain', { domain: 'www.example.com', ips: [] })).toEqual([0, 2, 3]);
+      expect(await findAllMatches(rules, 'domain', { domain: 'example.org', ips: [] })).toEqual([]);
+      expect(await findAllMatches(['10.0.0.0/8', '10.1.0.0/16', '192.168.0.0/16'], 'ipcidr', { domain: '', ips: ['10.1.2.3'] }))
+        .toEqual([0, 1]);
+    });
+
+    it('should check classical entries like the index does', async () => {
+      const rules = [
+        'DOMAIN-SUFFIX,example.com',
+        'IP-CIDR,10.0.0.0/8,no-resolve',
+        'IP-CIDR,192.168.0.0/16,src',
+        'RULE-SET,other',
+        'DOMAIN-KEYWORD,exam',
+        'DST-PORT,443',
+        'BROKEN',
+      ];
+      const query = { domain: 'www.example.com', ips: ['10.1.2.3'], srcIp: '192.168.1.2' };
+      expect(await findAllMatches(rules, 'classical', query, async rule => rule.type === 'DST-PORT')).toEqual([0, 1, 2, 4, 5]);
+      expect(await findAllMatches(rules, 'classical', { domain: '', ips: ['10.1.2.3'] })).toEqual([1]);
+    });
+  });
+}
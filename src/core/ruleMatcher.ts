@@ -1,146 +1,1239 @@
 import type { ClashConfig, RuleProvider } from './configParser';
-import CIDR from 'ip-cidr';
-import { isWildcardMatch, matchDomainRule } from './helper';
-import { resolveDomainToIp, getRulesFromProvider } from './network';
+import { compileDomainPattern, isCidrMatch, isDomainRuleMatch, isIpSuffixMatch, isListMatch, isPortMatch, parseCidr, parseIpBytes } from './helper';
+import { getRulesFromProvider } from './network';
+import { dohResolver, fakeIpFor, isFakeIpDomain, matchHosts, resolveWithConfig } from './dns';
+import type { DnsResolution, DomainCategoryMatcher, Resolver } from './dns';
+import { getEffectiveRuleType, isLogicalRuleType, parseRule } from './ruleParser';
+import type { LogicalRule, Rule, SubRule } from './ruleParser';
+import { findAllMatches, getRuleIndex } from './ruleIndex';
+import { resolvePolicyChain } from './policyResolver';
+import type { GroupSelections, PolicyChain } from './policyResolver';
+import { matchGeoIp, matchGeoSite, matchIpAsn } from './geoData';
+import type { GeoDatabases, GeoMatch } from './geoData';
+
+// One node of an evaluated AND/OR/NOT rule, showing which sub-conditions held.
+export interface LogicalMatch {
+  rule: string;
+  matched: boolean;
+  subMatchingRule?: string; // For RULE-SET conditions
+  geoMatch?: GeoMatch; // For GEOIP/GEOSITE/ASN conditions
+  conditions?: LogicalMatch[];
+}
+
+// Everything known about the connection being tested. Only `host` is required;
+// rules that depend on a missing field never match.
+export interface ConnectionMetadata {
+  host: string; // Destination domain, or an IP address to test without DNS
+  dstIp?: string; // Destination IP, used instead of resolving `host`
+  dstPort?: number;
+  network?: 'tcp' | 'udp';
+  srcIp?: string;
+  srcPort?: number;
+  processName?: string;
+  processPath?: string;
+  inPort?: number; // Port of the inbound listener
+  inType?: string; // Inbound type, e.g. HTTP, SOCKS5, MIXED, TUN
+  inUser?: string;
+  inName?: string;
+}
+
+// One level of a SUB-RULE match: the sub-rules list entered and its rule that matched.
+export interface SubRuleStep {
+  list: string;
+  rule: string;
+}
 
 export interface MatchResult {
   domain: string;
-  resolvedIp?: string;
+  resolvedIp?: string; // The first of resolvedIps
+  resolvedIps?: string[]; // Every destination IP the rules were checked against
+  dnsResolution?: DnsResolution; // How the domain was resolved, when it was
+  fakeIp?: string; // The fake IP the client was handed in fake-ip mode
   matchingRule: string;
-  subMatchingRule?: string; // For RULE-SET matches
+  subMatchingRule?: string; // For RULE-SET matches, also within sub-rules
+  subRulePath?: SubRuleStep[]; // For SUB-RULE matches, from the outermost list in
+  logicalMatch?: LogicalMatch; // For AND/OR/NOT matches
+  geoMatch?: GeoMatch; // For GEOIP/GEOSITE/ASN matches
   finalPolicy: string;
+  policyChain?: PolicyChain; // Set when the config defines proxies or proxy-groups
 }
 
+// The provider a RULE-SET rule consulted.
+export interface ProviderTrace {
+  name: string;
+  behavior: string;
+  entryCount: number;
+}
 
-export const matchDomain = async (config: ClashConfig, domain: string): Promise<MatchResult | null> => {
-  const rules = config.rules ?? [];
-  const providers = config['rule-providers'] ?? {};
-  const lowerCaseDomain = domain.toLowerCase();
+// How one top-level rule was evaluated in explain mode.
+export interface RuleTrace {
+  index: number; // Position in `rules`
+  rule: string;
+  matched: boolean;
+  reason: string;
+  provider?: ProviderTrace;
+  subMatchingRule?: string;
+  subRulePath?: SubRuleStep[];
+  error?: string; // Set when the rule failed to evaluate
+}
 
-  let resolvedIp: string | null = null;
-  const hasIpBasedRules = rules.some(r => {
-    const upperRule = r.toUpperCase();
-    return upperRule.startsWith('IP-CIDR') || upperRule.startsWith('RULE-SET');
-  });
+export interface MatchExplanation {
+  result: MatchResult | null; // The same result matchDomain returns
+  trace: RuleTrace[]; // Every rule, in order, including those after the first match
+  shadowed: RuleTrace[]; // Later rules that would also have matched, shadowed by the first match
+}
 
-  if (hasIpBasedRules) {
-    resolvedIp = await resolveDomainToIp(domain);
-  }
-
-  for (const ruleString of rules) {
-    const parts = ruleString.split(',');
-    if (parts.length < 2) continue;
-
-    const ruleType = parts[0].toUpperCase();
-    const value = parts[1];
-    const policy = parts[parts.length - 1];
-
-    let isMatch = false;
-    let subMatchingRule: string | undefined = undefined;
-
-    switch (ruleType) {
-      case 'DOMAIN-SUFFIX':
-      case 'DOMAIN':
-      case 'DOMAIN-KEYWORD':
-        if (isWildcardMatch(lowerCaseDomain, value)) isMatch = true;
-        break;
-      case 'IP-CIDR':
-        if (resolvedIp) {
-          try {
-            if (new CIDR(value).contains(resolvedIp)) isMatch = true;
-          } catch {
-            console.warn(`Invalid CIDR "${value}" in rule: ${ruleString}`);
-          }
-        }
-        break;
-      case 'RULE-SET': {
-        const providerConfig = providers[value] as RuleProvider;
-        if (!providerConfig) break;
-
-        let providerRules: string[] | null = null;
-
-        try {
-          if (providerConfig.type === 'http') {
-            providerRules = await getRulesFromProvider(providerConfig.url!, providerConfig.format);
-          } else if (providerConfig.type === 'inline') {
-            if (Array.isArray(providerConfig.payload)) {
-              providerRules = providerConfig.payload;
-            }
-          }
+// Reported while matching runs, so long runs can show what they are doing.
+export type MatchProgress =
+  | { kind: 'provider'; name: string; entryCount: number } // A provider was loaded, or taken from the cache
+  | { kind: 'rule'; index: number; total: number } // A top-level rule was evaluated
+  | { kind: 'domain'; done: number; total: number }; // A domain of a batch was finished
 
-          if (providerRules) {
-            const subMatch = matchAgainstRuleList(domain, resolvedIp, providerRules, providerConfig.behavior);
-            if (subMatch) {
-              isMatch = true;
-              subMatchingRule = subMatch;
-            }
-          }
-        } catch (e: unknown) {
-          if (e instanceof Error) {
-            throw new Error(`Provider "${value}": ${e.message}`);
-          }
-          throw new Error(`Provider "${value}": ${e}`);
-        }
-        break;
+export interface MatchOptions {
+  selections?: GroupSelections; // Chosen members of `select` groups
+  geo?: GeoDatabases;
+  // Loads a provider's rules instead of fetching it, e.g. from a local file.
+  // Returning null falls back to the default http/inline handling.
+  loadProvider?: (name: string, provider: RuleProvider) => Promise<string[] | null>;
+  resolver?: Resolver; // Looks up domains, behind the config's hosts and dns sections; DoH by default
+  signal?: AbortSignal; // Cancels the run, aborting provider downloads and DNS lookups in flight
+  onProgress?: (progress: MatchProgress) => void;
+}
+
+interface MatchContext {
+  metadata: ConnectionMetadata;
+  domain: string; // Lower-case host, empty when the host is an IP address
+  // Destination IPs, null until a rule without no-resolve needs them, like mihomo resolves lazily
+  resolvedIps: string[] | null;
+  dnsConfig: Pick<ClashConfig, 'dns' | 'hosts'>;
+  resolver: Resolver;
+  dnsResolution?: DnsResolution;
+  fakeIp?: string;
+  providers: { [key: string]: RuleProvider };
+  subRules: { [name: string]: string[] };
+  subRuleStack: string[]; // The sub-rules lists being evaluated, outermost first, to catch loops
+  geo: GeoDatabases;
+  loadProvider?: MatchOptions['loadProvider'];
+  signal?: AbortSignal;
+  onProgress?: MatchOptions['onProgress'];
+}
+
+interface RuleEvaluation {
+  isMatch: boolean;
+  subMatchingRule?: string;
+  subRulePath?: SubRuleStep[];
+  policy?: string; // The policy of the rule that matched within sub-rules, which replaces the SUB-RULE's list name
+  logicalMatch?: LogicalMatch;
+  geoMatch?: GeoMatch;
+  provider?: ProviderTrace;
+  reason?: string; // Overrides the generic explanation, e.g. for invalid payloads
+}
+
+type ParsedRule = { rule: Rule; error?: undefined } | { rule?: undefined; error: string };
+
+// Parsed once per rules array, so batch runs don't parse the config again for every domain.
+const parsedRuleLists = new WeakMap<string[], ParsedRule[]>();
+
+const getParsedRules = (rules: string[]): ParsedRule[] => {
+  let parsed = parsedRuleLists.get(rules);
+  if (!parsed) {
+    parsed = rules.map(raw => {
+      try {
+        return { rule: parseRule(String(raw)) };
+      } catch (e: unknown) {
+        return { error: e instanceof Error ? e.message : String(e) };
       }
-      case 'MATCH':
-      case 'FINAL':
-        isMatch = true;
-        break;
-    }
-
-    if (isMatch) {
-      return {
-        domain: domain,
-        resolvedIp: resolvedIp || undefined,
-        matchingRule: ruleString,
-        subMatchingRule: subMatchingRule,
-        finalPolicy: policy,
-      };
+    });
+    parsedRuleLists.set(rules, parsed);
+  }
+  return parsed;
+};
+
+// A malformed logical rule fails the match, since its conditions cannot be evaluated;
+// other malformed rules are skipped, and reported by the linter and the config diagnostics.
+const toLogicalRuleError = (ruleString: string, error: string): Error | null =>
+  (isLogicalRuleType(String(ruleString).split(',')[0].trim()) ? new Error(`Invalid logical rule "${ruleString}": ${error}`) : null);
+
+// Hands the run's signal to every lookup, including those made through the config's dns section.
+const withSignal = (resolver: Resolver, signal: AbortSignal | undefined): Resolver =>
+  (signal ? { resolve: domain => resolver.resolve(domain, signal) } : resolver);
+
+const toMetadata = (input: string | ConnectionMetadata): ConnectionMetadata =>
+  typeof input === 'string' ? { host: input } : input;
+
+const createContext = async (
+  config: ClashConfig,
+  metadata: ConnectionMetadata,
+  options: MatchOptions
+): Promise<MatchContext> => {
+  const host = metadata.host.trim();
+  const isIpHost = parseIpBytes(host) !== null;
+  let resolvedIps: string[] | null = null;
+  if (metadata.dstIp) {
+    resolvedIps = [metadata.dstIp];
+  } else if (isIpHost) {
+    resolvedIps = [host];
+  }
+
+  const context: MatchContext = {
+    metadata,
+    domain: isIpHost ? '' : host.toLowerCase(),
+    resolvedIps,
+    dnsConfig: { dns: config.dns, hosts: config.hosts },
+    resolver: withSignal(options.resolver ?? dohResolver, options.signal),
+    providers: config['rule-providers'] ?? {},
+    subRules: config['sub-rules'] ?? {},
+    subRuleStack: [],
+    geo: options.geo ?? {},
+    loadProvider: options.loadProvider,
+    signal: options.signal,
+    onProgress: options.onProgress,
+  };
+
+  // With the dns section enabled, the client asked mihomo for the domain first. A fake IP maps back
+  // to the domain and rules resolve lazily; a real IP arrives with the connection, so even
+  // no-resolve rules see it. mihomo answers from hosts before handing out fake IPs.
+  if (context.resolvedIps === null && context.domain && config.dns?.enable) {
+    const hasHostsEntry = !!config.hosts && config.dns['use-hosts'] !== false && matchHosts(config.hosts, context.domain) !== null;
+    if (!hasHostsEntry && await isFakeIpDomain(config.dns, context.domain, createCategoryMatcher(context))) {
+      context.fakeIp = fakeIpFor(context.domain, config.dns['fake-ip-range']);
+    } else {
+      await getDestinationIps(context, true);
     }
   }
+  return context;
+};
 
-  return null;
+/**
+ * Returns the destination IPs, resolving the domain first if no rule has done so yet.
+ * @param shouldResolve False for rules with no-resolve, which only see IPs resolved earlier.
+ */
+const getDestinationIps = async (context: MatchContext, shouldResolve: boolean): Promise<string[]> => {
+  if (context.resolvedIps === null && shouldResolve) {
+    if (context.domain) {
+      context.dnsResolution = await resolveWithConfig(context.dnsConfig, context.domain, context.resolver, createCategoryMatcher(context));
+      context.resolvedIps = context.dnsResolution.ips;
+    } else {
+      context.resolvedIps = [];
+    }
+  }
+  return context.resolvedIps ?? [];
 };
 
-const matchAgainstRuleList = (domain: string, resolvedIp: string | null, rules: string[], behavior: string = 'classical'): string | null => {
-  const lowerCaseDomain = domain.toLowerCase();
+// Answers the geosite: and rule-set: patterns of nameserver-policy and fake-ip-filter.
+// Patterns whose data is missing simply don't match, rather than failing the whole match.
+const createCategoryMatcher = (context: MatchContext): DomainCategoryMatcher => async (kind, name, domain) => {
+  try {
+    if (kind === 'geosite') {
+      return context.geo.geosite !== undefined && matchGeoSite(context.geo, name, domain) !== null;
+    }
+    const provider = context.providers[name];
+    const rules = provider && await loadProviderRules(name, provider, context);
+    return !!rules && getRuleIndex(rules, provider.behavior).match({ domain, ips: [] }) !== null;
+  } catch {
+    return false;
+  }
+};
 
-  for (const line of rules) {
-    if (isRuleMatch(line, lowerCaseDomain, resolvedIp, behavior)) {
-      return line;
+const toMatchResult = (
+  config: ClashConfig,
+  context: MatchContext,
+  ruleString: string,
+  policy: string,
+  evaluation: RuleEvaluation,
+  options: MatchOptions
+): MatchResult => ({
+  domain: context.metadata.host,
+  resolvedIp: context.resolvedIps?.[0],
+  resolvedIps: context.resolvedIps?.length ? context.resolvedIps : undefined,
+  dnsResolution: context.dnsResolution,
+  fakeIp: context.fakeIp,
+  matchingRule: ruleString,
+  subMatchingRule: evaluation.subMatchingRule,
+  subRulePath: evaluation.subRulePath,
+  logicalMatch: evaluation.logicalMatch,
+  geoMatch: evaluation.geoMatch,
+  finalPolicy: policy,
+  policyChain: config.proxies || config['proxy-groups']
+    ? resolvePolicyChain(config, policy, options.selections)
+    : undefined,
+});
+
+export const matchDomain = async (
+  config: ClashConfig,
+  input: string | ConnectionMetadata,
+  options: MatchOptions = {}
+): Promise<MatchResult | null> => {
+  const context = await createContext(config, toMetadata(input), options);
+
+  const rules = config.rules ?? [];
+  for (const [index, { rule, error }] of getParsedRules(rules).entries()) {
+    options.signal?.throwIfAborted();
+    if (!rule) {
+      const logicalError = toLogicalRuleError(rules[index], error);
+      if (logicalError) throw logicalError;
+      continue;
+    }
+
+    const evaluation = await evaluateRule(rule, context);
+    options.onProgress?.({ kind: 'rule', index, total: rules.length });
+
+    if (evaluation.isMatch) {
+      return toMatchResult(config, context, rule.raw, evaluation.policy ?? rule.policy, evaluation, options);
     }
   }
+
   return null;
 };
 
-function isRuleMatch(
-  line: string,
-  lowerCaseDomain: string,
-  resolvedIp: string | null,
-  behavior: string = 'classical'
-): boolean {
-  if (behavior === 'domain') {
-    return isWildcardMatch(lowerCaseDomain, line);
-  } else if (behavior === 'ipcidr') {
-    if (resolvedIp) {
-      try {
-        if (new CIDR(line).contains(resolvedIp)) return true;
-      } catch { /* ignore invalid CIDR */ }
-    }
-  } else { // classical behavior
-    const parts = line.split(',');
-    const type = parts[0]?.toUpperCase();
-    const value = parts[1];
-    if (!value) return false;
-    if (type === 'DOMAIN' || type === 'DOMAIN-SUFFIX' || type === 'DOMAIN-KEYWORD') {
-      return matchDomainRule(lowerCaseDomain, value);
-    }
-    if (type === 'IP-CIDR' && resolvedIp) {
+/**
+ * Like matchDomain, but evaluates every rule instead of stopping at the first hit,
+ * recording why each rule did or did not match. Rules that fail to evaluate are
+ * recorded with their error instead of aborting the run.
+ */
+export const explainMatch = async (
+  config: ClashConfig,
+  input: string | ConnectionMetadata,
+  options: MatchOptions = {}
+): Promise<MatchExplanation> => {
+  const context = await createContext(config, toMetadata(input), options);
+  const trace: RuleTrace[] = [];
+  let result: MatchResult | null = null;
+  let firstMatchIndex = -1;
+
+  const rules = config.rules ?? [];
+  for (const [index, { rule, error: parseError }] of getParsedRules(rules).entries()) {
+    options.signal?.throwIfAborted();
+    const ruleString = rules[index];
+    if (!rule) {
+      const logicalError = toLogicalRuleError(ruleString, parseError)?.message;
+      trace.push(logicalError
+        ? { index, rule: ruleString, matched: false, reason: `Failed to evaluate: ${logicalError}`, error: logicalError }
+        : { index, rule: ruleString, matched: false, reason: `Malformed rule, skipped: ${parseError}` });
+      continue;
+    }
+
+    let evaluation: RuleEvaluation;
+    try {
+      evaluation = await evaluateRule(rule, context);
+    } catch (e: unknown) {
+      if (options.signal?.aborted) throw e;
+      const error = e instanceof Error ? e.message : String(e);
+      trace.push({ index, rule: ruleString, matched: false, reason: `Failed to evaluate: ${error}`, error });
+      continue;
+    }
+    options.onProgress?.({ kind: 'rule', index, total: rules.length });
+
+    trace.push({
+      index,
+      rule: ruleString,
+      matched: evaluation.isMatch,
+      reason: evaluation.reason ?? describeEvaluation(rule, evaluation, context),
+      provider: evaluation.provider,
+      subMatchingRule: evaluation.subMatchingRule,
+      subRulePath: evaluation.subRulePath,
+    });
+
+    if (evaluation.isMatch && !result) {
+      result = toMatchResult(config, context, ruleString, evaluation.policy ?? rule.policy, evaluation, options);
+      firstMatchIndex = index;
+    }
+  }
+
+  return {
+    result,
+    trace,
+    shadowed: result ? trace.filter(t => t.matched && t.index > firstMatchIndex) : [],
+  };
+};
+
+// Every entry of one provider that matches a connection, for the provider inspector.
+export interface ProviderMatches {
+  provider: ProviderTrace;
+  entries: { index: number; entry: string }[]; // Positions within the provider, in provider order
+  resolvedIps?: string[];
+}
+
+/**
+ * Loads the entries of a provider from `rule-providers` the way RULE-SET rules do.
+ */
+export const loadProviderEntries = async (config: ClashConfig, name: string, options: MatchOptions = {}): Promise<string[]> => {
+  const provider = config['rule-providers']?.[name];
+  if (!provider) throw new Error(`Provider "${name}" is not defined in rule-providers.`);
+  const rules = await loadProviderRules(name, provider, options);
+  if (!rules) {
+    throw new Error(provider.type === 'file'
+      ? `Provider "${name}" reads the local file "${provider.path ?? ''}", which has not been loaded.`
+      : `Provider "${name}" has no rules to load (type "${provider.type}").`);
+  }
+  return rules;
+};
+
+/**
+ * Finds every entry of a provider matching the connection, where a RULE-SET rule only reports the first.
+ * The domain is resolved if some entry needs the destination IP, as for `RULE-SET` without no-resolve.
+ */
+export const findProviderMatches = async (
+  config: ClashConfig,
+  name: string,
+  input: string | ConnectionMetadata,
+  options: MatchOptions = {}
+): Promise<ProviderMatches> => {
+  const rules = await loadProviderEntries(config, name, options);
+  const behavior = config['rule-providers']![name].behavior ?? 'classical';
+  const context = await createContext(config, toMetadata(input), options);
+  await getDestinationIps(context, getRuleIndex(rules, behavior).resolvesIp);
+  const positions = await findAllMatches(
+    rules,
+    behavior,
+    { domain: context.domain, ips: context.resolvedIps ?? [], srcIp: context.metadata.srcIp },
+    createEntryMatcher(context)
+  );
+  return {
+    provider: { name, behavior, entryCount: rules.length },
+    entries: positions.map(index => ({ index, entry: rules[index] })),
+    resolvedIps: context.resolvedIps?.length ? context.resolvedIps : undefined,
+  };
+};
+
+const CONNECTION_FIELDS: { [ruleType: string]: [string, keyof ConnectionMetadata] } = {
+  'DST-PORT': ['destination port', 'dstPort'],
+  'SRC-PORT': ['source port', 'srcPort'],
+  'NETWORK': ['network', 'network'],
+  'PROCESS-NAME': ['process name', 'processName'],
+  'PROCESS-PATH': ['process path', 'processPath'],
+  'IN-PORT': ['inbound port', 'inPort'],
+  'IN-TYPE': ['inbound type', 'inType'],
+  'IN-USER': ['inbound user', 'inUser'],
+  'IN-NAME': ['inbound name', 'inName'],
+};
+
+// A one-line explanation of an evaluated rule, for the explain trace.
+const describeEvaluation = (rule: Rule, evaluation: RuleEvaluation, context: MatchContext): string => {
+  const { payload: value, options } = rule;
+  const ruleType = getEffectiveRuleType(rule);
+  const { metadata, domain } = context;
+  const resolvedIps = context.resolvedIps ?? [];
+  const verb = evaluation.isMatch ? 'matches' : 'does not match';
+
+  switch (ruleType) {
+    case 'DOMAIN-SUFFIX':
+    case 'DOMAIN':
+    case 'DOMAIN-KEYWORD':
+    case 'DOMAIN-REGEX':
+    case 'DOMAIN-WILDCARD':
+      if (!domain) return `The destination ${metadata.host} is an IP address, not a domain.`;
+      return `Domain "${domain}" ${verb} "${value}".`;
+    case 'IP-CIDR':
+    case 'IP-CIDR6':
+    case 'IP-SUFFIX':
+    case 'IP-ASN':
+    case 'GEOIP':
+      if (resolvedIps.length === 0) {
+        return context.resolvedIps === null && options.noResolve
+          ? 'No destination IP: no-resolve skips resolving the domain.'
+          : 'No destination IP: the domain did not resolve.';
+      }
+      return evaluation.geoMatch
+        ? `Destination IP matches: ${evaluation.geoMatch.entry}.`
+        : `Destination IP ${resolvedIps.join(', ')} ${verb} "${value}".`;
+    case 'SRC-IP-CIDR':
+    case 'SRC-IP-ASN':
+    case 'SRC-GEOIP':
+      if (!metadata.srcIp) return 'No source IP given.';
+      return evaluation.geoMatch
+        ? `Source IP matches: ${evaluation.geoMatch.entry}.`
+        : `Source IP ${metadata.srcIp} ${verb} "${value}".`;
+    case 'GEOSITE':
+      return evaluation.geoMatch
+        ? `Domain matches geosite entry ${evaluation.geoMatch.entry}.`
+        : `Domain "${domain}" is not in geosite category "${value}".`;
+    case 'RULE-SET': {
+      const provider = evaluation.provider;
+      if (!provider) return `Provider "${value}" is not defined in rule-providers.`;
+      const summary = `provider "${provider.name}" (${provider.behavior}, ${provider.entryCount} entries)`;
+      return evaluation.isMatch
+        ? `Entry "${evaluation.subMatchingRule}" of ${summary} matches.`
+        : `No entry of ${summary} matches.`;
+    }
+    case 'AND':
+    case 'OR':
+    case 'NOT': {
+      const conditions = evaluation.logicalMatch?.conditions ?? [];
+      return `${conditions.filter(c => c.matched).length} of ${conditions.length} conditions held, so ${ruleType} ${evaluation.isMatch ? 'holds' : 'does not hold'}.`;
+    }
+    case 'SUB-RULE': {
+      const steps = (evaluation.subRulePath ?? []).map(step => `in sub-rules "${step.list}", "${step.rule}" matches`);
+      return `The condition holds; ${steps.join('; ')}.`;
+    }
+    case 'MATCH':
+    case 'FINAL':
+      return 'MATCH always matches.';
+    default: {
+      const field = CONNECTION_FIELDS[ruleType];
+      if (!field) return `Unsupported rule type "${ruleType}".`;
+      const [label, key] = field;
+      const actual = metadata[key];
+      if (actual === undefined) return `No ${label} given.`;
+      return `The ${label} ${actual} ${verb} "${value}".`;
+    }
+  }
+};
+
+const evaluateRule = async (rule: Rule, context: MatchContext): Promise<RuleEvaluation> => {
+  const { payload: value } = rule;
+  const ruleType = getEffectiveRuleType(rule);
+  const { metadata, domain, providers } = context;
+  const shouldResolve = !rule.options.noResolve;
+
+  switch (ruleType) {
+    case 'DOMAIN-SUFFIX':
+    case 'DOMAIN':
+    case 'DOMAIN-KEYWORD':
+    case 'DOMAIN-REGEX':
+    case 'DOMAIN-WILDCARD':
+      if (ruleType === 'DOMAIN-REGEX' && !compileDomainPattern(ruleType, value)) {
+        return { isMatch: false, reason: `Invalid regex "${value}".` };
+      }
+      return { isMatch: domain !== '' && isDomainRuleMatch(ruleType, value, domain) };
+    case 'IP-CIDR':
+    case 'IP-CIDR6':
+    case 'IP-SUFFIX':
+    case 'SRC-IP-CIDR':
+    case 'SRC-IP-SUFFIX': {
+      const cidr = parseCidr(value);
+      if (!cidr) {
+        return { isMatch: false, reason: `Invalid CIDR "${value}".` };
+      }
+      const isIpMatch = ruleType.endsWith('SUFFIX') ? isIpSuffixMatch : isCidrMatch;
+      if (ruleType.startsWith('SRC-')) {
+        return { isMatch: metadata.srcIp !== undefined && isIpMatch(metadata.srcIp, cidr) };
+      }
+      const ips = await getDestinationIps(context, shouldResolve);
+      return { isMatch: ips.some(ip => isIpMatch(ip, cidr)) };
+    }
+    case 'DST-PORT':
+    case 'SRC-PORT':
+    case 'NETWORK':
+    case 'PROCESS-NAME':
+    case 'PROCESS-PATH':
+    case 'IN-PORT':
+    case 'IN-TYPE':
+    case 'IN-USER':
+    case 'IN-NAME':
+      return { isMatch: isConnectionRuleMatch(ruleType, value, metadata) };
+    case 'GEOIP':
+    case 'SRC-GEOIP':
+    case 'IP-ASN':
+    case 'SRC-IP-ASN':
+    case 'GEOSITE': {
+      if (ruleType === 'GEOIP' || ruleType === 'IP-ASN') {
+        await getDestinationIps(context, shouldResolve);
+      }
+      const geoMatch = evaluateGeoRule(ruleType, value, context);
+      return { isMatch: geoMatch !== null, geoMatch: geoMatch ?? undefined };
+    }
+    case 'RULE-SET': {
+      const providerConfig = providers[value] as RuleProvider;
+      if (!providerConfig) return { isMatch: false };
+
       try {
-        if (new CIDR(value).contains(resolvedIp)) return true;
-      } catch { /* ignore */ }
+        const providerRules = await loadProviderRules(value, providerConfig, context);
+        if (!providerRules) {
+          const reason = providerConfig.type === 'file'
+            ? `Provider "${value}" reads the local file "${providerConfig.path ?? ''}", which has not been loaded.`
+            : `Provider "${value}" has no rules to load (type "${providerConfig.type}").`;
+          return { isMatch: false, reason };
+        }
+        const provider: ProviderTrace = {
+          name: value,
+          behavior: providerConfig.behavior ?? 'classical',
+          entryCount: providerRules.length,
+        };
+        const index = getRuleIndex(providerRules, providerConfig.behavior);
+        await getDestinationIps(context, shouldResolve && index.resolvesIp);
+        const subMatch = await index.matchWith(
+          { domain, ips: context.resolvedIps ?? [], srcIp: metadata.srcIp },
+          createEntryMatcher(context)
+        );
+        if (subMatch) {
+          return { isMatch: true, subMatchingRule: subMatch, provider };
+        }
+        return { isMatch: false, provider };
+      } catch (e: unknown) {
+        if (e instanceof Error) {
+          throw new Error(`Provider "${value}": ${e.message}`);
+        }
+        throw new Error(`Provider "${value}": ${e}`);
+      }
+    }
+    case 'AND':
+    case 'OR':
+    case 'NOT':
+      return evaluateLogicalRule(rule as LogicalRule, context);
+    case 'SUB-RULE':
+      return evaluateSubRule(rule as SubRule, context);
+    case 'MATCH':
+    case 'FINAL':
+      return { isMatch: true };
+    default:
+      return { isMatch: false };
+  }
+};
+
+// Sub-conditions are all evaluated, without short-circuiting, so the result shows every one that held.
+const evaluateLogicalRule = async (rule: LogicalRule, context: MatchContext): Promise<RuleEvaluation> => {
+  const { type: ruleType, raw: ruleString } = rule;
+  const conditions: LogicalMatch[] = [];
+  for (const condition of rule.conditions) {
+    const evaluation = await evaluateRule(condition, context);
+    conditions.push(evaluation.logicalMatch ?? {
+      rule: condition.raw.trim(),
+      matched: evaluation.isMatch,
+      subMatchingRule: evaluation.subMatchingRule,
+      geoMatch: evaluation.geoMatch,
+    });
+  }
+
+  let isMatch: boolean;
+  if (ruleType === 'AND') {
+    isMatch = conditions.every(c => c.matched);
+  } else if (ruleType === 'OR') {
+    isMatch = conditions.some(c => c.matched);
+  } else {
+    isMatch = !conditions[0].matched;
+  }
+
+  return {
+    isMatch,
+    subMatchingRule: isMatch ? conditions.find(c => c.matched)?.subMatchingRule : undefined,
+    geoMatch: isMatch ? conditions.find(c => c.matched)?.geoMatch : undefined,
+    logicalMatch: { rule: ruleString, matched: isMatch, conditions },
+  };
+};
+
+// Like mihomo, a SUB-RULE whose condition holds matches only if a rule of its list matches;
+// otherwise matching carries on after it. The list is evaluated like `rules`, up to its first match.
+const evaluateSubRule = async (rule: SubRule, context: MatchContext): Promise<RuleEvaluation> => {
+  const name = rule.policy;
+  const condition = await evaluateRule(rule.condition, context);
+  if (!condition.isMatch) return { isMatch: false, reason: `The condition ${rule.condition.raw.trim()} does not hold.` };
+  const rules = context.subRules[name];
+  if (!Array.isArray(rules)) return { isMatch: false, reason: `sub-rules has no list "${name}".` };
+  if (context.subRuleStack.includes(name)) {
+    throw new Error(`Sub-rules loop: ${[...context.subRuleStack, name].join(' → ')}.`);
+  }
+
+  context.subRuleStack.push(name);
+  try {
+    for (const [index, { rule: subRule, error }] of getParsedRules(rules).entries()) {
+      context.signal?.throwIfAborted();
+      if (!subRule) {
+        const logicalError = toLogicalRuleError(rules[index], error);
+        if (logicalError) throw logicalError;
+        continue;
+      }
+      const evaluation = await evaluateRule(subRule, context);
+      if (evaluation.isMatch) {
+        return {
+          ...evaluation,
+          reason: undefined,
+          policy: evaluation.policy ?? subRule.policy,
+          subRulePath: [{ list: name, rule: subRule.raw }, ...evaluation.subRulePath ?? []],
+        };
+      }
     }
+  } finally {
+    context.subRuleStack.pop();
+  }
+  return { isMatch: false, reason: `The condition holds, but no rule of sub-rules "${name}" matches.` };
+};
+
+// Rules that only look at the connection metadata, shared by top-level rules and classical providers.
+const isConnectionRuleMatch = (ruleType: string, value: string, metadata: ConnectionMetadata): boolean => {
+  switch (ruleType) {
+    case 'DST-PORT':
+      return metadata.dstPort !== undefined && isPortMatch(metadata.dstPort, value);
+    case 'SRC-PORT':
+      return metadata.srcPort !== undefined && isPortMatch(metadata.srcPort, value);
+    case 'NETWORK':
+      return metadata.network !== undefined && metadata.network === value.toLowerCase();
+    case 'PROCESS-NAME':
+      return metadata.processName !== undefined && metadata.processName.toLowerCase() === value.toLowerCase();
+    case 'PROCESS-PATH':
+      return metadata.processPath !== undefined && metadata.processPath.toLowerCase() === value.toLowerCase();
+    case 'IN-PORT':
+      return metadata.inPort !== undefined && isPortMatch(metadata.inPort, value);
+    case 'IN-TYPE':
+      return metadata.inType !== undefined && isListMatch(metadata.inType, value);
+    case 'IN-USER':
+      return metadata.inUser !== undefined && isListMatch(metadata.inUser, value, true);
+    case 'IN-NAME':
+      return metadata.inName !== undefined && isListMatch(metadata.inName, value, true);
+    default:
+      return false;
+  }
+};
+
+const loadProviderRules = async (
+  name: string,
+  provider: RuleProvider,
+  context: Pick<MatchContext, 'loadProvider' | 'signal' | 'onProgress'>
+): Promise<string[] | null> => {
+  let rules = await context.loadProvider?.(name, provider) ?? null;
+  if (!rules && provider.type === 'http') {
+    rules = await getRulesFromProvider(provider.url!, provider.format, provider.behavior, provider.interval, context.signal);
+  } else if (!rules && provider.type === 'inline' && Array.isArray(provider.payload)) {
+    rules = provider.payload;
+  }
+  if (rules) context.onProgress?.({ kind: 'provider', name, entryCount: rules.length });
+  return rules;
+};
+
+// Destination IP rules hold if any of the destination IPs matches.
+const matchAnyIp = (ips: string[], matchIp: (ip: string | null) => GeoMatch | null): GeoMatch | null => {
+  if (ips.length === 0) return matchIp(null);
+  for (const ip of ips) {
+    const match = matchIp(ip);
+    if (match) return match;
   }
-  return false;
+  return null;
+};
+
+// Uses the destination IPs resolved so far; callers resolve first where the rule asks for it.
+const evaluateGeoRule = (ruleType: string, value: string, context: MatchContext): GeoMatch | null => {
+  const { metadata, domain, geo } = context;
+  const resolvedIps = context.resolvedIps ?? [];
+  switch (ruleType) {
+    case 'GEOIP':
+      return matchAnyIp(resolvedIps, ip => matchGeoIp(geo, ruleType, value, ip));
+    case 'SRC-GEOIP':
+      return matchGeoIp(geo, ruleType, value, metadata.srcIp);
+    case 'IP-ASN':
+      return matchAnyIp(resolvedIps, ip => matchIpAsn(geo, ruleType, value, ip));
+    case 'SRC-IP-ASN':
+      return matchIpAsn(geo, ruleType, value, metadata.srcIp);
+    case 'GEOSITE':
+      return domain ? matchGeoSite(geo, value, domain) : null;
+    default:
+      return null;
+  }
+};
+
+// Classical provider entries the rule index can't look up, such as IP suffixes, geo, connection and
+// logical rules, are evaluated like rules. They only see the IPs resolved so far: callers resolve
+// first when some entry needs the destination IP and the RULE-SET rule allows it.
+const createEntryMatcher = (context: MatchContext) => {
+  const entryContext = context.resolvedIps === null ? { ...context, resolvedIps: [] } : context;
+  return async (rule: Rule) => (await evaluateRule(rule, entryContext)).isMatch;
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, afterEach } = import.meta.vitest;
+  const { openMmdb } = await import('./mmdb');
+  const { openGeoSite } = await import('./geosite');
+  const { buildTestMmdb } = await import('./testing/mmdbBuilder');
+  const { buildTestGeoSite } = await import('./testing/geositeBuilder');
+  const { createStaticResolver } = await import('./dns');
+
+  describe('matchDomain with logical rules', () => {
+    const config: ClashConfig = {
+      rules: [
+        'AND,((DOMAIN,a.example.com),(DOMAIN,b.example.com)),REJECT',
+        'OR,((DOMAIN,a.example.com),(RULE-SET,ads)),REJECT',
+        'NOT,((OR,((DOMAIN,c.example.com),(DOMAIN,d.example.com)))),PROXY',
+        'MATCH,DIRECT',
+      ],
+      'rule-providers': {
+        ads: { type: 'inline', behavior: 'domain', payload: ['+.ads.example.com'] },
+      },
+    };
+
+    const match = (host: string) => matchDomain(config, { host, dstIp: '203.0.113.1' });
+
+    it('should match OR when any condition holds', async () => {
+      const result = await match('a.example.com');
+      expect(result?.matchingRule).toBe(config.rules![1]);
+      expect(result?.finalPolicy).toBe('REJECT');
+      expect(result?.logicalMatch?.conditions?.map(c => c.matched)).toEqual([true, false]);
+    });
+
+    it('should report the provider entry of a RULE-SET condition', async () => {
+      const result = await match('x.ads.example.com');
+      expect(result?.matchingRule).toBe(config.rules![1]);
+      expect(result?.subMatchingRule).toBe('+.ads.example.com');
+    });
+
+    it('should negate nested conditions with NOT', async () => {
+      const result = await match('e.example.com');
+      expect(result?.finalPolicy).toBe('PROXY');
+      expect(result?.logicalMatch?.conditions?.[0].conditions?.map(c => c.matched)).toEqual([false, false]);
+
+      expect((await match('c.example.com'))?.finalPolicy).toBe('DIRECT');
+    });
+
+    it('should throw on malformed logical rules', async () => {
+      await expect(matchDomain({ rules: ['NOT,((DOMAIN,a.com),(DOMAIN,b.com)),PROXY'] }, 'a.com')).rejects.toThrow(/NOT/);
+      await expect(matchDomain({ rules: ['AND,((DOMAIN,a.com)(DOMAIN,b.com)),PROXY'] }, 'a.com')).rejects.toThrow(/Invalid logical rule/);
+    });
+  });
+
+  describe('matchDomain with sub-rules', () => {
+    const config: ClashConfig = {
+      rules: [
+        'SUB-RULE,(NETWORK,tcp),streaming',
+        'MATCH,DIRECT',
+      ],
+      'sub-rules': {
+        streaming: [
+          'SUB-RULE,(DST-PORT,443),https',
+          'DOMAIN,tv.example.com,US',
+        ],
+        https: [
+          'RULE-SET,video,HK',
+        ],
+      },
+      'rule-providers': {
+        video: { type: 'inline', behavior: 'domain', payload: ['+.video.example.com'] },
+      },
+    };
+
+    it('should report the path from the top rule to the provider entry', async () => {
+      const result = await matchDomain(config, { host: 'cdn.video.example.com', network: 'tcp', dstPort: 443 });
+      expect(result?.matchingRule).toBe('SUB-RULE,(NETWORK,tcp),streaming');
+      expect(result?.subRulePath).toEqual([
+        { list: 'streaming', rule: 'SUB-RULE,(DST-PORT,443),https' },
+        { list: 'https', rule: 'RULE-SET,video,HK' },
+      ]);
+      expect(result?.subMatchingRule).toBe('+.video.example.com');
+      expect(result?.finalPolicy).toBe('HK');
+    });
+
+    it('should carry on after a SUB-RULE whose list has no match', async () => {
+      expect((await matchDomain(config, { host: 'tv.example.com', network: 'tcp' }))?.finalPolicy).toBe('US');
+      expect((await matchDomain(config, { host: 'cdn.video.example.com', network: 'tcp', dstPort: 80 }))?.finalPolicy).toBe('DIRECT');
+      expect((await matchDomain(config, { host: 'tv.example.com', network: 'udp' }))?.finalPolicy).toBe('DIRECT');
+    });
+
+    it('should explain SUB-RULE conditions and lists', async () => {
+      const { trace } = await explainMatch(config, { host: 'other.example.com', network: 'tcp' });
+      expect(trace[0].reason).toBe('The condition holds, but no rule of sub-rules "streaming" matches.');
+      const matched = await explainMatch(config, { host: 'tv.example.com', network: 'tcp' });
+      expect(matched.trace[0].reason).toBe('The condition holds; in sub-rules "streaming", "DOMAIN,tv.example.com,US" matches.');
+    });
+
+    it('should fail on sub-rules loops', async () => {
+      const loop: ClashConfig = {
+        rules: ['SUB-RULE,(NETWORK,tcp),a', 'MATCH,DIRECT'],
+        'sub-rules': { a: ['SUB-RULE,(NETWORK,tcp),b'], b: ['SUB-RULE,(DOMAIN,x.com),a', 'MATCH,PROXY'] },
+      };
+      expect((await matchDomain(loop, { host: 'y.com', network: 'tcp' }))?.finalPolicy).toBe('PROXY');
+      await expect(matchDomain(loop, { host: 'x.com', network: 'tcp' })).rejects.toThrow('Sub-rules loop: a → b → a.');
+    });
+  });
+
+  // Cases from mihomo's domain rules, checked through every path a rule can take: a top-level rule,
+  // a condition of a logical rule and an entry of a classical provider. Hosts that are IP addresses
+  // have no domain, so no domain rule matches them.
+  describe('domain rules conformance with mihomo', () => {
+    const cases: [rule: string, matches: string[], misses: string[]][] = [
+      ['DOMAIN,google.com', ['google.com', 'GOOGLE.com'], ['www.google.com', 'google.com.cn']],
+      ['DOMAIN,Google.COM', ['google.com'], ['oogle.com']],
+      ['DOMAIN-SUFFIX,google.com', ['google.com', 'www.google.com', 'a.b.google.com'], ['fakegoogle.com', 'google.com.cn', 'oogle.com']],
+      ['DOMAIN-KEYWORD,google', ['google.com', 'www.google.com', 'googleapis.cn', 'xgooglex.org'], ['goog.le', 'gogle.com']],
+      ['DOMAIN-KEYWORD,1.1', ['a1.1b.com'], ['1.1.1.1']],
+      ['DOMAIN-REGEX,^ads?\\d*\\.', ['ad.example.com', 'ads.example.com', 'ad12.example.com'], ['bads.example.com', 'ads-cdn.example.com']],
+      ['DOMAIN-REGEX,google', ['www.google.com', 'GOOGLE.com'], ['goo.gle']],
+      ['DOMAIN-REGEX,[a-', [], ['[a-', 'a']],
+      ['DOMAIN-WILDCARD,*.google.com', ['www.google.com', 'a.b.google.com'], ['google.com', 'www.google.com.cn']],
+      ['DOMAIN-WILDCARD,test?.example.com', ['test1.example.com', 'testa.example.com'], ['test.example.com', 'test12.example.com']],
+      ['DOMAIN-WILDCARD,*google*', ['www.google.com', 'google'], ['goo.gle']],
+      ['DOMAIN-WILDCARD,a+b.com', ['a+b.com'], ['aab.com']],
+    ];
+    const dstIp = '192.0.2.1'; // Keeps DNS out of the way
+
+    const paths: [name: string, toConfig: (rule: string) => ClashConfig][] = [
+      ['a top-level rule', rule => ({ rules: [`${rule},HIT`, 'MATCH,MISS'] })],
+      ['a logical condition', rule => ({ rules: [`AND,((${rule}),(NETWORK,tcp)),HIT`, 'MATCH,MISS'] })],
+      ['a classical provider entry', rule => ({
+        rules: ['RULE-SET,list,HIT', 'MATCH,MISS'],
+        'rule-providers': { list: { type: 'inline', behavior: 'classical', payload: [rule] } },
+      })],
+    ];
+
+    it('should explain invalid regexes', async () => {
+      const { trace } = await explainMatch({ rules: ['DOMAIN-REGEX,[a-,HIT'] }, { host: 'a.com', dstIp });
+      expect(trace[0].reason).toBe('Invalid regex "[a-".');
+    });
+
+    for (const [path, toConfig] of paths) {
+      it(`should match domains like mihomo through ${path}`, async () => {
+        for (const [rule, matches, misses] of cases) {
+          const config = toConfig(rule);
+          for (const [host, expected] of [...matches.map(h => [h, 'HIT']), ...misses.map(h => [h, 'MISS'])]) {
+            const result = await matchDomain(config, { host, dstIp, network: 'tcp' });
+            expect({ rule, host, policy: result?.finalPolicy }).toEqual({ rule, host, policy: expected });
+          }
+        }
+      });
+    }
+  });
+
+  describe('matchDomain with connection metadata', () => {
+    const config: ClashConfig = {
+      rules: [
+        'AND,((DOMAIN-SUFFIX,google.com),(NETWORK,UDP)),REJECT',
+        'DST-PORT,22/8000-9000,DIRECT',
+        'SRC-IP-CIDR,192.168.1.0/24,LAN',
+        'PROCESS-NAME,Telegram.exe,PROXY',
+        'IN-TYPE,SOCKS5/HTTP,INBOUND',
+        'RULE-SET,ssh,DIRECT',
+        'MATCH,FALLBACK',
+      ],
+      'rule-providers': {
+        ssh: { type: 'inline', behavior: 'classical', payload: ['IN-PORT,7891', 'SRC-PORT,2222', 'DOMAIN-SUFFIX,ssh.example.com'] },
+      },
+    };
+
+    // Tests pass dstIp so the RULE-SET rule does not trigger a DNS lookup.
+    const dstIp = '203.0.113.1';
+
+    it('should keep accepting a plain domain', async () => {
+      expect((await matchDomain({ rules: config.rules!.slice(0, 5) }, 'google.com'))).toBeNull();
+    });
+
+    it('should match NETWORK inside a logical rule', async () => {
+      const result = await matchDomain(config, { host: 'google.com', dstIp, network: 'udp' });
+      expect(result?.finalPolicy).toBe('REJECT');
+    });
+
+    it('should match ports, source addresses, processes and inbounds', async () => {
+      expect((await matchDomain(config, { host: 'a.com', dstIp, dstPort: 8443 }))?.finalPolicy).toBe('DIRECT');
+      expect((await matchDomain(config, { host: 'a.com', dstIp, srcIp: '192.168.1.20' }))?.finalPolicy).toBe('LAN');
+      expect((await matchDomain(config, { host: 'a.com', dstIp, processName: 'telegram.exe' }))?.finalPolicy).toBe('PROXY');
+      expect((await matchDomain(config, { host: 'a.com', dstIp, inType: 'http' }))?.finalPolicy).toBe('INBOUND');
+    });
+
+    it('should match connection rules inside classical providers', async () => {
+      const result = await matchDomain(config, { host: 'a.com', dstIp, inPort: 7891 });
+      expect(result?.matchingRule).toBe('RULE-SET,ssh,DIRECT');
+      expect(result?.subMatchingRule).toBe('IN-PORT,7891');
+    });
+
+    it('should match the source IP for IP rules with the src option', async () => {
+      const srcConfig: ClashConfig = { rules: ['IP-CIDR,10.0.0.0/8,LAN,src', 'MATCH,DIRECT'] };
+      expect((await matchDomain(srcConfig, { host: 'a.com', dstIp: '10.1.1.1' }))?.finalPolicy).toBe('DIRECT');
+      expect((await matchDomain(srcConfig, { host: 'a.com', dstIp, srcIp: '10.1.1.1' }))?.finalPolicy).toBe('LAN');
+    });
+
+    it('should match domain entries inside classical providers', async () => {
+      const result = await matchDomain(config, { host: 'git.ssh.example.com', dstIp });
+      expect(result?.subMatchingRule).toBe('DOMAIN-SUFFIX,ssh.example.com');
+    });
+
+    it('should match logical entries inside classical providers', async () => {
+      const logicalConfig: ClashConfig = {
+        rules: ['RULE-SET,quic,REJECT', 'MATCH,DIRECT'],
+        'rule-providers': {
+          quic: { type: 'inline', behavior: 'classical', payload: ['AND,((DOMAIN-SUFFIX,google.com),(NETWORK,udp))'] },
+        },
+      };
+      const udp = await matchDomain(logicalConfig, { host: 'www.google.com', dstIp, network: 'udp' });
+      expect(udp?.finalPolicy).toBe('REJECT');
+      expect(udp?.subMatchingRule).toBe('AND,((DOMAIN-SUFFIX,google.com),(NETWORK,udp))');
+      expect((await matchDomain(logicalConfig, { host: 'www.google.com', dstIp, network: 'tcp' }))?.finalPolicy).toBe('DIRECT');
+    });
+  });
+
+  describe('matchDomain with proxy-groups', () => {
+    const config: ClashConfig = {
+      proxies: [{ name: 'HK-01', type: 'ss' }],
+      'proxy-groups': [{ name: 'Streaming', type: 'select', proxies: ['HK-01', 'DIRECT'] }],
+      rules: ['DOMAIN,www.netflix.com,Streaming', 'MATCH,DIRECT'],
+    };
+
+    it('should resolve the matched policy to its final outbound', async () => {
+      const result = await matchDomain(config, 'www.netflix.com');
+      expect(result?.finalPolicy).toBe('Streaming');
+      expect(result?.policyChain?.finalOutbound).toBe('HK-01');
+    });
+
+    it('should apply group selections', async () => {
+      const result = await matchDomain(config, 'www.netflix.com', { selections: { Streaming: 'DIRECT' } });
+      expect(result?.policyChain?.finalOutbound).toBe('DIRECT');
+    });
+
+    it('should leave the chain unset without proxies or groups', async () => {
+      expect((await matchDomain({ rules: ['MATCH,PROXY'] }, 'a.com'))?.policyChain).toBeUndefined();
+    });
+  });
+
+  describe('matchDomain with GEO data', () => {
+    const geo: GeoDatabases = {
+      country: openMmdb(buildTestMmdb('GeoLite2-Country', [['114.114.0.0/16', { country: { iso_code: 'CN' } }]])),
+      asn: openMmdb(buildTestMmdb('GeoLite2-ASN', [['1.1.1.0/24', { autonomous_system_number: 13335 }]])),
+      geosite: openGeoSite(buildTestGeoSite({ GOOGLE: [{ type: 'domain', value: 'google.cn', attributes: ['cn'] }] })),
+    };
+    const config: ClashConfig = {
+      rules: [
+        'GEOSITE,google@cn,DIRECT',
+        'GEOIP,LAN,LAN',
+        'GEOIP,CN,DIRECT-CN',
+        'IP-ASN,13335,CLOUDFLARE',
+        'SRC-GEOIP,CN,FROM-CN',
+        'MATCH,PROXY',
+      ],
+    };
+
+    it('should match GEOSITE categories with attribute filters', async () => {
+      const result = await matchDomain(config, { host: 'www.google.cn', dstIp: '8.8.8.8' }, { geo });
+      expect(result?.finalPolicy).toBe('DIRECT');
+      expect(result?.geoMatch).toEqual({ database: 'geosite.dat', entry: 'google@cn → domain:google.cn@cn' });
+    });
+
+    it('should match GEOIP, IP-ASN and SRC-GEOIP against the right address', async () => {
+      expect((await matchDomain(config, { host: 'nas', dstIp: '192.168.1.2' }, { geo }))?.finalPolicy).toBe('LAN');
+      expect((await matchDomain(config, { host: 'a.cn', dstIp: '114.114.114.114' }, { geo }))?.finalPolicy).toBe('DIRECT-CN');
+      expect((await matchDomain(config, { host: 'a.com', dstIp: '1.1.1.1' }, { geo }))?.finalPolicy).toBe('CLOUDFLARE');
+      expect((await matchDomain(config, { host: 'a.com', dstIp: '8.8.8.8', srcIp: '114.114.1.1' }, { geo }))?.finalPolicy).toBe('FROM-CN');
+    });
+
+    it('should fail clearly when a database is missing', async () => {
+      await expect(matchDomain(config, { host: 'a.com', dstIp: '8.8.8.8' })).rejects.toThrow(/geosite\.dat/);
+    });
+  });
+
+  describe('matchDomain with a provider loader', () => {
+    const config: ClashConfig = {
+      'rule-providers': { local: { type: 'http', behavior: 'domain', url: 'https://example.com/list.txt', path: './list.txt' } },
+      rules: ['RULE-SET,local,REJECT', 'MATCH,DIRECT'],
+    };
+
+    it('should use rules returned by the loader instead of fetching', async () => {
+      const loadProvider = async (name: string) => (name === 'local' ? ['+.ads.example.com'] : null);
+      const result = await matchDomain(config, { host: 'x.ads.example.com', dstIp: '203.0.113.1' }, { loadProvider });
+      expect(result?.subMatchingRule).toBe('+.ads.example.com');
+    });
+
+    it('should wrap loader errors with the provider name', async () => {
+      const loadProvider = async () => { throw new Error('no local file'); };
+      await expect(matchDomain(config, { host: 'a.com', dstIp: '203.0.113.1' }, { loadProvider }))
+        .rejects.toThrow('Provider "local": no local file');
+    });
+
+    it('should explain that a file provider has not been loaded', async () => {
+      const fileConfig: ClashConfig = {
+        'rule-providers': { local: { type: 'file', behavior: 'domain', path: './ads.mrs', format: 'mrs' } },
+        rules: ['RULE-SET,local,REJECT', 'MATCH,DIRECT'],
+      };
+      const trace = await explainMatch(fileConfig, { host: 'a.com', dstIp: '203.0.113.1' });
+      expect(trace.trace[0].reason).toBe('Provider "local" reads the local file "./ads.mrs", which has not been loaded.');
+    });
+  });
+
+  describe('explainMatch', () => {
+    const config: ClashConfig = {
+      rules: [
+        'DOMAIN,www.google.com,PROXY',
+        'DST-PORT,443,HTTPS',
+        'RULE-SET,google,DIRECT',
+        'BROKEN',
+        'IP-CIDR,not-a-cidr,REJECT',
+        'RULE-SET,missing,REJECT',
+        'MATCH,FALLBACK',
+      ],
+      'rule-providers': {
+        google: { type: 'inline', behavior: 'domain', payload: ['+.example.com', '+.google.com'] },
+      },
+    };
+    const input = { host: 'www.google.com', dstIp: '203.0.113.1', dstPort: 443 };
+
+    it('should return the same result as matchDomain', async () => {
+      const explanation = await explainMatch(config, input);
+      expect(explanation.result).toEqual(await matchDomain(config, input));
+    });
+
+    it('should trace every rule with a reason', async () => {
+      const { trace } = await explainMatch(config, input);
+      expect(trace.map(t => t.matched)).toEqual([true, true, true, false, false, false, true]);
+      expect(trace[1].reason).toBe('The destination port 443 matches "443".');
+      expect(trace[2].provider).toEqual({ name: 'google', behavior: 'domain', entryCount: 2 });
+      expect(trace[2].reason).toBe('Entry "+.google.com" of provider "google" (domain, 2 entries) matches.');
+      expect(trace[3].reason).toBe('Malformed rule, skipped: Rule "BROKEN" has no payload or policy.');
+      expect(trace[4].reason).toBe('Invalid CIDR "not-a-cidr".');
+      expect(trace[5].reason).toContain('not defined');
+    });
+
+    it('should list later matching rules as shadowed', async () => {
+      const { shadowed } = await explainMatch(config, input);
+      expect(shadowed.map(t => t.rule)).toEqual(['DST-PORT,443,HTTPS', 'RULE-SET,google,DIRECT', 'MATCH,FALLBACK']);
+    });
+
+    it('should record evaluation errors instead of throwing', async () => {
+      const { result, trace } = await explainMatch({ rules: ['GEOIP,CN,DIRECT', 'MATCH,PROXY'] }, input);
+      expect(trace[0].error).toMatch(/Country\.mmdb/);
+      expect(result?.finalPolicy).toBe('PROXY');
+    });
+  });
+
+  describe('matchDomain progress and cancellation', () => {
+    const config: ClashConfig = {
+      rules: ['DOMAIN,a.example.com,DIRECT', 'RULE-SET,ads,REJECT', 'MATCH,PROXY'],
+      'rule-providers': { ads: { type: 'inline', behavior: 'domain', payload: ['+.ads.example.com'] } },
+    };
+
+    it('should report loaded providers and evaluated rules', async () => {
+      const progress: MatchProgress[] = [];
+      await matchDomain(config, 'x.ads.example.com', { onProgress: p => progress.push(p) });
+      expect(progress).toEqual([
+        { kind: 'rule', index: 0, total: 3 },
+        { kind: 'provider', name: 'ads', entryCount: 1 },
+        { kind: 'rule', index: 1, total: 3 },
+      ]);
+    });
+
+    it('should stop once the signal aborts', async () => {
+      const controller = new AbortController();
+      const onProgress = vi.fn(() => controller.abort());
+      await expect(matchDomain(config, 'www.example.com', { signal: controller.signal, onProgress })).rejects.toThrow(/abort/i);
+      await expect(explainMatch(config, 'www.example.com', { signal: controller.signal })).rejects.toThrow(/abort/i);
+      expect(onProgress).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findProviderMatches', () => {
+    const config: ClashConfig = {
+      rules: ['RULE-SET,mixed,PROXY'],
+      'rule-providers': {
+        mixed: {
+          type: 'inline',
+          behavior: 'classical',
+          payload: ['DOMAIN-SUFFIX,example.com', 'DOMAIN-KEYWORD,exam', 'DST-PORT,443', 'IP-CIDR,10.0.0.0/8', 'DOMAIN,other.org'],
+        },
+        remote: { type: 'file', behavior: 'domain', path: './remote.txt' },
+      },
+    };
+
+    it('should list every matching entry, not just the first', async () => {
+      const resolver = createStaticResolver({ 'www.example.com': '10.1.2.3' });
+      const matches = await findProviderMatches(config, 'mixed', { host: 'www.example.com', dstPort: 443 }, { resolver });
+      expect(matches.provider).toEqual({ name: 'mixed', behavior: 'classical', entryCount: 5 });
+      expect(matches.entries.map(e => e.index)).toEqual([0, 1, 2, 3]);
+      expect(matches.resolvedIps).toEqual(['10.1.2.3']);
+    });
+
+    it('should explain providers that cannot be loaded', async () => {
+      await expect(loadProviderEntries(config, 'missing')).rejects.toThrow('not defined in rule-providers');
+      await expect(loadProviderEntries(config, 'remote')).rejects.toThrow('has not been loaded');
+    });
+  });
+
+  describe('matchDomain with DNS resolution', () => {
+    // Answers DoH queries with the given A and AAAA records, CNAMEs included.
+    const mockDoh = (records: { A?: string[]; AAAA?: string[] }) => vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+      const type = new URL(String(input)).searchParams.get('type') as 'A' | 'AAAA';
+      const answers = (records[type] ?? []).map(data => ({ type: type === 'A' ? 1 : 28, data }));
+      return new Response(JSON.stringify({ Answer: [{ type: 5, data: 'cname.example.net.' }, ...answers] }));
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should resolve A and AAAA records and match IP-CIDR6', async () => {
+      mockDoh({ A: ['203.0.113.1'], AAAA: ['2001:db8::1'] });
+      const result = await matchDomain({ rules: ['IP-CIDR6,2001:db8::/32,V6', 'MATCH,DIRECT'] }, 'www.example.com');
+      expect(result?.finalPolicy).toBe('V6');
+      expect(result?.resolvedIps).toEqual(['203.0.113.1', '2001:db8::1']);
+      expect(result?.resolvedIp).toBe('203.0.113.1');
+    });
+
+    it('should not resolve for no-resolve rules', async () => {
+      const fetchSpy = mockDoh({ A: ['10.0.0.1'] });
+      const result = await matchDomain({ rules: ['IP-CIDR,10.0.0.0/8,LAN,no-resolve', 'MATCH,DIRECT'] }, 'www.example.com');
+      expect(result?.finalPolicy).toBe('DIRECT');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should resolve lazily, when the first resolving rule is reached', async () => {
+      const fetchSpy = mockDoh({ A: ['10.0.0.1'] });
+      const config = { rules: ['DOMAIN,www.example.com,PROXY', 'IP-CIDR,10.0.0.0/8,LAN', 'MATCH,DIRECT'] };
+      expect((await matchDomain(config, 'www.example.com'))?.finalPolicy).toBe('PROXY');
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect((await matchDomain(config, 'api.example.com'))?.finalPolicy).toBe('LAN');
+      expect(fetchSpy).toHaveBeenCalled();
+    });
+
+    it('should let no-resolve rules use addresses resolved by an earlier rule', async () => {
+      mockDoh({ A: ['10.0.0.1'] });
+      const config = { rules: ['IP-CIDR,192.168.0.0/16,HOME', 'IP-CIDR,10.0.0.0/8,LAN,no-resolve', 'MATCH,DIRECT'] };
+      expect((await matchDomain(config, 'www.example.com'))?.finalPolicy).toBe('LAN');
+    });
+
+    it('should skip resolving for domain providers and no-resolve RULE-SET rules', async () => {
+      const fetchSpy = mockDoh({ A: ['10.0.0.1'] });
+      const config: ClashConfig = {
+        rules: ['RULE-SET,ads,REJECT', 'RULE-SET,lan,LAN,no-resolve', 'MATCH,DIRECT'],
+        'rule-providers': {
+          ads: { type: 'inline', behavior: 'domain', payload: ['+.ads.example.com'] },
+          lan: { type: 'inline', behavior: 'ipcidr', payload: ['10.0.0.0/8'] },
+        },
+      };
+      expect((await matchDomain(config, 'www.example.com'))?.finalPolicy).toBe('DIRECT');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should test a literal IP without DNS or domain rules', async () => {
+      const fetchSpy = mockDoh({});
+      const config = { rules: ['DOMAIN-KEYWORD,8.8,KEYWORD', 'IP-SUFFIX,1.8.8.8/24,SUFFIX', 'MATCH,DIRECT'] };
+      const result = await matchDomain(config, '8.8.8.8');
+      expect(result?.finalPolicy).toBe('SUFFIX');
+      expect(result?.resolvedIps).toEqual(['8.8.8.8']);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('matchDomain with the dns section', () => {
+    const resolver = createStaticResolver({ '+.example.com': '10.0.0.1' });
+    const rules = ['IP-CIDR,10.0.0.0/8,LAN,no-resolve', 'IP-CIDR,192.168.0.0/16,HOME', 'MATCH,DIRECT'];
+
+    it('should resolve through the static resolver and hosts', async () => {
+      const config: ClashConfig = { rules, hosts: { 'nas.example.com': '192.168.1.2' } };
+      const result = await matchDomain(config, 'nas.example.com', { resolver });
+      expect(result?.finalPolicy).toBe('HOME');
+      expect(result?.dnsResolution).toEqual({ ips: ['192.168.1.2'], source: 'hosts', hostsEntry: 'nas.example.com' });
+    });
+
+    it('should give no-resolve rules the real IP outside fake-ip mode', async () => {
+      const config: ClashConfig = { rules, dns: { enable: true, 'enhanced-mode': 'redir-host', nameserver: ['223.5.5.5'] } };
+      const result = await matchDomain(config, 'www.example.com', { resolver });
+      expect(result?.finalPolicy).toBe('LAN');
+      expect(result?.dnsResolution?.nameserver).toBe('223.5.5.5');
+    });
+
+    it('should hand out a fake IP and resolve lazily in fake-ip mode', async () => {
+      const dns = { enable: true, 'enhanced-mode': 'fake-ip' as const, 'fake-ip-filter': ['+.lan.example.com'] };
+      const faked = await matchDomain({ rules, dns }, 'www.example.com', { resolver });
+      expect(faked?.fakeIp).toMatch(/^198\.18\./);
+      expect(faked?.finalPolicy).toBe('DIRECT');
+
+      const filtered = await matchDomain({ rules, dns }, 'pc.lan.example.com', { resolver });
+      expect(filtered?.fakeIp).toBeUndefined();
+      expect(filtered?.finalPolicy).toBe('LAN');
+    });
+
+    it('should answer from hosts before handing out a fake IP', async () => {
+      const dns = { enable: true, 'enhanced-mode': 'fake-ip' as const };
+      const hosts = { 'nas.lan': '192.168.1.2' };
+      const noResolveRules = ['IP-CIDR,192.168.0.0/16,HOME,no-resolve', 'MATCH,DIRECT'];
+      const result = await matchDomain({ rules: noResolveRules, dns, hosts }, 'nas.lan', { resolver });
+      expect(result?.fakeIp).toBeUndefined();
+      expect(result?.finalPolicy).toBe('HOME');
+      expect(result?.dnsResolution?.source).toBe('hosts');
+
+      const withoutHosts = await matchDomain({ rules: noResolveRules, dns: { ...dns, 'use-hosts': false }, hosts }, 'nas.lan', { resolver });
+      expect(withoutHosts?.fakeIp).toMatch(/^198\.18\./);
+      expect(withoutHosts?.finalPolicy).toBe('DIRECT');
+    });
+  });
 }
@@ -0,0 +1,325 @@
+export const LOGICAL_RULE_TYPES = ['AND', 'OR', 'NOT'];
+
+// Rule types with a single payload.
+const SIMPLE_RULE_TYPES = [
+  'DOMAIN', 'DOMAIN-SUFFIX', 'DOMAIN-KEYWORD', 'DOMAIN-REGEX', 'DOMAIN-WILDCARD', 'GEOSITE',
+  'IP-CIDR', 'IP-CIDR6', 'IP-SUFFIX', 'SRC-IP-CIDR', 'GEOIP', 'SRC-GEOIP', 'IP-ASN', 'SRC-IP-ASN',
+  'DST-PORT', 'SRC-PORT', 'IN-PORT', 'IN-TYPE', 'IN-USER', 'IN-NAME',
+  'NETWORK', 'PROCESS-NAME', 'PROCESS-PATH',
+  'RULE-SET',
+] as const;
+
+// Every rule type the matcher evaluates.
+export const KNOWN_RULE_TYPES: readonly string[] = [...SIMPLE_RULE_TYPES, ...LOGICAL_RULE_TYPES, 'SUB-RULE', 'MATCH', 'FINAL'];
+
+export type SimpleRuleType = typeof SIMPLE_RULE_TYPES[number];
+
+export interface RuleParts {
+  type: string;
+  payload: string;
+  // Empty for sub-conditions of logical rules, which carry no policy.
+  policy: string;
+  params: string[];
+}
+
+export interface RuleOptions {
+  noResolve: boolean; // `no-resolve`: IP rules don't resolve the domain
+  src: boolean; // `src`: IP, GEOIP and IP-ASN rules match the source IP instead of the destination
+}
+
+interface RuleNode {
+  raw: string; // The rule or condition as written
+  policy: string; // Empty for sub-conditions of logical rules
+  params: string[]; // Everything after the policy
+  options: RuleOptions;
+}
+
+export interface SimpleRule extends RuleNode {
+  type: SimpleRuleType;
+  payload: string; // For RULE-SET, the provider name
+}
+
+export interface LogicalRule extends RuleNode {
+  type: 'AND' | 'OR' | 'NOT';
+  payload: string; // The parenthesised conditions as written
+  conditions: Rule[];
+}
+
+// `SUB-RULE,(CONDITION),name`: when the condition holds, the rules of the `sub-rules` list `name` decide.
+export interface SubRule extends RuleNode {
+  type: 'SUB-RULE';
+  payload: string; // The parenthesised condition as written
+  condition: Rule;
+  // `policy` holds the name of the sub-rules list.
+}
+
+export interface MatchRule extends RuleNode {
+  type: 'MATCH' | 'FINAL';
+  payload: '';
+}
+
+// A parsed rule. It is also a valid RuleParts.
+export type Rule = SimpleRule | LogicalRule | SubRule | MatchRule;
+
+export const isLogicalRuleType = (type: string): boolean => LOGICAL_RULE_TYPES.includes(type.toUpperCase());
+
+// IP rules with the `src` option behave like their SRC- counterparts.
+const SOURCE_RULE_TYPES: { [ruleType: string]: string } = {
+  'IP-CIDR': 'SRC-IP-CIDR',
+  'IP-CIDR6': 'SRC-IP-CIDR',
+  'IP-SUFFIX': 'SRC-IP-SUFFIX',
+  'GEOIP': 'SRC-GEOIP',
+  'IP-ASN': 'SRC-IP-ASN',
+};
+
+/**
+ * Returns the type a rule matches as: with the `src` option, IP rules look at the source IP,
+ * e.g. `IP-CIDR,10.0.0.0/8,LAN,src` matches as SRC-IP-CIDR.
+ */
+export const getEffectiveRuleType = ({ type, params }: Pick<RuleParts, 'type' | 'params'>): string =>
+  (params.includes('src') ? SOURCE_RULE_TYPES[type] ?? type : type);
+
+// Rule types whose payload is parenthesised conditions rather than a plain value.
+const hasConditionPayload = (type: string): boolean => isLogicalRuleType(type) || type === 'SUB-RULE';
+
+/**
+ * Finds the index of the parenthesis closing the one at `openIndex`.
+ * @returns The index of the matching ')' or -1 if the parentheses are unbalanced.
+ */
+const findClosingParen = (text: string, openIndex: number): number => {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Splits a rule string into its type, payload, policy and extra params.
+ * Logical rules keep their whole parenthesised payload, e.g.
+ * `AND,((DOMAIN,a.com),(NETWORK,UDP)),REJECT` has the payload `((DOMAIN,a.com),(NETWORK,UDP))`,
+ * and `SUB-RULE,(NETWORK,tcp),streaming` has the payload `(NETWORK,tcp)` and the policy `streaming`.
+ * @param rule The rule string, with or without a trailing policy.
+ * @param hasPolicy Whether the last field of a non-logical rule is a policy.
+ * @returns The rule parts, or null if the rule is malformed.
+ */
+export const splitRule = (rule: string, hasPolicy: boolean = true): RuleParts | null => {
+  const trimmed = rule.trim();
+  const firstComma = trimmed.indexOf(',');
+  if (firstComma === -1) {
+    // MATCH/FINAL carry no payload.
+    return hasPolicy ? null : { type: trimmed.toUpperCase(), payload: '', policy: '', params: [] };
+  }
+
+  const type = trimmed.substring(0, firstComma).trim().toUpperCase();
+
+  if (hasConditionPayload(type)) {
+    const openIndex = trimmed.indexOf('(', firstComma);
+    if (openIndex === -1 || trimmed.substring(firstComma + 1, openIndex).trim() !== '') return null;
+    const closeIndex = findClosingParen(trimmed, openIndex);
+    if (closeIndex === -1) return null;
+
+    const payload = trimmed.substring(openIndex, closeIndex + 1);
+    const rest = trimmed.substring(closeIndex + 1).trim();
+    if (rest === '') {
+      return hasPolicy ? null : { type, payload, policy: '', params: [] };
+    }
+    if (!rest.startsWith(',')) return null;
+    const [policy = '', ...params] = rest.substring(1).split(',').map(p => p.trim());
+    return { type, payload, policy, params };
+  }
+
+  const parts = trimmed.split(',').map(p => p.trim());
+  if (!hasPolicy) {
+    return { type, payload: parts[1], policy: '', params: parts.slice(2) };
+  }
+  if (type === 'MATCH' || type === 'FINAL') {
+    return { type, payload: '', policy: parts[1], params: parts.slice(2) };
+  }
+  if (parts.length < 3) return null;
+  return { type, payload: parts[1], policy: parts[2], params: parts.slice(3) };
+};
+
+const isSimpleRuleType = (type: string): type is SimpleRuleType => (SIMPLE_RULE_TYPES as readonly string[]).includes(type);
+
+/**
+ * Parses a rule, or a condition of a logical rule, into its typed form, checking its structure:
+ * known type, non-empty payload and policy, and well-formed logical conditions.
+ * Payload values such as CIDRs and ports are left to the matcher and the linter.
+ * @param hasPolicy Whether the rule ends with a policy; false for conditions of logical rules.
+ * @throws Throws an error describing what is wrong with the rule.
+ */
+export const parseRule = (raw: string, hasPolicy: boolean = true): Rule => {
+  const parts = splitRule(raw, hasPolicy);
+  const type = raw.split(',')[0].trim().toUpperCase();
+  if (!parts) {
+    if (!raw.includes(',')) throw new Error(`Rule "${raw.trim()}" has no payload or policy.`);
+    if (isLogicalRuleType(type)) {
+      throw new Error(`${type} rules must look like "${type},((CONDITION),...)${hasPolicy ? ',POLICY' : ''}", with balanced parentheses.`);
+    }
+    if (type === 'SUB-RULE') throw new Error('SUB-RULE rules must look like "SUB-RULE,(CONDITION),NAME", with balanced parentheses.');
+    throw new Error(`Rule "${raw.trim()}" needs a type, a payload and a policy.`);
+  }
+  if (hasPolicy && !parts.policy) throw new Error(`Rule "${raw.trim()}" has no policy.`);
+
+  const node = {
+    raw,
+    policy: parts.policy,
+    params: parts.params,
+    options: { noResolve: parts.params.includes('no-resolve'), src: parts.params.includes('src') },
+  };
+  if (parts.type === 'MATCH' || parts.type === 'FINAL') {
+    if (!hasPolicy) throw new Error(`${parts.type} cannot be a condition of a logical rule.`);
+    return { ...node, type: parts.type, payload: '' };
+  }
+  if (parts.type === 'SUB-RULE') {
+    if (!hasPolicy) throw new Error('SUB-RULE cannot be a condition of a logical rule.');
+    const condition = parts.payload.substring(1, parts.payload.length - 1).trim();
+    if (!condition || condition.startsWith('(')) throw new Error('SUB-RULE takes exactly one condition.');
+    return { ...node, type: parts.type, payload: parts.payload, condition: parseRule(condition, false) };
+  }
+  if (parts.type === 'AND' || parts.type === 'OR' || parts.type === 'NOT') {
+    const conditions = parseLogicalPayload(parts.payload).map(condition => parseRule(condition, false));
+    if (parts.type === 'NOT' && conditions.length !== 1) throw new Error('NOT takes exactly one condition.');
+    return { ...node, type: parts.type, payload: parts.payload, conditions };
+  }
+  if (!isSimpleRuleType(parts.type)) throw new Error(`Unknown rule type "${parts.type}".`);
+  if (!parts.payload) throw new Error(`Rule "${raw.trim()}" has an empty payload.`);
+  return { ...node, type: parts.type, payload: parts.payload };
+};
+
+/**
+ * Splits the payload of a logical rule into its sub-conditions.
+ * For example `((DOMAIN,a.com),(NOT,((NETWORK,UDP))))` yields `['DOMAIN,a.com', 'NOT,((NETWORK,UDP))']`.
+ * @param payload The parenthesised payload of an AND/OR/NOT rule.
+ * @returns The sub-conditions without their surrounding parentheses.
+ * @throws Throws an error if the payload is not a well-formed list of conditions.
+ */
+export const parseLogicalPayload = (payload: string): string[] => {
+  const trimmed = payload.trim();
+  if (!trimmed.startsWith('(') || findClosingParen(trimmed, 0) !== trimmed.length - 1) {
+    throw new Error(`Malformed logical payload: ${payload}`);
+  }
+
+  const inner = trimmed.substring(1, trimmed.length - 1).trim();
+  const conditions: string[] = [];
+  let index = 0;
+  while (index < inner.length) {
+    if (inner[index] !== '(') {
+      throw new Error(`Expected "(" at position ${index + 1} of logical payload: ${payload}`);
+    }
+    const closeIndex = findClosingParen(inner, index);
+    if (closeIndex === -1) {
+      throw new Error(`Unbalanced parentheses in logical payload: ${payload}`);
+    }
+    const condition = inner.substring(index + 1, closeIndex).trim();
+    if (!condition) {
+      throw new Error(`Empty condition in logical payload: ${payload}`);
+    }
+    conditions.push(condition);
+
+    index = closeIndex + 1;
+    while (index < inner.length && inner[index] === ' ') index++;
+    if (index < inner.length) {
+      if (inner[index] !== ',') {
+        throw new Error(`Expected "," at position ${index + 1} of logical payload: ${payload}`);
+      }
+      index++;
+      while (index < inner.length && inner[index] === ' ') index++;
+    }
+  }
+
+  if (conditions.length === 0) {
+    throw new Error(`Logical payload has no conditions: ${payload}`);
+  }
+  return conditions;
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('splitRule', () => {
+    it('should split a plain rule', () => {
+      expect(splitRule('DOMAIN-SUFFIX,google.com,PROXY')).toEqual({
+        type: 'DOMAIN-SUFFIX', payload: 'google.com', policy: 'PROXY', params: [],
+      });
+    });
+    it('should keep extra params', () => {
+      expect(splitRule('IP-CIDR,10.0.0.0/8,DIRECT,no-resolve')?.params).toEqual(['no-resolve']);
+    });
+    it('should split MATCH rules', () => {
+      expect(splitRule('MATCH,DIRECT')).toEqual({ type: 'MATCH', payload: '', policy: 'DIRECT', params: [] });
+    });
+    it('should keep the parenthesised payload of logical rules', () => {
+      expect(splitRule('AND,((DOMAIN-SUFFIX,google.com),(NETWORK,UDP)),REJECT')).toEqual({
+        type: 'AND', payload: '((DOMAIN-SUFFIX,google.com),(NETWORK,UDP))', policy: 'REJECT', params: [],
+      });
+    });
+    it('should split sub-conditions without a policy', () => {
+      expect(splitRule('NOT,((GEOIP,CN))', false)).toEqual({
+        type: 'NOT', payload: '((GEOIP,CN))', policy: '', params: [],
+      });
+      expect(splitRule('DOMAIN,a.com', false)?.payload).toBe('a.com');
+    });
+    it('should reject malformed rules', () => {
+      expect(splitRule('DOMAIN,a.com')).toBeNull();
+      expect(splitRule('AND,((DOMAIN,a.com),REJECT')).toBeNull();
+      expect(splitRule('AND,((DOMAIN,a.com))')).toBeNull();
+    });
+  });
+
+  describe('parseRule', () => {
+    it('should parse options and nested conditions', () => {
+      const rule = parseRule('IP-CIDR,10.0.0.0/8,DIRECT,no-resolve');
+      expect(rule).toMatchObject({ type: 'IP-CIDR', payload: '10.0.0.0/8', policy: 'DIRECT', options: { noResolve: true, src: false } });
+
+      const logical = parseRule('AND,((DOMAIN,a.com),(NOT,((GEOIP,CN,src)))),REJECT');
+      expect(logical.type === 'AND' && logical.conditions.map(c => c.type)).toEqual(['DOMAIN', 'NOT']);
+      const not = logical.type === 'AND' ? logical.conditions[1] : undefined;
+      expect(not?.type === 'NOT' && not.conditions[0].options.src).toBe(true);
+    });
+
+    it('should parse the condition and list of SUB-RULE', () => {
+      const rule = parseRule('SUB-RULE,(AND,((NETWORK,tcp),(DST-PORT,443))),streaming');
+      expect(rule).toMatchObject({ type: 'SUB-RULE', payload: '(AND,((NETWORK,tcp),(DST-PORT,443)))', policy: 'streaming' });
+      expect(rule.type === 'SUB-RULE' && rule.condition.type).toBe('AND');
+      expect(() => parseRule('SUB-RULE,(NETWORK,tcp)')).toThrow(/SUB-RULE rules must look like/);
+      expect(() => parseRule('SUB-RULE,((NETWORK,tcp),(NETWORK,udp)),streaming')).toThrow('SUB-RULE takes exactly one condition.');
+      expect(() => parseRule('AND,((SUB-RULE,(NETWORK,tcp))),REJECT')).toThrow('SUB-RULE cannot be a condition of a logical rule.');
+    });
+
+    it('should explain what is wrong', () => {
+      expect(() => parseRule('DOMAIN,a.com')).toThrow('Rule "DOMAIN,a.com" needs a type, a payload and a policy.');
+      expect(() => parseRule('DOMAIN-FOO,a.com,DIRECT')).toThrow('Unknown rule type "DOMAIN-FOO".');
+      expect(() => parseRule('DOMAIN,,DIRECT')).toThrow(/empty payload/);
+      expect(() => parseRule('DOMAIN,a.com,')).toThrow(/has no policy/);
+      expect(() => parseRule('AND,((DOMAIN,a.com),REJECT')).toThrow(/balanced parentheses/);
+      expect(() => parseRule('OR,((DOMAIN,a.com),(FOO,b)),REJECT')).toThrow('Unknown rule type "FOO".');
+      expect(() => parseRule('NOT,((DOMAIN,a.com),(DOMAIN,b.com)),REJECT')).toThrow('NOT takes exactly one condition.');
+    });
+  });
+
+  describe('parseLogicalPayload', () => {
+    it('should split top-level conditions', () => {
+      expect(parseLogicalPayload('((DOMAIN-SUFFIX,google.com),(NETWORK,UDP))'))
+        .toEqual(['DOMAIN-SUFFIX,google.com', 'NETWORK,UDP']);
+    });
+    it('should keep nested logical conditions intact', () => {
+      expect(parseLogicalPayload('((OR,((DOMAIN,a.com),(DOMAIN,b.com))),(NOT,((GEOIP,CN))))'))
+        .toEqual(['OR,((DOMAIN,a.com),(DOMAIN,b.com))', 'NOT,((GEOIP,CN))']);
+    });
+    it('should tolerate spaces between conditions', () => {
+      expect(parseLogicalPayload('((DOMAIN,a.com), (DOMAIN,b.com))')).toEqual(['DOMAIN,a.com', 'DOMAIN,b.com']);
+    });
+    it('should throw on malformed payloads', () => {
+      expect(() => parseLogicalPayload('(DOMAIN,a.com)')).toThrow();
+      expect(() => parseLogicalPayload('((DOMAIN,a.com)')).toThrow();
+      expect(() => parseLogicalPayload('((DOMAIN,a.com)(DOMAIN,b.com))')).toThrow();
+      expect(() => parseLogicalPayload('()')).toThrow();
+    });
+  });
+}
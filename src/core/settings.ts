@@ -0,0 +1,134 @@
+import { applyProxyTemplate, createFetchTransport, createMockTransport } from './transport';
+import type { Transport } from './transport';
+
+// User settings for the network layer, persisted in the browser.
+
+export type DnsRecordType = 'A' | 'AAAA';
+
+export interface NetworkSettings {
+  mode: 'direct' | 'proxy' | 'mock'; // How providers are downloaded
+  proxyTemplate: string; // `{url}` is replaced with the encoded provider URL
+  mockResponses: Record<string, string>; // Response bodies by URL, for mock mode
+  dohServer: string; // A DoH endpoint answering `?name=...&type=...` with application/dns-json
+  dohRecordTypes: DnsRecordType[];
+  timeoutMs: number;
+  retries: number;
+}
+
+export const DEFAULT_NETWORK_SETTINGS: NetworkSettings = {
+  mode: 'proxy',
+  proxyTemplate: 'https://cors-proxy.batkiz.workers.dev/?url={url}',
+  mockResponses: {},
+  dohServer: 'https://cloudflare-dns.com/dns-query',
+  dohRecordTypes: ['A', 'AAAA'],
+  timeoutMs: 15000,
+  retries: 1,
+};
+
+// The CLI has no CORS to work around, and provider URLs from CI configs shouldn't go through a third-party proxy.
+export const CLI_NETWORK_SETTINGS: NetworkSettings = { ...DEFAULT_NETWORK_SETTINGS, mode: 'direct' };
+
+// The subset of the Web Storage API the settings need, so Node and tests can pass their own.
+export interface SettingsStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+}
+
+const STORAGE_KEY = 'clash-rule-tester:network';
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string');
+
+/**
+ * Checks settings read from storage or typed by the user, falling back to the default for each invalid field.
+ */
+export const normalizeSettings = (value: unknown): NetworkSettings => {
+  const input = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof NetworkSettings, unknown>>;
+  const defaults = DEFAULT_NETWORK_SETTINGS;
+  const isCount = (n: unknown): n is number => typeof n === 'number' && Number.isInteger(n) && n >= 0;
+  const recordTypes = Array.isArray(input.dohRecordTypes)
+    ? defaults.dohRecordTypes.filter(type => (input.dohRecordTypes as unknown[]).includes(type))
+    : [];
+  return {
+    mode: input.mode === 'direct' || input.mode === 'proxy' || input.mode === 'mock' ? input.mode : defaults.mode,
+    proxyTemplate: typeof input.proxyTemplate === 'string' && input.proxyTemplate.trim() ? input.proxyTemplate.trim() : defaults.proxyTemplate,
+    mockResponses: isStringRecord(input.mockResponses) ? input.mockResponses : defaults.mockResponses,
+    dohServer: typeof input.dohServer === 'string' && input.dohServer.trim() ? input.dohServer.trim() : defaults.dohServer,
+    dohRecordTypes: recordTypes.length > 0 ? recordTypes : defaults.dohRecordTypes,
+    timeoutMs: isCount(input.timeoutMs) ? input.timeoutMs : defaults.timeoutMs,
+    retries: isCount(input.retries) ? Math.min(input.retries, 5) : defaults.retries,
+  };
+};
+
+export const loadSettings = (storage: SettingsStorage): NetworkSettings => {
+  try {
+    return normalizeSettings(JSON.parse(storage.getItem(STORAGE_KEY) ?? '{}'));
+  } catch {
+    return DEFAULT_NETWORK_SETTINGS;
+  }
+};
+
+export const saveSettings = (storage: SettingsStorage, settings: NetworkSettings) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Builds the transports for the settings. DoH servers answer CORS requests themselves,
+ * so lookups skip the proxy; mock mode answers both from the canned responses.
+ */
+export const createTransports = (settings: NetworkSettings): { providers: Transport; dns: Transport } => {
+  if (settings.mode === 'mock') {
+    const mock = createMockTransport(settings.mockResponses);
+    return { providers: mock, dns: mock };
+  }
+  const options = { timeoutMs: settings.timeoutMs, retries: settings.retries };
+  const direct = createFetchTransport(options);
+  return {
+    providers: settings.mode === 'proxy' ? createFetchTransport(options, url => applyProxyTemplate(settings.proxyTemplate, url)) : direct,
+    dns: direct,
+  };
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, afterEach } = import.meta.vitest;
+
+  const createStorage = (): SettingsStorage => {
+    const items = new Map<string, string>();
+    return { getItem: key => items.get(key) ?? null, setItem: (key, value) => items.set(key, value) };
+  };
+
+  describe('settings', () => {
+    it('should round-trip through storage', () => {
+      const storage = createStorage();
+      expect(loadSettings(storage)).toEqual(DEFAULT_NETWORK_SETTINGS);
+      const settings: NetworkSettings = { ...DEFAULT_NETWORK_SETTINGS, mode: 'direct', dohRecordTypes: ['A'], retries: 3 };
+      saveSettings(storage, settings);
+      expect(loadSettings(storage)).toEqual(settings);
+    });
+
+    it('should replace invalid fields with defaults', () => {
+      const storage = createStorage();
+      storage.setItem(STORAGE_KEY, JSON.stringify({ mode: 'ftp', dohRecordTypes: ['MX'], timeoutMs: -1, retries: 2, mockResponses: { a: 1 } }));
+      expect(loadSettings(storage)).toEqual({ ...DEFAULT_NETWORK_SETTINGS, retries: 2 });
+      storage.setItem(STORAGE_KEY, '{not json');
+      expect(loadSettings(storage)).toEqual(DEFAULT_NETWORK_SETTINGS);
+    });
+  });
+
+  describe('createTransports', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should download providers directly with the CLI settings', async () => {
+      const fetchSpy = vi.fn(async () => new Response('ok'));
+      vi.stubGlobal('fetch', fetchSpy);
+      await createTransports(CLI_NETWORK_SETTINGS).providers('https://example.com/list.txt');
+      await createTransports(DEFAULT_NETWORK_SETTINGS).providers('https://example.com/list.txt');
+      expect(fetchSpy.mock.calls.map(call => String((call as unknown[])[0]))).toEqual([
+        'https://example.com/list.txt',
+        'https://cors-proxy.batkiz.workers.dev/?url=https%3A%2F%2Fexample.com%2Flist.txt',
+      ]);
+    });
+  });
+}
@@ -0,0 +1,215 @@
+import { parse } from 'yaml';
+import type { ClashConfig, HostsConfig } from './configParser';
+import { createStaticResolver } from './dns';
+import { matchDomain } from './ruleMatcher';
+import type { ConnectionMetadata, MatchOptions } from './ruleMatcher';
+
+// A test suite kept next to a Clash config, e.g. rules.test.yaml:
+//
+//   config: ./config.yaml
+//   cases:
+//     - www.netflix.com -> Streaming
+//     - ads.example.com -> REJECT
+//     - host: api.example.com
+//       port: 443
+//       network: udp
+//       expect: DIRECT
+//   static-dns:                # optional: resolve from these mappings instead of DoH
+//     api.example.com: 203.0.113.10
+
+export interface TestCase {
+  name: string; // The case as written, used in reports
+  metadata: ConnectionMetadata;
+  expect: string; // Expected policy, or expected final outbound when proxy-groups are defined
+}
+
+export interface TestSuite {
+  config?: string; // Path of the config under test, relative to the suite file
+  staticDns?: HostsConfig; // Domain→IP mappings that replace DoH, so runs are offline and deterministic
+  cases: TestCase[];
+}
+
+export interface TestCaseResult {
+  testCase: TestCase;
+  passed: boolean;
+  actualPolicy?: string;
+  finalOutbound?: string;
+  matchingRule?: string;
+  subMatchingRule?: string;
+  error?: string;
+}
+
+export interface SuiteReport {
+  results: TestCaseResult[];
+  passed: number;
+  failed: number;
+}
+
+type RawCase = string | {
+  host?: string;
+  domain?: string;
+  ip?: string;
+  port?: number;
+  network?: 'tcp' | 'udp';
+  'src-ip'?: string;
+  'src-port'?: number;
+  process?: string;
+  'process-path'?: string;
+  'in-port'?: number;
+  'in-type'?: string;
+  'in-user'?: string;
+  'in-name'?: string;
+  expect?: string;
+};
+
+const parseCase = (raw: RawCase, index: number): TestCase => {
+  if (typeof raw === 'string') {
+    const [input, expected] = raw.split('->').map(part => part.trim());
+    if (!input || !expected) {
+      throw new Error(`Case ${index + 1}: expected "<domain> -> <policy>", got "${raw}".`);
+    }
+    return { name: raw, metadata: { host: input }, expect: expected };
+  }
+
+  const host = raw?.host ?? raw?.domain;
+  if (!host || !raw.expect) {
+    throw new Error(`Case ${index + 1}: needs a "host" and an "expect" field.`);
+  }
+  return {
+    name: `${host} -> ${raw.expect}`,
+    expect: String(raw.expect),
+    metadata: {
+      host: String(host),
+      dstIp: raw.ip,
+      dstPort: raw.port,
+      network: raw.network,
+      srcIp: raw['src-ip'],
+      srcPort: raw['src-port'],
+      processName: raw.process,
+      processPath: raw['process-path'],
+      inPort: raw['in-port'],
+      inType: raw['in-type'],
+      inUser: raw['in-user'],
+      inName: raw['in-name'],
+    },
+  };
+};
+
+/**
+ * Parses a YAML test suite.
+ * @throws Throws an error naming the offending case if the suite is malformed.
+ */
+export const parseSuite = (suiteYaml: string): TestSuite => {
+  const raw = parse(suiteYaml) as { config?: unknown; 'static-dns'?: unknown; cases?: unknown } | null;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.cases)) {
+    throw new Error('Invalid test suite: expected a "cases" list.');
+  }
+  const staticDns = raw['static-dns'];
+  if (staticDns !== undefined && (typeof staticDns !== 'object' || staticDns === null || Array.isArray(staticDns))) {
+    throw new Error('Invalid test suite: "static-dns" must map domains to IPs.');
+  }
+  return {
+    config: typeof raw.config === 'string' ? raw.config : undefined,
+    staticDns: staticDns as HostsConfig | undefined,
+    cases: raw.cases.map((c, i) => parseCase(c as RawCase, i)),
+  };
+};
+
+/**
+ * Runs every case of a suite against a config.
+ * A case passes when the expected policy equals the matched rule's policy
+ * or the final outbound it resolves to through proxy-groups.
+ */
+export const runSuite = async (config: ClashConfig, suite: TestSuite, options: MatchOptions = {}): Promise<SuiteReport> => {
+  const matchOptions: MatchOptions = suite.staticDns && !options.resolver
+    ? { ...options, resolver: createStaticResolver(suite.staticDns) }
+    : options;
+  const results: TestCaseResult[] = [];
+  for (const testCase of suite.cases) {
+    try {
+      const match = await matchDomain(config, testCase.metadata, matchOptions);
+      const finalOutbound = match?.policyChain?.finalOutbound;
+      results.push({
+        testCase,
+        passed: !!match && (match.finalPolicy === testCase.expect || finalOutbound === testCase.expect),
+        actualPolicy: match?.finalPolicy,
+        finalOutbound,
+        matchingRule: match?.matchingRule,
+        subMatchingRule: match?.subMatchingRule,
+      });
+    } catch (e: unknown) {
+      results.push({ testCase, passed: false, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  const passed = results.filter(r => r.passed).length;
+  return { results, passed, failed: results.length - passed };
+};
+
+/**
+ * Formats a report as plain text, detailing the actual matching rule of each failure.
+ */
+export const formatReport = (report: SuiteReport): string => {
+  const lines = report.results.map(result => {
+    if (result.passed) return `  ✓ ${result.testCase.name}`;
+    const details = result.error
+      ? [`error: ${result.error}`]
+      : [
+        `actual: ${result.actualPolicy ?? '(no match)'}${result.finalOutbound && result.finalOutbound !== result.actualPolicy ? ` → ${result.finalOutbound}` : ''}`,
+        `rule: ${result.matchingRule ?? '(none)'}`,
+        ...(result.subMatchingRule ? [`provider rule: ${result.subMatchingRule}`] : []),
+      ];
+    return [`  ✗ ${result.testCase.name}`, ...details.map(d => `      ${d}`)].join('\n');
+  });
+  lines.push('', `${report.passed} passed, ${report.failed} failed, ${report.results.length} total`);
+  return lines.join('\n');
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe('parseSuite', () => {
+    it('should parse shorthand and detailed cases', () => {
+      const suite = parseSuite([
+        'config: ./config.yaml',
+        'cases:',
+        '  - www.netflix.com -> Streaming',
+        '  - host: dns.google',
+        '    port: 853',
+        '    network: tcp',
+        '    expect: DIRECT',
+      ].join('\n'));
+      expect(suite.config).toBe('./config.yaml');
+      expect(suite.cases[0]).toEqual({ name: 'www.netflix.com -> Streaming', metadata: { host: 'www.netflix.com' }, expect: 'Streaming' });
+      expect(suite.cases[1].metadata).toMatchObject({ host: 'dns.google', dstPort: 853, network: 'tcp' });
+    });
+
+    it('should name malformed cases', () => {
+      expect(() => parseSuite('cases:\n  - a.com\n')).toThrow(/Case 1/);
+      expect(() => parseSuite('cases:\n  - a.com -> DIRECT\n  - host: b.com\n')).toThrow(/Case 2/);
+      expect(() => parseSuite('rules: []')).toThrow(/cases/);
+    });
+  });
+
+  describe('runSuite', () => {
+    const config: ClashConfig = {
+      proxies: [{ name: 'HK-01', type: 'ss' }],
+      'proxy-groups': [{ name: 'Streaming', type: 'select', proxies: ['HK-01'] }],
+      rules: ['DOMAIN-SUFFIX,netflix.com,Streaming', 'DOMAIN,ads.example.com,REJECT', 'MATCH,DIRECT'],
+    };
+
+    it('should pass on the rule policy or the final outbound and report failures', async () => {
+      const suite = parseSuite('cases:\n  - netflix.com -> Streaming\n  - netflix.com -> HK-01\n  - ads.example.com -> DIRECT\n');
+      const report = await runSuite(config, suite);
+      expect(report.results.map(r => r.passed)).toEqual([true, true, false]);
+      expect(report.failed).toBe(1);
+      expect(report.results[2].matchingRule).toBe('DOMAIN,ads.example.com,REJECT');
+      expect(formatReport(report)).toContain('rule: DOMAIN,ads.example.com,REJECT');
+    });
+
+    it('should resolve from static-dns mappings', async () => {
+      const suite = parseSuite('static-dns:\n  api.example.com: 10.0.0.1\ncases:\n  - api.example.com -> LAN\n  - www.example.com -> DIRECT\n');
+      const report = await runSuite({ rules: ['IP-CIDR,10.0.0.0/8,LAN', 'MATCH,DIRECT'] }, suite);
+      expect(report.failed).toBe(0);
+    });
+  });
+}
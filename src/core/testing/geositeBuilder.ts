@@ -0,0 +1,41 @@
+import type { GeoSiteDomainType } from '../geosite';
+
+// Builds tiny geosite.dat files for tests, so no binary fixtures need to be checked in.
+
+const DOMAIN_TYPES: GeoSiteDomainType[] = ['keyword', 'regexp', 'domain', 'full'];
+
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+};
+
+const lengthDelimited = (fieldNumber: number, payload: number[]): number[] =>
+  [...varint(fieldNumber * 8 + 2), ...varint(payload.length), ...payload];
+
+const text = (value: string): number[] => Array.from(new TextEncoder().encode(value));
+
+export interface TestGeoSiteDomain {
+  type: GeoSiteDomainType;
+  value: string;
+  attributes?: string[];
+}
+
+export const buildTestGeoSite = (categories: { [code: string]: TestGeoSiteDomain[] }): Uint8Array => {
+  const entries = Object.entries(categories).flatMap(([code, domains]) => lengthDelimited(1, [
+    ...lengthDelimited(1, text(code)),
+    ...domains.flatMap(domain => lengthDelimited(2, [
+      ...varint(1 * 8), ...varint(DOMAIN_TYPES.indexOf(domain.type)),
+      ...lengthDelimited(2, text(domain.value)),
+      ...(domain.attributes ?? []).flatMap(attribute => lengthDelimited(3, [
+        ...lengthDelimited(1, text(attribute)),
+        ...varint(2 * 8), 1,
+      ])),
+    ])),
+  ]));
+  return new Uint8Array(entries);
+};
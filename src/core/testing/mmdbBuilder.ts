@@ -0,0 +1,83 @@
+// Builds tiny IPv4 MaxMind DB files for tests, so no binary fixtures need to be checked in.
+
+const encodeSize = (type: number, size: number): number[] => {
+  const extended = type > 7;
+  const head = extended ? 0 : type << 5;
+  const sizeBytes = size < 29 ? [head | size] : [head | 29, size - 29];
+  return extended ? [sizeBytes[0], type - 7, ...sizeBytes.slice(1)] : sizeBytes;
+};
+
+export const encodeMmdbValue = (value: unknown): number[] => {
+  if (typeof value === 'string') {
+    const bytes = Array.from(new TextEncoder().encode(value));
+    return [...encodeSize(2, bytes.length), ...bytes];
+  }
+  if (typeof value === 'number') {
+    const bytes = [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    while (bytes.length > 0 && bytes[0] === 0) bytes.shift();
+    return [...encodeSize(6, bytes.length), ...bytes];
+  }
+  if (typeof value === 'boolean') {
+    return encodeSize(14, value ? 1 : 0);
+  }
+  if (Array.isArray(value)) {
+    return [...encodeSize(11, value.length), ...value.flatMap(encodeMmdbValue)];
+  }
+  const entries = Object.entries(value as object);
+  return [...encodeSize(7, entries.length), ...entries.flatMap(([k, v]) => [...encodeMmdbValue(k), ...encodeMmdbValue(v)])];
+};
+
+/**
+ * Builds an IPv4 MaxMind DB with 24-bit records.
+ * @param databaseType The `database_type` metadata value.
+ * @param networks Non-overlapping IPv4 CIDRs and the records stored for them.
+ */
+export const buildTestMmdb = (databaseType: string, networks: [string, unknown][]): Uint8Array => {
+  type Ref = { node: number } | { data: number } | null;
+  const nodes: [Ref, Ref][] = [[null, null]];
+  const data: number[] = [];
+
+  for (const [cidr, record] of networks) {
+    const [ip, prefix] = cidr.split('/');
+    const address = ip.split('.').reduce((acc, octet) => acc * 256 + Number(octet), 0);
+    const dataOffset = data.length;
+    data.push(...encodeMmdbValue(record));
+
+    let node = 0;
+    for (let i = 0; i < Number(prefix); i++) {
+      const bit = Math.floor(address / 2 ** (31 - i)) % 2;
+      if (i === Number(prefix) - 1) {
+        nodes[node][bit] = { data: dataOffset };
+        break;
+      }
+      const next = nodes[node][bit];
+      if (next && 'node' in next) {
+        node = next.node;
+      } else {
+        nodes.push([null, null]);
+        nodes[node][bit] = { node: nodes.length - 1 };
+        node = nodes.length - 1;
+      }
+    }
+  }
+
+  const nodeCount = nodes.length;
+  const toRecord = (ref: Ref): number => {
+    if (!ref) return nodeCount;
+    return 'node' in ref ? ref.node : nodeCount + 16 + ref.data;
+  };
+  const tree = nodes.flatMap(([left, right]) => [toRecord(left), toRecord(right)]
+    .flatMap(record => [(record >> 16) & 0xff, (record >> 8) & 0xff, record & 0xff]));
+
+  const marker = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', c => c.charCodeAt(0))];
+  const metadata = encodeMmdbValue({
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    database_type: databaseType,
+    ip_version: 4,
+    node_count: nodeCount,
+    record_size: 24,
+  });
+
+  return new Uint8Array([...tree, ...new Array(16).fill(0), ...data, ...marker, ...metadata]);
+};
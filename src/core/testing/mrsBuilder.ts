@@ -0,0 +1,90 @@
+import { parseCidr } from '../helper';
+
+// Builds tiny .mrs files for tests the way mihomo writes them, wrapped in an
+// uncompressed zstd frame so no binary fixtures or zstd encoder are needed.
+
+const int64 = (value: number): number[] => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigInt64(0, BigInt(value));
+  return Array.from(bytes);
+};
+
+const setBit = (words: bigint[], index: number) => {
+  while (words.length <= index >> 6) words.push(0n);
+  words[index >> 6] |= 1n << BigInt(index & 63);
+};
+
+const uint64Array = (words: bigint[]): number[] => [
+  ...int64(words.length),
+  ...words.flatMap(word => {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, word);
+    return Array.from(bytes);
+  }),
+];
+
+// mihomo's DomainSet: sorted reversed keys laid out breadth-first as a succinct trie.
+const buildDomainSet = (domains: string[]): number[] => {
+  const expanded = domains.flatMap(domain => (domain.startsWith('+.') ? [domain, domain.substring(2)] : [domain]));
+  const keys = [...new Set(expanded)].map(domain => Array.from(domain).reverse().join('')).sort();
+
+  const leaves: bigint[] = [];
+  const labelBitmap: bigint[] = [];
+  const labels: number[] = [];
+  let labelIndex = 0;
+  const queue = [{ start: 0, end: keys.length, column: 0 }];
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    if (node.column === keys[node.start].length) {
+      node.start++;
+      setBit(leaves, i);
+    }
+    for (let j = node.start; j < node.end;) {
+      const from = j;
+      while (j < node.end && keys[j][node.column] === keys[from][node.column]) j++;
+      queue.push({ start: from, end: j, column: node.column + 1 });
+      labels.push(keys[from].charCodeAt(node.column));
+      labelIndex++;
+    }
+    setBit(labelBitmap, labelIndex);
+    labelIndex++;
+  }
+  return [1, ...uint64Array(leaves), ...uint64Array(labelBitmap), ...int64(labels.length), ...labels];
+};
+
+// mihomo's IpCidrSet: ranges of 16-byte addresses, IPv4 as IPv4-mapped.
+const buildIpCidrSet = (cidrs: string[]): number[] => {
+  const ranges = cidrs.flatMap(cidr => {
+    const { bytes, prefixLength } = parseCidr(cidr)!;
+    const address = bytes.length === 4 ? [...new Array(10).fill(0), 0xff, 0xff, ...bytes] : Array.from(bytes);
+    const hostBits = (bytes.length === 4 ? 32 : 128) - prefixLength;
+    const from = [...address];
+    const to = [...address];
+    for (let bit = 0; bit < hostBits; bit++) {
+      const index = 15 - (bit >> 3);
+      from[index] &= ~(1 << (bit & 7));
+      to[index] |= 1 << (bit & 7);
+    }
+    return [...from, ...to];
+  });
+  return [1, ...int64(cidrs.length), ...ranges];
+};
+
+const zstdRawFrame = (content: number[]): Uint8Array => {
+  const blocks: number[] = [];
+  const blockSize = 128 * 1024;
+  for (let offset = 0; offset === 0 || offset < content.length; offset += blockSize) {
+    const block = content.slice(offset, offset + blockSize);
+    const isLast = offset + blockSize >= content.length ? 1 : 0;
+    const header = (block.length << 3) | isLast; // Block type 0: raw
+    blocks.push(header & 0xff, (header >> 8) & 0xff, (header >> 16) & 0xff, ...block);
+  }
+  const size = content.length;
+  // Magic number, then a single-segment frame header with a 4-byte content size.
+  return new Uint8Array([0x28, 0xb5, 0x2f, 0xfd, 0xa0, size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, size >>> 24, ...blocks]);
+};
+
+export const buildTestMrs = (behavior: 'domain' | 'ipcidr', entries: string[]): Uint8Array => {
+  const body = behavior === 'domain' ? buildDomainSet(entries) : buildIpCidrSet(entries);
+  return zstdRawFrame([0x4d, 0x52, 0x53, 0x01, behavior === 'domain' ? 0 : 1, ...int64(entries.length), ...int64(0), ...body]);
+};
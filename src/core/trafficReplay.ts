@@ -0,0 +1,493 @@
+import type { ClashConfig } from './configParser';
+import { FAILED, NO_MATCH, escapeCsvField, parseDomainList } from './batch';
+import { parseIpBytes } from './helper';
+import { matchDomain } from './ruleMatcher';
+import type { ConnectionMetadata, MatchOptions, MatchResult } from './ruleMatcher';
+import { getEffectiveRuleType, isLogicalRuleType, parseRule } from './ruleParser';
+
+// Replays real traffic through the rules: destinations are imported from mihomo connection dumps
+// and logs, browser HAR exports, hosts files or plain domain lists, and where the source recorded
+// the policy Clash chose, the tester's decision is checked against it.
+
+export type TrafficFormat = 'connections' | 'log' | 'har' | 'hosts' | 'list';
+
+export const TRAFFIC_FORMATS: { value: TrafficFormat; label: string }[] = [
+  { value: 'connections', label: 'mihomo connections JSON' },
+  { value: 'log', label: 'mihomo / Clash log' },
+  { value: 'har', label: 'HAR export' },
+  { value: 'hosts', label: 'hosts file' },
+  { value: 'list', label: 'Domain list' },
+];
+
+export interface TrafficRecord {
+  metadata: ConnectionMetadata;
+  count: number; // How often the same connection appears in the import
+  recordedPolicy?: string; // The policy of the rule Clash matched, e.g. PROXY
+  recordedOutbound?: string; // The proxy Clash finally used, e.g. a node of the PROXY group
+  recordedRule?: string; // The rule Clash matched, as `TYPE,payload`
+}
+
+export interface TrafficImport {
+  records: TrafficRecord[];
+  skipped: number; // Lines or entries without a usable destination
+}
+
+export interface ReplayRow {
+  record: TrafficRecord;
+  result: MatchResult | null;
+  error?: string;
+  // What differs from the recorded decision: the policy, or only the rule that chose it.
+  mismatch?: 'policy' | 'rule';
+}
+
+// mihomo's names for rule types, as written in logs and the connections API.
+const MIHOMO_RULE_TYPES: { [name: string]: string } = {
+  Domain: 'DOMAIN',
+  DomainSuffix: 'DOMAIN-SUFFIX',
+  DomainKeyword: 'DOMAIN-KEYWORD',
+  DomainRegex: 'DOMAIN-REGEX',
+  DomainWildcard: 'DOMAIN-WILDCARD',
+  GeoSite: 'GEOSITE',
+  GeoIP: 'GEOIP',
+  SrcGeoIP: 'SRC-GEOIP',
+  IPASN: 'IP-ASN',
+  SrcIPASN: 'SRC-IP-ASN',
+  IPCIDR: 'IP-CIDR',
+  SrcIPCIDR: 'SRC-IP-CIDR',
+  IPSuffix: 'IP-SUFFIX',
+  SrcIPSuffix: 'SRC-IP-SUFFIX',
+  SrcPort: 'SRC-PORT',
+  DstPort: 'DST-PORT',
+  InPort: 'IN-PORT',
+  InUser: 'IN-USER',
+  InName: 'IN-NAME',
+  InType: 'IN-TYPE',
+  ProcessName: 'PROCESS-NAME',
+  ProcessPath: 'PROCESS-PATH',
+  Network: 'NETWORK',
+  RuleSet: 'RULE-SET',
+  SubRules: 'SUB-RULE',
+  Match: 'MATCH',
+};
+
+// `RuleSet` + `gfw` → `RULE-SET,gfw`; `Match` has no payload.
+const toRecordedRule = (type: string, payload: string): string | undefined => {
+  if (!type) return undefined;
+  const ruleType = MIHOMO_RULE_TYPES[type] ?? type.toUpperCase();
+  return payload ? `${ruleType},${payload}` : ruleType;
+};
+
+const toPort = (value: unknown): number | undefined => {
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 ? port : undefined;
+};
+
+const toNetwork = (value: unknown): ConnectionMetadata['network'] => {
+  const network = String(value ?? '').toLowerCase();
+  return network === 'tcp' || network === 'udp' ? network : undefined;
+};
+
+const unbracket = (address: string): string => address.replace(/^\[(.*)\]$/, '$1');
+
+// Drops the fields that were not recorded, so equal connections serialize alike.
+const compact = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== '')) as T;
+
+// Merges repeated connections into one record with a count, keeping the first one's order.
+const dedupe = (records: Omit<TrafficRecord, 'count'>[]): TrafficRecord[] => {
+  const byKey = new Map<string, TrafficRecord>();
+  for (const record of records) {
+    const key = JSON.stringify([record.metadata, record.recordedPolicy, record.recordedRule]);
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      byKey.set(key, { ...record, count: 1 });
+    }
+  }
+  return [...byKey.values()];
+};
+
+interface MihomoConnection {
+  metadata?: { [key: string]: unknown };
+  chains?: unknown;
+  rule?: unknown;
+  rulePayload?: unknown;
+}
+
+/**
+ * Reads a dump of mihomo's `/connections` API: either the whole response or its `connections` array.
+ * The destination IP is kept when Clash had one, so the replay sees the same address without resolving.
+ */
+export const parseConnectionsJson = (text: string): TrafficImport => {
+  const data = JSON.parse(text) as { connections?: unknown } | unknown[];
+  const connections = Array.isArray(data) ? data : Array.isArray(data?.connections) ? data.connections : null;
+  if (!connections) throw new Error('Expected a connections dump: an object with a "connections" array.');
+
+  let skipped = 0;
+  const records: Omit<TrafficRecord, 'count'>[] = [];
+  for (const connection of connections as MihomoConnection[]) {
+    const m = connection?.metadata ?? {};
+    const str = (key: string) => (typeof m[key] === 'string' ? (m[key] as string) : '');
+    const host = str('host') || str('sniffHost') || str('destinationIP');
+    if (!host) {
+      skipped++;
+      continue;
+    }
+    const chains = Array.isArray(connection.chains) ? connection.chains.map(String) : [];
+    records.push({
+      metadata: compact({
+        host,
+        dstIp: host !== str('destinationIP') ? str('destinationIP') || undefined : undefined,
+        dstPort: toPort(m.destinationPort),
+        network: toNetwork(m.network),
+        srcIp: str('sourceIP') || undefined,
+        srcPort: toPort(m.sourcePort),
+        processName: str('process') || undefined,
+        processPath: str('processPath') || undefined,
+        inPort: toPort(m.inboundPort),
+        inType: str('type') || undefined,
+        inUser: str('inboundUser') || undefined,
+        inName: str('inboundName') || undefined,
+      }),
+      // Chains run from the proxy actually used back to the policy the rule named.
+      recordedPolicy: chains.at(-1),
+      recordedOutbound: chains[0],
+      recordedRule: toRecordedRule(String(connection.rule ?? ''), String(connection.rulePayload ?? '')),
+    });
+  }
+  return { records: dedupe(records), skipped };
+};
+
+// [TCP] 127.0.0.1:52000(chrome) --> www.google.com:443 match RuleSet(gfw) using PROXY[HK-01]
+const LOG_LINE = /\[(TCP|UDP)\]\s+(?:.*?\s)?(\S+):(\d+)(?:\(([^)]*)\))?\s+-->\s+(\S+):(\d+)\s+(?:match\s+(\w+)(?:\((.*?)\))?|doesn't match any rule)\s+using\s+(.+?)"?\s*$/;
+
+/**
+ * Reads connection lines from a mihomo or Clash log, at info level or more verbose.
+ * Other lines are ignored without counting as skipped.
+ */
+export const parseConnectionLog = (text: string): TrafficImport => {
+  const records: Omit<TrafficRecord, 'count'>[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = LOG_LINE.exec(line);
+    if (!match) continue;
+    const [, network, srcIp, srcPort, processName, dstHost, dstPort, ruleType, rulePayload, using] = match;
+    // `using PROXY[HK-01]` names the policy and, in brackets, the proxy it picked.
+    const [, policy, outbound] = /^(.*?)(?:\[(.*)\])?$/.exec(using.trim())!;
+    records.push({
+      metadata: compact({
+        host: unbracket(dstHost),
+        dstPort: toPort(dstPort),
+        network: toNetwork(network),
+        srcIp: unbracket(srcIp),
+        srcPort: toPort(srcPort),
+        processName: processName || undefined,
+      }),
+      recordedPolicy: policy,
+      recordedOutbound: outbound ?? policy,
+      recordedRule: ruleType ? toRecordedRule(ruleType, rulePayload ?? '') : 'MATCH',
+    });
+  }
+  return { records: dedupe(records), skipped: 0 };
+};
+
+/**
+ * Reads the requests of a browser HAR export. The browser's `serverIPAddress` is left out,
+ * since behind a proxy it is the proxy's address.
+ */
+export const parseHar = (text: string): TrafficImport => {
+  const entries = (JSON.parse(text) as { log?: { entries?: unknown } })?.log?.entries;
+  if (!Array.isArray(entries)) throw new Error('Expected a HAR file: an object with "log.entries".');
+
+  let skipped = 0;
+  const records: Omit<TrafficRecord, 'count'>[] = [];
+  for (const entry of entries as { request?: { url?: unknown } }[]) {
+    let url: URL;
+    try {
+      url = new URL(String(entry?.request?.url));
+    } catch {
+      skipped++;
+      continue;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:' && url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+      skipped++;
+      continue;
+    }
+    const secure = url.protocol === 'https:' || url.protocol === 'wss:';
+    records.push({
+      metadata: { host: unbracket(url.hostname), dstPort: toPort(url.port) ?? (secure ? 443 : 80), network: 'tcp' },
+    });
+  }
+  return { records: dedupe(records), skipped };
+};
+
+/**
+ * Reads the names of a hosts file, `ip name [name...]` per line. Single-label names such as
+ * localhost are skipped, since they never reach the rules.
+ */
+export const parseHostsFile = (text: string): TrafficImport => {
+  let skipped = 0;
+  const records: Omit<TrafficRecord, 'count'>[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const [ip, ...names] = rawLine.replace(/#.*$/, '').trim().split(/\s+/);
+    if (!ip) continue;
+    if (!parseIpBytes(ip)) {
+      skipped++;
+      continue;
+    }
+    for (const name of names) {
+      if (name.includes('.')) {
+        records.push({ metadata: { host: name.toLowerCase() } });
+      } else {
+        skipped++;
+      }
+    }
+  }
+  return { records: dedupe(records), skipped };
+};
+
+/**
+ * Guesses the format of an import from its file name and content.
+ */
+export const detectTrafficFormat = (text: string, fileName: string = ''): TrafficFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.har')) return 'har';
+  const start = text.trimStart();
+  if (start.startsWith('{') || start.startsWith('[')) {
+    return /"log"\s*:\s*\{/.test(start.slice(0, 2000)) && !/"connections"\s*:/.test(start.slice(0, 2000)) ? 'har' : 'connections';
+  }
+  if (text.split(/\r?\n/, 200).some(line => LOG_LINE.test(line))) return 'log';
+  const lines = text.split(/\r?\n/, 50).map(line => line.replace(/#.*$/, '').trim()).filter(Boolean);
+  const isHostsLine = (line: string) => parseIpBytes(line.split(/\s+/)[0]) !== null && /\s/.test(line);
+  return name.endsWith('hosts') || (lines.length > 0 && lines.every(isHostsLine)) ? 'hosts' : 'list';
+};
+
+/**
+ * Extracts the connections of an import.
+ * @throws If a JSON format does not have the expected shape.
+ */
+export const parseTraffic = (text: string, format: TrafficFormat): TrafficImport => {
+  switch (format) {
+    case 'connections':
+      return parseConnectionsJson(text);
+    case 'log':
+      return parseConnectionLog(text);
+    case 'har':
+      return parseHar(text);
+    case 'hosts':
+      return parseHostsFile(text);
+    default:
+      return { records: parseDomainList(text).map(host => ({ metadata: { host }, count: 1 })), skipped: 0 };
+  }
+};
+
+// The matched rule as `TYPE,payload`, comparable to a recorded rule. mihomo records rules by the type
+// they match as: IP-CIDR6 as IP-CIDR, and IP rules with the `src` option as their SRC- counterparts.
+const describeMatchedRule = (result: MatchResult): string => {
+  try {
+    const rule = parseRule(result.matchingRule);
+    if (rule.type === 'MATCH' || rule.type === 'FINAL') return 'MATCH';
+    const ruleType = getEffectiveRuleType(rule);
+    return `${ruleType === 'IP-CIDR6' ? 'IP-CIDR' : ruleType},${rule.payload}`;
+  } catch {
+    return result.matchingRule;
+  }
+};
+
+const findMismatch = (record: TrafficRecord, result: MatchResult | null, error?: string): ReplayRow['mismatch'] => {
+  if (record.recordedPolicy === undefined) return undefined;
+  if (error || !result || result.finalPolicy !== record.recordedPolicy) return 'policy';
+  // Logical and SUB-RULE conditions are written differently by mihomo, so only simple rules are compared.
+  const recordedType = record.recordedRule?.split(',')[0] ?? '';
+  if (!record.recordedRule || isLogicalRuleType(recordedType) || recordedType === 'SUB-RULE') return undefined;
+  return describeMatchedRule(result).toLowerCase() === record.recordedRule.toLowerCase() ? undefined : 'rule';
+};
+
+/**
+ * Matches every imported connection in turn and compares the result with the recorded decision.
+ * A failure only affects its own row; cancelling through `options.signal` stops the whole replay.
+ * @param onProgress Called after each connection with the number done so far.
+ */
+export const replayTraffic = async (
+  config: ClashConfig,
+  records: TrafficRecord[],
+  options: MatchOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<ReplayRow[]> => {
+  const rows: ReplayRow[] = [];
+  for (const record of records) {
+    options.signal?.throwIfAborted();
+    let result: MatchResult | null = null;
+    let error: string | undefined;
+    try {
+      result = await matchDomain(config, record.metadata, options);
+    } catch (e: unknown) {
+      if (options.signal?.aborted) throw e;
+      error = e instanceof Error ? e.message : String(e);
+    }
+    rows.push({ record, result, error, mismatch: findMismatch(record, result, error) });
+    onProgress?.(rows.length, records.length);
+  }
+  return rows;
+};
+
+export const REPLAY_COLUMNS = ['Host', 'Port', 'Process', 'Count', 'Recorded Policy', 'Recorded Rule', 'Policy', 'Matching Rule', 'Mismatch'];
+
+export const replayToCsv = (rows: ReplayRow[]): string => {
+  const lines = rows.map(({ record, result, error, mismatch }) => [
+    record.metadata.host,
+    String(record.metadata.dstPort ?? ''),
+    record.metadata.processName ?? '',
+    String(record.count),
+    record.recordedPolicy ?? '',
+    record.recordedRule ?? '',
+    error ? FAILED : result?.finalPolicy ?? NO_MATCH,
+    error ?? result?.matchingRule ?? '',
+    mismatch ?? '',
+  ].map(escapeCsvField).join(','));
+  return [REPLAY_COLUMNS.join(','), ...lines].join('\n') + '\n';
+};
+
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  const connectionsDump = JSON.stringify({
+    downloadTotal: 0,
+    uploadTotal: 0,
+    connections: [
+      {
+        id: '1',
+        metadata: {
+          network: 'tcp', type: 'Mixed', sourceIP: '127.0.0.1', destinationIP: '142.250.1.1', sourcePort: '52000',
+          destinationPort: '443', host: 'www.google.com', process: 'chrome', processPath: '/usr/bin/chrome', inboundName: 'DEFAULT-MIXED', inboundPort: '7890',
+        },
+        chains: ['HK-01', 'PROXY'],
+        rule: 'DomainSuffix',
+        rulePayload: 'google.com',
+      },
+      {
+        id: '2',
+        metadata: { network: 'udp', sourceIP: '127.0.0.1', destinationIP: '8.8.8.8', destinationPort: '53', host: '' },
+        chains: ['DIRECT'],
+        rule: 'Match',
+        rulePayload: '',
+      },
+      { id: '3', metadata: { network: 'tcp', host: '' }, chains: ['DIRECT'] },
+    ],
+  });
+
+  describe('parseConnectionsJson', () => {
+    it('should read destinations, connection details and the recorded decision', () => {
+      const { records, skipped } = parseConnectionsJson(connectionsDump);
+      expect(skipped).toBe(1);
+      expect(records[0]).toEqual({
+        metadata: {
+          host: 'www.google.com', dstIp: '142.250.1.1', dstPort: 443, network: 'tcp', srcIp: '127.0.0.1', srcPort: 52000,
+          processName: 'chrome', processPath: '/usr/bin/chrome', inPort: 7890, inType: 'Mixed', inName: 'DEFAULT-MIXED',
+        },
+        count: 1,
+        recordedPolicy: 'PROXY',
+        recordedOutbound: 'HK-01',
+        recordedRule: 'DOMAIN-SUFFIX,google.com',
+      });
+      expect(records[1].metadata).toEqual({ host: '8.8.8.8', dstPort: 53, network: 'udp', srcIp: '127.0.0.1' });
+      expect(records[1].recordedRule).toBe('MATCH');
+    });
+
+    it('should reject other JSON', () => {
+      expect(() => parseConnectionsJson('{"foo":1}')).toThrow('connections');
+    });
+  });
+
+  describe('parseConnectionLog', () => {
+    it('should read connection lines and count repeats', () => {
+      const log = [
+        'time="2024-05-01T10:00:00.000+08:00" level=info msg="[TCP] 127.0.0.1:52000(Google Chrome) --> www.google.com:443 match RuleSet(gfw) using PROXY[HK 01]"',
+        'time="2024-05-01T10:00:01.000+08:00" level=info msg="[TCP] 127.0.0.1:52000(Google Chrome) --> www.google.com:443 match RuleSet(gfw) using PROXY[HK 01]"',
+        'time="2024-05-01T10:00:02.000+08:00" level=warning msg="dial failed"',
+        'INFO[0003] [UDP] [::1]:5353 --> [2001:db8::1]:53 doesn\'t match any rule using DIRECT',
+      ].join('\n');
+      const { records } = parseConnectionLog(log);
+      expect(records).toHaveLength(2);
+      expect(records[0]).toEqual({
+        metadata: { host: 'www.google.com', dstPort: 443, network: 'tcp', srcIp: '127.0.0.1', srcPort: 52000, processName: 'Google Chrome' },
+        count: 2,
+        recordedPolicy: 'PROXY',
+        recordedOutbound: 'HK 01',
+        recordedRule: 'RULE-SET,gfw',
+      });
+      expect(records[1].metadata).toEqual({ host: '2001:db8::1', dstPort: 53, network: 'udp', srcIp: '::1', srcPort: 5353 });
+      expect(records[1].recordedPolicy).toBe('DIRECT');
+    });
+  });
+
+  describe('parseHar and parseHostsFile', () => {
+    it('should read request hosts and ports from HAR entries', () => {
+      const har = JSON.stringify({ log: { entries: [
+        { request: { url: 'https://www.google.com/search?q=1' }, serverIPAddress: '10.0.0.1' },
+        { request: { url: 'https://www.google.com/favicon.ico' } },
+        { request: { url: 'http://example.com:8080/' } },
+        { request: { url: 'data:text/plain,hi' } },
+      ] } });
+      const { records, skipped } = parseHar(har);
+      expect(records.map(r => [r.metadata.host, r.metadata.dstPort, r.count])).toEqual([['www.google.com', 443, 2], ['example.com', 8080, 1]]);
+      expect(skipped).toBe(1);
+    });
+
+    it('should read the names of a hosts file', () => {
+      const { records, skipped } = parseHostsFile('127.0.0.1 localhost\n# blocked\n0.0.0.0 ads.example.com tracker.example.com # ads\nbroken line\n');
+      expect(records.map(r => r.metadata.host)).toEqual(['ads.example.com', 'tracker.example.com']);
+      expect(skipped).toBe(2);
+    });
+  });
+
+  describe('detectTrafficFormat', () => {
+    it('should recognize each format', () => {
+      expect(detectTrafficFormat(connectionsDump)).toBe('connections');
+      expect(detectTrafficFormat('{"log":{"version":"1.2","entries":[]}}')).toBe('har');
+      expect(detectTrafficFormat('{}', 'session.har')).toBe('har');
+      expect(detectTrafficFormat('INFO[0003] [TCP] 127.0.0.1:1 --> a.com:443 match Match using DIRECT')).toBe('log');
+      expect(detectTrafficFormat('# hosts\n127.0.0.1 localhost\n0.0.0.0 ads.example.com\n')).toBe('hosts');
+      expect(detectTrafficFormat('www.google.com\nexample.com\n')).toBe('list');
+    });
+  });
+
+  describe('replayTraffic', () => {
+    const config: ClashConfig = { rules: ['DOMAIN,www.google.com,PROXY', 'DOMAIN,mail.google.com,PROXY', 'DOMAIN,example.com,REJECT', 'MATCH,DIRECT'] };
+
+    it('should compare rules by the type mihomo records them as', async () => {
+      const ipConfig: ClashConfig = { rules: ['IP-CIDR6,2001:db8::/32,PROXY', 'IP-CIDR,10.0.0.0/8,LAN,src', 'MATCH,DIRECT'] };
+      const records: TrafficRecord[] = [
+        { metadata: { host: 'a.com', dstIp: '2001:db8::1' }, count: 1, recordedPolicy: 'PROXY', recordedRule: 'IP-CIDR,2001:db8::/32' },
+        { metadata: { host: 'b.com', dstIp: '203.0.113.1', srcIp: '10.0.0.2' }, count: 1, recordedPolicy: 'LAN', recordedRule: 'SRC-IP-CIDR,10.0.0.0/8' },
+      ];
+      expect((await replayTraffic(ipConfig, records)).map(r => r.mismatch)).toEqual([undefined, undefined]);
+    });
+
+    it('should stop when cancelled', async () => {
+      const controller = new AbortController();
+      const records: TrafficRecord[] = [{ metadata: { host: 'www.google.com' }, count: 1 }, { metadata: { host: 'example.com' }, count: 1 }];
+      const rows = replayTraffic(config, records, { signal: controller.signal }, () => controller.abort());
+      await expect(rows).rejects.toThrow(/abort/i);
+
+      const aborted = new AbortController();
+      aborted.abort();
+      await expect(replayTraffic(config, records, { signal: aborted.signal })).rejects.toThrow(/abort/i);
+    });
+
+    it('should report policy and rule mismatches against the recorded decision', async () => {
+      const records: TrafficRecord[] = [
+        { metadata: { host: 'www.google.com' }, count: 1, recordedPolicy: 'PROXY', recordedRule: 'DOMAIN,www.google.com' },
+        { metadata: { host: 'example.com' }, count: 1, recordedPolicy: 'DIRECT', recordedRule: 'MATCH' },
+        { metadata: { host: 'mail.google.com' }, count: 1, recordedPolicy: 'PROXY', recordedRule: 'RULE-SET,gfw' },
+        { metadata: { host: 'example.org' }, count: 1 },
+      ];
+      const progress: number[] = [];
+      const rows = await replayTraffic(config, records, {}, done => progress.push(done));
+      expect(rows.map(r => r.mismatch)).toEqual([undefined, 'policy', 'rule', undefined]);
+      expect(rows[3].result?.finalPolicy).toBe('DIRECT');
+      expect(progress).toEqual([1, 2, 3, 4]);
+      expect(replayToCsv(rows).split('\n')[2]).toBe('example.com,,,1,DIRECT,MATCH,REJECT,"DOMAIN,example.com,REJECT",policy');
+    });
+  });
+}
@@ -0,0 +1,127 @@
+// How provider downloads and DoH lookups reach the network: directly, through a CORS proxy,
+// or from canned responses, with a timeout and retries on top.
+
+export interface TransportRequest {
+  headers?: Record<string, string>;
+  signal?: AbortSignal; // Cancels the request, including retries
+}
+
+export type Transport = (url: string, request?: TransportRequest) => Promise<Response>;
+
+export interface TransportOptions {
+  timeoutMs: number; // Per attempt; 0 waits forever
+  retries: number; // Extra attempts after a network error, a timeout or a 5xx response
+}
+
+/**
+ * Builds a proxied URL. `{url}` in the template is replaced with the encoded target URL;
+ * a template without it gets the encoded URL appended.
+ */
+export const applyProxyTemplate = (template: string, url: string): string =>
+  (template.includes('{url}') ? template.replaceAll('{url}', encodeURIComponent(url)) : `${template}${encodeURIComponent(url)}`);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const fetchWithTimeout = async (url: string, request: TransportRequest, timeoutMs: number): Promise<Response> => {
+  if (timeoutMs <= 0) return fetch(url, request);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = request.signal ? AbortSignal.any([request.signal, controller.signal]) : controller.signal;
+  try {
+    return await fetch(url, { ...request, signal });
+  } catch (e: unknown) {
+    if (controller.signal.aborted && !request.signal?.aborted) throw new Error(`Request timed out after ${timeoutMs} ms`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * A transport that calls `fetch`, optionally rewriting each URL first, e.g. with a proxy template.
+ */
+export const createFetchTransport = (options: TransportOptions, rewriteUrl: (url: string) => string = url => url): Transport =>
+  async (url, request = {}) => {
+    const target = rewriteUrl(url);
+    for (let attempt = 0; ; attempt++) {
+      request.signal?.throwIfAborted();
+      try {
+        const response = await fetchWithTimeout(target, request, options.timeoutMs);
+        if (response.status < 500 || attempt >= options.retries) return response;
+      } catch (e: unknown) {
+        if (attempt >= options.retries || request.signal?.aborted) throw e;
+      }
+      await delay(300 * (attempt + 1));
+    }
+  };
+
+/**
+ * A transport answering from canned bodies by exact URL, and 404 for anything else.
+ * Useful offline and in tests.
+ */
+export const createMockTransport = (responses: Record<string, string>): Transport =>
+  async (url, request) => (request?.signal?.throwIfAborted(), url in responses
+    ? new Response(responses[url], { status: 200 })
+    : new Response(`No mock response for ${url}`, { status: 404 }));
+
+if (import.meta.vitest) {
+  const { describe, it, expect, vi, afterEach } = import.meta.vitest;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('applyProxyTemplate', () => {
+    it('should substitute or append the encoded URL', () => {
+      expect(applyProxyTemplate('https://proxy.example/?url={url}', 'https://a.com/x?y=1'))
+        .toBe('https://proxy.example/?url=https%3A%2F%2Fa.com%2Fx%3Fy%3D1');
+      expect(applyProxyTemplate('https://proxy.example/?url=', 'https://a.com/')).toBe('https://proxy.example/?url=https%3A%2F%2Fa.com%2F');
+    });
+  });
+
+  describe('createFetchTransport', () => {
+    it('should retry network errors and server errors', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch')
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(new Response('', { status: 502 }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+      const transport = createFetchTransport({ timeoutMs: 0, retries: 2 }, url => `https://proxy.example/?url=${url}`);
+      const response = await transport('https://a.com/list.txt');
+      expect(await response.text()).toBe('ok');
+      expect(fetchSpy).toHaveBeenCalledTimes(3);
+      expect(fetchSpy).toHaveBeenLastCalledWith('https://proxy.example/?url=https://a.com/list.txt', {});
+    });
+
+    it('should not retry client errors', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 404 }));
+      expect((await createFetchTransport({ timeoutMs: 0, retries: 2 })('https://a.com/')).status).toBe(404);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop when the request is cancelled', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      }));
+      const controller = new AbortController();
+      const response = createFetchTransport({ timeoutMs: 1000, retries: 2 })('https://a.com/', { signal: controller.signal });
+      controller.abort();
+      await expect(response).rejects.toThrow(/abort/i);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out slow requests', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }));
+      await expect(createFetchTransport({ timeoutMs: 10, retries: 0 })('https://a.com/')).rejects.toThrow('Request timed out after 10 ms');
+    });
+  });
+
+  describe('createMockTransport', () => {
+    it('should answer known URLs only', async () => {
+      const transport = createMockTransport({ 'https://a.com/list.txt': 'a.com' });
+      expect(await (await transport('https://a.com/list.txt')).text()).toBe('a.com');
+      expect((await transport('https://b.com/')).status).toBe(404);
+    });
+  });
+}
@@ -2,9 +2,41 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { configureNetwork, setProviderStore } from './core/network'
+import { decodeSharedState } from './core/permalink'
+import type { SharedState } from './core/permalink'
+import { loadSettings } from './core/settings'
+import { createIndexedDbProviderStore } from './components/indexedDbProviderStore'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Keep downloaded providers across reloads.
+if ('indexedDB' in window) {
+  setProviderStore(createIndexedDbProviderStore())
+}
+
+const root = createRoot(document.getElementById('root')!)
+
+// Opens a share link: its state replaces the defaults, and mock responses it carries apply
+// for this session without touching the saved settings. The fragment is removed afterwards,
+// so reloading keeps later edits instead of restoring the link again.
+const start = async () => {
+  let shared: SharedState | null = null
+  let shareError: string | undefined
+  try {
+    shared = await decodeSharedState(location.hash)
+  } catch (e: unknown) {
+    shareError = e instanceof Error ? e.message : String(e)
+  }
+  if (shared || shareError) history.replaceState(null, '', location.pathname + location.search)
+
+  const saved = loadSettings(localStorage)
+  const settings = shared?.mockResponses ? { ...saved, mode: 'mock' as const, mockResponses: shared.mockResponses } : saved
+  configureNetwork(settings)
+
+  root.render(
+    <StrictMode>
+      <App shared={shared} shareError={shareError} networkSettings={settings} />
+    </StrictMode>,
+  )
+}
+
+start()
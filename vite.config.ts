@@ -6,8 +6,9 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
-  optimizeDeps: {
-    include: ['ip-cidr'],
+  // The match worker is a module worker, like the app it shares code with.
+  worker: {
+    format: 'es',
   },
   test: {
     includeSource: ['src/**/*.{js,ts}'],